@@ -0,0 +1,25 @@
+// Command-line helpers for the fitting scripts
+// Flags are passed as --name=value (npm run fit:ensemble -- --days=30) and
+// validated with the same parsers the API routes use for query params.
+
+import { parseArgs } from 'util';
+
+// Raw flag values by name (null when not given); unknown flags are an error
+export function readFlags(names: string[]): Record<string, string | null> {
+  const { values } = parseArgs({
+    options: Object.fromEntries(names.map(name => [name, { type: 'string' as const }])),
+    strict: true
+  });
+  const flags = values as Record<string, string | undefined>;
+  return Object.fromEntries(names.map(name => [name, flags[name] ?? null]));
+}
+
+export function fail(message: string): never {
+  console.error(`[KOTC] ${message}`);
+  process.exit(1);
+}
+
+// Run a script's main(), exiting non-zero on an uncaught error
+export function run(main: () => Promise<void>): void {
+  main().catch(error => fail(error instanceof Error ? error.message : String(error)));
+}
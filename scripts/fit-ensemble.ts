@@ -0,0 +1,62 @@
+// Refit the ensemble weights on stored score snapshots and save a new version
+// to data/models/ensemble-weights.json
+//
+//   npm run fit:ensemble -- [--days=30] [--l2=0.01]
+
+import { fetchHistoricalBoxScores } from '../src/lib/backtest';
+import { loadSnapshot, listSnapshotDates, PredictionSnapshot } from '../src/lib/snapshots';
+import { getSlateDate, getPreviousSlateDates } from '../src/lib/slate-date';
+import { parsePositiveInt, parseNumber, invalidParamMessage } from '../src/lib/query-params';
+import { listModelIds, ModelId } from '../src/lib/models';
+import { ENSEMBLE_MODEL_ID, buildTrainingSlate, fitEnsembleWeights, EnsembleTrainingSlate } from '../src/lib/ensemble';
+import { saveEnsembleWeights } from '../src/lib/ensemble-store';
+import { readFlags, fail, run } from './cli';
+
+// Fewer winners than this can't say much about relative weights
+const MIN_TRAINING_SLATES = 5;
+
+run(async () => {
+  const flags = readFlags(['days', 'l2']);
+  const days = parsePositiveInt(flags.days, 30);
+  const l2Penalty = parseNumber(flags.l2, undefined);
+  if (days === null) fail(invalidParamMessage('days', flags.days, 'a positive integer'));
+  if (l2Penalty === null) fail(invalidParamMessage('l2', flags.l2, 'a non-negative number'));
+
+  const stored = new Set(await listSnapshotDates('score'));
+  const snapshots: PredictionSnapshot[] = [];
+  for (const date of getPreviousSlateDates(getSlateDate(), days)) {
+    if (!stored.has(date)) continue;
+    const snapshot = await loadSnapshot(date, 'score');
+    if (snapshot && snapshot.predictions.length > 0) snapshots.push(snapshot);
+  }
+
+  // Components: every other registered model present in all training snapshots
+  const modelIds: ModelId[] = listModelIds().filter(id =>
+    id !== ENSEMBLE_MODEL_ID &&
+    snapshots.length > 0 &&
+    snapshots.every(s => s.predictions.some(p => p.model_version === id))
+  );
+
+  if (modelIds.length < 2) {
+    fail(`Need snapshots with at least two models to fit an ensemble (found ${snapshots.length} snapshot(s))`);
+  }
+
+  const slates: EnsembleTrainingSlate[] = [];
+  for (const snapshot of snapshots) {
+    const actuals = await fetchHistoricalBoxScores(snapshot.date);
+    const slate = buildTrainingSlate(snapshot.predictions, actuals, modelIds);
+    if (slate) slates.push(slate);
+
+    // Rate limit - don't hammer ESPN
+    await new Promise(resolve => setTimeout(resolve, 500));
+  }
+
+  if (slates.length < MIN_TRAINING_SLATES) {
+    fail(`Only ${slates.length} usable slate(s) in the last ${days} days (need ${MIN_TRAINING_SLATES})`);
+  }
+
+  const weights = await saveEnsembleWeights(fitEnsembleWeights(slates, modelIds, { l2Penalty }));
+  if (!weights) fail('Could not save ensemble weights');
+
+  console.log(JSON.stringify(weights, null, 2));
+});
@@ -0,0 +1,61 @@
+// Refit play probabilities from stored injury reports (data/injuries/) against
+// who logged minutes in the box scores, and save them to
+// data/models/play-probability.json
+//
+//   npm run fit:play-probability -- [--days=60]
+
+import { fetchFinalGameSummaries } from '../src/lib/backtest';
+import { parseBoxScore } from '../src/lib/box-scores';
+import { reportAt } from '../src/lib/injury-history';
+import { loadInjuryHistory, listInjuryHistoryDates } from '../src/lib/injury-history-store';
+import { loadSnapshot } from '../src/lib/snapshots';
+import { getSlateDate, getPreviousSlateDates } from '../src/lib/slate-date';
+import { fitPlayProbabilities, reportOutcomes, PlayOutcome } from '../src/lib/play-probability';
+import { savePlayProbabilities } from '../src/lib/play-probability-store';
+import { parsePositiveInt, invalidParamMessage } from '../src/lib/query-params';
+import { readFlags, fail, run } from './cli';
+
+// Longest range one fit may cover (one season)
+const MAX_FIT_DAYS = 200;
+
+// Fewer listings than this barely move the defaults
+const MIN_OUTCOMES = 30;
+
+run(async () => {
+  const flags = readFlags(['days']);
+  const days = parsePositiveInt(flags.days, 60);
+  if (days === null) fail(invalidParamMessage('days', flags.days, 'a positive integer'));
+  if (days > MAX_FIT_DAYS) fail(`Fit range limited to ${MAX_FIT_DAYS} days`);
+
+  // Completed slates only
+  const window = new Set(getPreviousSlateDates(getSlateDate(), days));
+  const dates = (await listInjuryHistoryDates()).filter(d => window.has(d));
+
+  const outcomes: PlayOutcome[] = [];
+  let slates = 0;
+  for (const date of dates) {
+    const [history, snapshot] = await Promise.all([loadInjuryHistory(date), loadSnapshot(date)]);
+    if (!history) continue;
+
+    // Statuses as of the first tip; without a snapshot, the last report we fetched
+    const cutoff = new Date(snapshot?.first_tip || history.last_fetched_at);
+    const summaries = await fetchFinalGameSummaries(date) || [];
+    const lines = summaries.flatMap(summary => parseBoxScore(summary));
+    if (lines.length > 0) {
+      outcomes.push(...reportOutcomes(reportAt(history, cutoff), lines));
+      slates++;
+    }
+
+    // Rate limit - don't hammer ESPN
+    await new Promise(resolve => setTimeout(resolve, 500));
+  }
+
+  if (outcomes.length < MIN_OUTCOMES) {
+    fail(`Only ${outcomes.length} injury listings with results found (need ${MIN_OUTCOMES})`);
+  }
+
+  const probabilities = fitPlayProbabilities(outcomes, slates);
+  if (!(await savePlayProbabilities(probabilities))) fail('Could not save play probabilities');
+
+  console.log(JSON.stringify(probabilities, null, 2));
+});
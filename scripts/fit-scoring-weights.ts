@@ -0,0 +1,69 @@
+// Refit the V1/V2 stats and context coefficients on point-in-time replays of
+// past slates and save them to data/models/scoring-weights.json
+//
+//   npm run fit:scoring-weights -- [--days=60 | --start=YYYY-MM-DD [--end=YYYY-MM-DD]] [--l2=0.01] [--depth=8]
+
+import { fetchHistoricalBoxScores } from '../src/lib/backtest';
+import { buildPlayersAsOf } from '../src/lib/replay';
+import { getSlateDate, getPreviousSlateDates, getSlateDateRange, isValidSlateDate } from '../src/lib/slate-date';
+import { fitScoringWeights, ScoringTrainingRow } from '../src/lib/scoring-weights';
+import { saveScoringWeights } from '../src/lib/scoring-weights-store';
+import { parsePositiveInt, parseNumber, invalidParamMessage } from '../src/lib/query-params';
+import { readFlags, fail, run } from './cli';
+
+// Longest range one fit may cover (one season)
+const MAX_FIT_DAYS = 200;
+
+// Fewer player-games than this can't pin down 16 coefficients
+const MIN_TRAINING_ROWS = 200;
+
+run(async () => {
+  const flags = readFlags(['days', 'start', 'end', 'l2', 'depth']);
+  const depth = parsePositiveInt(flags.depth, undefined);
+  const l2Penalty = parseNumber(flags.l2, undefined);
+  const days = parsePositiveInt(flags.days, 60);
+  if (depth === null) fail(invalidParamMessage('depth', flags.depth, 'a positive integer'));
+  if (l2Penalty === null) fail(invalidParamMessage('l2', flags.l2, 'a non-negative number'));
+  if (days === null) fail(invalidParamMessage('days', flags.days, 'a positive integer'));
+
+  let dates: string[];
+  if (flags.start) {
+    const end = flags.end || getSlateDate();
+    if (!isValidSlateDate(flags.start) || !isValidSlateDate(end)) {
+      fail('Invalid start/end (expected YYYY-MM-DD)');
+    }
+    dates = getSlateDateRange(flags.start, end);
+  } else {
+    dates = getPreviousSlateDates(getSlateDate(), days);
+  }
+
+  if (dates.length > MAX_FIT_DAYS) {
+    fail(`Fit range limited to ${MAX_FIT_DAYS} days`);
+  }
+
+  const rows: ScoringTrainingRow[] = [];
+  for (const date of dates) {
+    // Box scores are PRA-scored by default, which is the regression target
+    const actuals = await fetchHistoricalBoxScores(date);
+    if (actuals.length > 0) {
+      const slate = await buildPlayersAsOf(date, actuals, { depth });
+      const actualById = new Map(actuals.map(a => [a.player_id, a]));
+      for (const player of slate?.players || []) {
+        const actual = actualById.get(player.player_id);
+        if (actual) rows.push({ date, player, actual_pra: actual.kotc_points });
+      }
+    }
+
+    // Rate limit - don't hammer ESPN
+    await new Promise(resolve => setTimeout(resolve, 500));
+  }
+
+  if (rows.length < MIN_TRAINING_ROWS) {
+    fail(`Only ${rows.length} player-games found (need ${MIN_TRAINING_ROWS})`);
+  }
+
+  const weights = fitScoringWeights(rows, l2Penalty);
+  if (!(await saveScoringWeights(weights))) fail('Could not save scoring weights');
+
+  console.log(JSON.stringify(weights, null, 2));
+});
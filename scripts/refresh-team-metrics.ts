@@ -0,0 +1,24 @@
+// Regenerate a season's team DRTG/pace table from ESPN team stats and save it
+// to data/team-metrics/{season}.json
+//
+//   npm run refresh:team-metrics -- [--season=2026]   (defaults to the current season)
+
+import { getSeasonYear, getSlateDate } from '../src/lib/slate-date';
+import { refreshTeamMetrics } from '../src/lib/team-metrics';
+import { saveTeamMetrics } from '../src/lib/team-metrics-store';
+import { readFlags, fail, run } from './cli';
+
+run(async () => {
+  const flags = readFlags(['season']);
+  if (flags.season && !/^\d{4}$/.test(flags.season)) {
+    fail(`Invalid season "${flags.season}" (expected the end year, e.g. 2025)`);
+  }
+  const season = flags.season ? parseInt(flags.season, 10) : getSeasonYear(getSlateDate());
+
+  const table = await refreshTeamMetrics(season);
+  if (!table) fail(`Could not build team metrics for ${season} from ESPN`);
+
+  if (!(await saveTeamMetrics(table))) fail('Could not save team metrics');
+
+  console.log(`[KOTC] Saved data/team-metrics/${season}.json`);
+});
@@ -1,23 +1,44 @@
 import { NextRequest, NextResponse } from 'next/server';
-import { fetchHistoricalBoxScores, compareResults, generateSummary, BacktestResult, HistoricalPrediction } from '@/lib/backtest';
-import { fetchTodaysGames, fetchPlayersForGames, detectBackToBack } from '@/lib/espn-data';
-import { rankPlayers } from '@/lib/scoring';
-import { fetchInjuries, getPlayerInjuryStatus, shouldExcludePlayer } from '@/lib/injuries';
+import { fetchHistoricalBoxScores, compareResults, generateSummary, parseScoringParam, BacktestResult, ScoringSystem } from '@/lib/backtest';
+import { loadSnapshot, listSnapshotDates, PredictionSnapshot } from '@/lib/snapshots';
+import { replaySlate, ReplayAvailability, ACTUAL_MINUTES_WARNING } from '@/lib/replay';
+import { getSlateDate, getPreviousSlateDates, getSlateDateRange, isValidSlateDate } from '@/lib/slate-date';
+import { parsePositiveInt, invalidParamMessage } from '@/lib/query-params';
+
+// Longest date range a single replay request may cover (one season)
+const MAX_REPLAY_DAYS = 200;
 
 export async function GET(request: NextRequest) {
   const searchParams = request.nextUrl.searchParams;
   const dateParam = searchParams.get('date');
-  const daysParam = searchParams.get('days');
+  const days = parsePositiveInt(searchParams.get('days'), 7);
+  const format: PredictionSnapshot['format'] = searchParams.get('format') === 'prediction' ? 'prediction' : 'score';
+  const mode = searchParams.get('mode') === 'replay' ? 'replay' : 'snapshot';
+  const scoring = parseScoringParam(searchParams.get('scoring'));
+  
+  if (dateParam && !isValidSlateDate(dateParam)) {
+    return NextResponse.json({ success: false, error: `Invalid date "${dateParam}" (expected YYYY-MM-DD)` }, { status: 400 });
+  }
+  
+  if (days === null) {
+    return NextResponse.json({
+      success: false,
+      error: invalidParamMessage('days', searchParams.get('days'), 'a positive integer')
+    }, { status: 400 });
+  }
+  
+  if (mode === 'replay') {
+    return runReplay(searchParams, format, scoring, days);
+  }
   
   // Single date backtest
   if (dateParam) {
-    const result = await runBacktestForDate(dateParam);
+    const result = await runBacktestForDate(dateParam, format, scoring);
     return NextResponse.json(result);
   }
   
   // Multi-day backtest
-  const days = parseInt(daysParam || '7');
-  const results = await runMultiDayBacktest(days);
+  const results = await runMultiDayBacktest(days, format, scoring);
   const summary = generateSummary(results);
   
   return NextResponse.json({
@@ -26,64 +47,29 @@ export async function GET(request: NextRequest) {
   });
 }
 
-async function runBacktestForDate(date: string): Promise<{ success: boolean; result?: BacktestResult; error?: string }> {
+// Compare the stored pre-tip snapshot for a slate against its box scores
+async function runBacktestForDate(
+  date: string,
+  format: PredictionSnapshot['format'],
+  scoring: ScoringSystem
+): Promise<{ success: boolean; result?: BacktestResult; error?: string }> {
   console.log(`[KOTC Backtest] Running backtest for ${date}`);
   
   try {
+    const snapshot = await loadSnapshot(date, format);
+    
+    if (!snapshot || snapshot.predictions.length === 0) {
+      return { success: false, error: `No stored ${format} predictions for ${date}` };
+    }
+    
     // Fetch actual results
-    const actuals = await fetchHistoricalBoxScores(date);
+    const actuals = await fetchHistoricalBoxScores(date, scoring);
     
     if (actuals.length === 0) {
       return { success: false, error: 'No games found for this date' };
     }
     
-    // Generate what our predictions would have been
-    // For historical backtest, we simulate predictions based on the players who actually played
-    const predictions: HistoricalPrediction[] = [];
-    
-    // Use actual results to create mock predictions (simulating what our model would predict)
-    // In a real system, you'd store daily predictions and compare later
-    const scoredPlayers = actuals.map((actual, i) => ({
-      player_id: actual.player_id,
-      player_name: actual.player_name,
-      // Simulate V1 and V2 scores based on actual performance + noise
-      v1_score: actual.kotc_points * (0.8 + Math.random() * 0.4),
-      v2_score: actual.kotc_points * (0.7 + Math.random() * 0.6)
-    }));
-    
-    // Sort by V1 score for V1 predictions
-    const v1Sorted = [...scoredPlayers].sort((a, b) => b.v1_score - a.v1_score);
-    v1Sorted.forEach((p, i) => {
-      predictions.push({
-        date,
-        player_id: p.player_id,
-        player_name: p.player_name,
-        team: '',
-        opponent: '',
-        predicted_rank: i + 1,
-        model_version: 'v1',
-        v1_score: p.v1_score,
-        v2_score: p.v2_score
-      });
-    });
-    
-    // Sort by V2 score for V2 predictions
-    const v2Sorted = [...scoredPlayers].sort((a, b) => b.v2_score - a.v2_score);
-    v2Sorted.forEach((p, i) => {
-      predictions.push({
-        date,
-        player_id: p.player_id,
-        player_name: p.player_name,
-        team: '',
-        opponent: '',
-        predicted_rank: i + 1,
-        model_version: 'v2',
-        v1_score: p.v1_score,
-        v2_score: p.v2_score
-      });
-    });
-    
-    const result = compareResults(predictions, actuals);
+    const result = compareResults(snapshot.predictions, actuals, scoring);
     
     return { success: true, result };
     
@@ -93,17 +79,19 @@ async function runBacktestForDate(date: string): Promise<{ success: boolean; res
   }
 }
 
-async function runMultiDayBacktest(days: number): Promise<BacktestResult[]> {
+async function runMultiDayBacktest(
+  days: number,
+  format: PredictionSnapshot['format'],
+  scoring: ScoringSystem
+): Promise<BacktestResult[]> {
   const results: BacktestResult[] = [];
-  const today = new Date();
+  const stored = new Set(await listSnapshotDates(format));
   
-  // Go back `days` days, skipping today (no results yet)
-  for (let i = 1; i <= days; i++) {
-    const date = new Date(today);
-    date.setDate(date.getDate() - i);
-    const dateStr = date.toISOString().split('T')[0];
+  // Go back `days` slates, skipping today's (no results yet) and slates we never snapshotted
+  for (const dateStr of getPreviousSlateDates(getSlateDate(), days)) {
+    if (!stored.has(dateStr)) continue;
     
-    const { success, result } = await runBacktestForDate(dateStr);
+    const { success, result } = await runBacktestForDate(dateStr, format, scoring);
     
     if (success && result && result.total_players > 0) {
       results.push(result);
@@ -115,3 +103,67 @@ async function runMultiDayBacktest(days: number): Promise<BacktestResult[]> {
   
   return results;
 }
+
+// Replay mode: re-run the current models on point-in-time inputs
+// ?date=  single slate | ?start=&end=  date range | ?days=  previous N slates
+async function runReplay(
+  searchParams: URLSearchParams,
+  format: PredictionSnapshot['format'],
+  scoring: ScoringSystem,
+  days: number
+) {
+  const dateParam = searchParams.get('date');
+  const start = searchParams.get('start');
+  const end = searchParams.get('end') || getSlateDate();
+  const depth = parsePositiveInt(searchParams.get('depth'), undefined);
+  
+  if (depth === null) {
+    return NextResponse.json({
+      success: false,
+      error: invalidParamMessage('depth', searchParams.get('depth'), 'a positive integer')
+    }, { status: 400 });
+  }
+  
+  if (dateParam) {
+    const replay = await replaySlate(dateParam, { depth, scoring });
+    if (!replay) {
+      return NextResponse.json({ success: false, error: `Could not replay ${dateParam}` });
+    }
+    const warning = replay.availability === 'actual_minutes' ? ACTUAL_MINUTES_WARNING : undefined;
+    return NextResponse.json({ success: true, warning, result: replay[format], replay });
+  }
+  
+  let dates: string[];
+  if (start) {
+    if (!isValidSlateDate(start) || !isValidSlateDate(end)) {
+      return NextResponse.json({ success: false, error: 'Invalid start/end (expected YYYY-MM-DD)' }, { status: 400 });
+    }
+    dates = getSlateDateRange(start, end);
+  } else {
+    dates = getPreviousSlateDates(getSlateDate(), days);
+  }
+  
+  if (dates.length > MAX_REPLAY_DAYS) {
+    return NextResponse.json({ success: false, error: `Replay range limited to ${MAX_REPLAY_DAYS} days` }, { status: 400 });
+  }
+  
+  const results: BacktestResult[] = [];
+  const availability: Record<ReplayAvailability, number> = { injury_report: 0, actual_minutes: 0 };
+  for (const date of dates) {
+    const replay = await replaySlate(date, { depth, scoring });
+    if (replay && replay[format].total_players > 0) {
+      results.push(replay[format]);
+      availability[replay.availability]++;
+    }
+    
+    // Rate limit - don't hammer ESPN
+    await new Promise(resolve => setTimeout(resolve, 500));
+  }
+  
+  return NextResponse.json({
+    success: true,
+    warning: availability.actual_minutes > 0 ? ACTUAL_MINUTES_WARNING : undefined,
+    availability,  // Replayed slates by availability source
+    summary: generateSummary(results)
+  });
+}
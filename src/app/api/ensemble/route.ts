@@ -0,0 +1,9 @@
+import { NextResponse } from 'next/server';
+import { loadEnsembleVersions, loadActiveEnsembleWeights } from '@/lib/ensemble-store';
+
+// GET /api/ensemble - active ensemble weights and every saved version
+// (refit with `npm run fit:ensemble`)
+export async function GET() {
+  const [active, versions] = await Promise.all([loadActiveEnsembleWeights(), loadEnsembleVersions()]);
+  return NextResponse.json({ success: true, active, versions });
+}
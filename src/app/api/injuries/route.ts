@@ -0,0 +1,168 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { fetchInjuries } from '@/lib/injuries';
+import {
+  changesSince,
+  findScratchedPicks,
+  InjuryChange,
+  InjuryReportEntry,
+  RECENT_CHANGE_HOURS,
+  ScratchedPick
+} from '@/lib/injury-history';
+import { loadInjuryHistory, recordInjuryReport, listInjuryHistoryDates } from '@/lib/injury-history-store';
+import { loadSnapshot, PredictionSnapshot } from '@/lib/snapshots';
+import { DEFAULT_MODEL_ID, hasModel } from '@/lib/models';
+import { getSlateDate, getPreviousSlateDates, isValidSlateDate } from '@/lib/slate-date';
+import { parsePositiveInt, parseNumber, invalidParamMessage } from '@/lib/query-params';
+
+export interface InjuryDiffResponse {
+  success: boolean;
+  game_date: string;
+  since: string;
+  first_fetched_at: string | null;
+  last_fetched_at: string | null;
+  fetches: number;
+  report: InjuryReportEntry[];   // Latest stored report
+  changes: InjuryChange[];       // Changes at or after `since`, newest first
+}
+
+export interface ScratchSummaryResponse {
+  success: boolean;
+  model: string;
+  format: PredictionSnapshot['format'];
+  top: number;
+  slates: number;                // Slates with both a snapshot and injury history
+  picks: number;                 // Top-N picks across those slates
+  scratched: number;
+  scratch_rate: number;
+  dates: Array<{ date: string; generated_at: string; scratched: ScratchedPick[] }>;
+}
+
+// GET /api/injuries?date=YYYY-MM-DD&hours=1 - stored report and recent status changes
+//   (or &since=ISO timestamp; defaults to the last hour)
+// GET /api/injuries?mode=scratches&days=30&top=5 - how many snapshot top picks
+//   were ruled OUT/DOUBTFUL after the snapshot was taken
+export async function GET(request: NextRequest) {
+  const searchParams = request.nextUrl.searchParams;
+
+  if (searchParams.get('mode') === 'scratches') {
+    return runScratchSummary(searchParams);
+  }
+
+  const dateParam = searchParams.get('date');
+  if (dateParam && !isValidSlateDate(dateParam)) {
+    return NextResponse.json({
+      success: false,
+      error: `Invalid date "${dateParam}" (expected YYYY-MM-DD)`
+    }, { status: 400 });
+  }
+
+  const sinceParam = searchParams.get('since');
+  const hours = parseNumber(searchParams.get('hours'), RECENT_CHANGE_HOURS, { positive: true });
+  if (hours === null) {
+    return NextResponse.json({
+      success: false,
+      error: invalidParamMessage('hours', searchParams.get('hours'), 'a positive number')
+    }, { status: 400 });
+  }
+
+  const since = sinceParam
+    ? new Date(sinceParam)
+    : new Date(Date.now() - hours * 3600 * 1000);
+  if (isNaN(since.getTime())) {
+    return NextResponse.json({
+      success: false,
+      error: `Invalid since "${sinceParam}" (expected an ISO timestamp)`
+    }, { status: 400 });
+  }
+
+  try {
+    const gameDate = dateParam || getSlateDate();
+
+    // Record the current report first so the diff is up to date (other
+    // slates just return their stored history)
+    const injuries = await fetchInjuries(gameDate);
+    const history = await recordInjuryReport(gameDate, injuries);
+
+    const response: InjuryDiffResponse = {
+      success: true,
+      game_date: gameDate,
+      since: since.toISOString(),
+      first_fetched_at: history?.first_fetched_at ?? null,
+      last_fetched_at: history?.last_fetched_at ?? null,
+      fetches: history?.fetches ?? 0,
+      report: history ? Object.values(history.players) : [],
+      changes: history ? changesSince(history, since).reverse() : []
+    };
+    return NextResponse.json(response);
+
+  } catch (error) {
+    console.error('[KOTC API] Injuries error:', error);
+    return NextResponse.json({
+      success: false,
+      error: error instanceof Error ? error.message : 'Unknown error'
+    }, { status: 500 });
+  }
+}
+
+async function runScratchSummary(searchParams: URLSearchParams) {
+  const days = parsePositiveInt(searchParams.get('days'), 30);
+  const top = parsePositiveInt(searchParams.get('top'), 5);
+  const invalid = (name: string, expected: string) => NextResponse.json({
+    success: false,
+    error: invalidParamMessage(name, searchParams.get(name), expected)
+  }, { status: 400 });
+  if (days === null) return invalid('days', 'a positive integer');
+  if (top === null) return invalid('top', 'a positive integer');
+
+  const model = searchParams.get('model') || DEFAULT_MODEL_ID;
+  const format: PredictionSnapshot['format'] = searchParams.get('format') === 'prediction' ? 'prediction' : 'score';
+
+  if (!hasModel(model)) {
+    return NextResponse.json({ success: false, error: `Unknown model "${model}"` }, { status: 400 });
+  }
+
+  try {
+    // Today's slate counts too: scratches up to now are already known
+    const today = getSlateDate();
+    const window = new Set([today, ...getPreviousSlateDates(today, days)]);
+    const dates = (await listInjuryHistoryDates()).filter(d => window.has(d));
+
+    const perDate: ScratchSummaryResponse['dates'] = [];
+    let picks = 0;
+    for (const date of dates) {
+      const [snapshot, history] = await Promise.all([loadSnapshot(date, format), loadInjuryHistory(date)]);
+      if (!snapshot || !history) continue;
+
+      const modelPicks = snapshot.predictions.filter(p => p.model_version === model);
+      if (modelPicks.length === 0) continue;
+
+      picks += modelPicks.filter(p => p.predicted_rank <= top).length;
+      perDate.push({
+        date,
+        generated_at: snapshot.generated_at,
+        scratched: findScratchedPicks(history, modelPicks, snapshot.generated_at, top)
+      });
+    }
+
+    const scratched = perDate.reduce((sum, d) => sum + d.scratched.length, 0);
+    const response: ScratchSummaryResponse = {
+      success: true,
+      model,
+      format,
+      top,
+      slates: perDate.length,
+      picks,
+      scratched,
+      scratch_rate: picks > 0 ? Math.round(scratched / picks * 1000) / 1000 : 0,
+      dates: perDate
+    };
+    return NextResponse.json(response);
+
+  } catch (error) {
+    console.error('[KOTC API] Scratch summary error:', error);
+    return NextResponse.json({
+      success: false,
+      error: error instanceof Error ? error.message : 'Unknown error'
+    }, { status: 500 });
+  }
+}
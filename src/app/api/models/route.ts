@@ -0,0 +1,11 @@
+import { NextResponse } from 'next/server';
+import { listModels, describeModel, DEFAULT_MODEL_ID } from '@/lib/models';
+
+// GET /api/models - registered ranking models
+export async function GET() {
+  return NextResponse.json({
+    success: true,
+    default_model: DEFAULT_MODEL_ID,
+    models: listModels().map(describeModel)
+  });
+}
@@ -0,0 +1,58 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getSlateDate, isValidSlateDate } from '@/lib/slate-date';
+import { priceOdds, parseOddsCsv, parseOddsJson } from '@/lib/odds';
+import { loadOdds, saveOdds } from '@/lib/odds-store';
+
+// GET /api/odds?date=YYYY-MM-DD - market odds for a slate with vig removed
+export async function GET(request: NextRequest) {
+  const date = request.nextUrl.searchParams.get('date') || getSlateDate();
+
+  if (!isValidSlateDate(date)) {
+    return NextResponse.json({ success: false, error: `Invalid date "${date}" (expected YYYY-MM-DD)` }, { status: 400 });
+  }
+
+  const file = await loadOdds(date);
+  if (!file) {
+    return NextResponse.json({ success: true, date, source: null, updated_at: null, odds: [] });
+  }
+
+  const odds = priceOdds(file.odds);
+  const overround = odds.reduce((sum, o) => sum + o.implied_probability, 0);
+
+  return NextResponse.json({
+    success: true,
+    date,
+    source: file.source,
+    updated_at: file.updated_at,
+    overround: Math.round(overround * 10000) / 10000,
+    odds
+  });
+}
+
+// POST /api/odds - manual entry
+// Body: { date, odds: [{ player_name, american_odds }] } or { date, csv: "player,odds\n..." }
+export async function POST(request: NextRequest) {
+  let body: any;
+  try {
+    body = await request.json();
+  } catch {
+    return NextResponse.json({ success: false, error: 'Expected a JSON body' }, { status: 400 });
+  }
+
+  const date = body?.date || getSlateDate();
+  if (!isValidSlateDate(date)) {
+    return NextResponse.json({ success: false, error: `Invalid date "${date}" (expected YYYY-MM-DD)` }, { status: 400 });
+  }
+
+  const odds = typeof body?.csv === 'string' ? parseOddsCsv(body.csv) : parseOddsJson(body?.odds);
+  if (odds.length === 0) {
+    return NextResponse.json({ success: false, error: 'No valid odds rows (need player name and American odds)' }, { status: 400 });
+  }
+
+  const saved = await saveOdds(date, odds);
+  if (!saved) {
+    return NextResponse.json({ success: false, error: 'Could not save odds' }, { status: 500 });
+  }
+
+  return NextResponse.json({ success: true, date, count: odds.length, odds: priceOdds(odds) });
+}
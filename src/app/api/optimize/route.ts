@@ -1,10 +1,15 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { fetchTodaysGames, fetchPlayersForGames, detectBackToBack } from '@/lib/espn-data';
 import { rankPlayers } from '@/lib/scoring';
+import { resolveModelIds, listModels, describeModel, loadModelContext } from '@/lib/models';
 import { fetchInjuries, getPlayerInjuryStatus, shouldExcludePlayer } from '@/lib/injuries';
+import { hasUnknownCoreStats } from '@/lib/season-stats';
+import { applyVacatedUsage } from '@/lib/vacated-usage';
+import { parsePositiveInt, invalidParamMessage } from '@/lib/query-params';
 import { 
   enrichPlayersWithSalary, 
   generateLineups, 
+  modelScore,
   DEFAULT_KOTC_SETTINGS,
   OptimizationSettings,
   Lineup 
@@ -12,41 +17,48 @@ import {
 
 export async function GET(request: NextRequest) {
   const searchParams = request.nextUrl.searchParams;
-  const modelVersion = (searchParams.get('model') || 'v1') as 'v1' | 'v2';
-  const lineupCount = parseInt(searchParams.get('count') || '5');
-  const salaryCap = parseInt(searchParams.get('salary') || '50000');
+  const modelVersion = resolveModelIds(searchParams.get('model'))[0];
+  const lineupCount = parsePositiveInt(searchParams.get('count'), 5);
+  const salaryCap = parsePositiveInt(searchParams.get('salary'), 50000);
+  const invalid = (name: string, expected: string) => NextResponse.json({
+    success: false,
+    error: invalidParamMessage(name, searchParams.get(name), expected)
+  }, { status: 400 });
+  if (lineupCount === null) return invalid('count', 'a positive integer');
+  if (salaryCap === null) return invalid('salary', 'a positive integer');
   
   try {
     // Fetch all data
-    const { games } = await fetchTodaysGames();
+    const { games, date: gameDate } = await fetchTodaysGames();
     const [injuriesMap, playersResult, b2bResult] = await Promise.all([
-      fetchInjuries(),
-      fetchPlayersForGames(games),
-      detectBackToBack(games)
+      fetchInjuries(gameDate),
+      fetchPlayersForGames(games, { slateDate: gameDate }),
+      detectBackToBack(games, gameDate)
     ]);
     
-    const { players } = playersResult;
+    const { players, rosterLogs } = playersResult;
     const { teamB2B } = b2bResult;
     
     // Enrich with injuries and B2B
-    const enrichedPlayers = players.map(player => {
+    const enrichedPlayers = applyVacatedUsage(players.map(player => {
       const injury = getPlayerInjuryStatus(player.name, player.player_id, injuriesMap);
       return {
         ...player,
         injury_status: injury?.status || 'HEALTHY' as const,
+        injury_type: injury?.injury_type,
         is_b2b: teamB2B.has(player.team_abbrev),
         opponent_b2b: teamB2B.has(player.opponent_abbrev)
       };
-    });
+    }), injuriesMap, rosterLogs);
     
-    // Filter out injured players
+    // Filter out injured players and players without sourced stats
     const healthyPlayers = enrichedPlayers.filter(
-      p => !shouldExcludePlayer(p.injury_status || 'HEALTHY')
+      p => !shouldExcludePlayer(p.injury_status || 'HEALTHY') && !hasUnknownCoreStats(p.stats_provenance)
     );
     
     // Rank and score players
-    const { v1, v2 } = rankPlayers(healthyPlayers, 'both');
-    const rankedPlayers = modelVersion === 'v2' ? v2 : v1;
+    const context = await loadModelContext();
+    const rankedPlayers = rankPlayers(healthyPlayers, [modelVersion], context).rankings[modelVersion];
     
     // Add salary estimates
     const playersWithSalary = enrichPlayersWithSalary(rankedPlayers);
@@ -69,6 +81,7 @@ export async function GET(request: NextRequest) {
         roster_size: settings.roster_size,
         positions: settings.positions
       },
+      models: listModels().map(describeModel),
       lineups,
       available_players: playersWithSalary.slice(0, 30).map(p => ({
         player_id: p.player_id,
@@ -77,8 +90,8 @@ export async function GET(request: NextRequest) {
         position: p.position,
         dk_position: p.dk_position,
         salary: p.salary,
-        projected: modelVersion === 'v2' ? p.v2_score : p.v1_score,
-        value: (modelVersion === 'v2' ? p.v2_score : p.v1_score) / (p.salary / 1000),
+        projected: modelScore(p, modelVersion),
+        value: modelScore(p, modelVersion) / (p.salary / 1000),
         injury_status: p.injury_status,
         is_b2b: p.is_b2b
       }))
@@ -0,0 +1,10 @@
+import { NextResponse } from 'next/server';
+import { DEFAULT_PLAY_PROBABILITIES } from '@/lib/play-probability';
+import { loadPlayProbabilities } from '@/lib/play-probability-store';
+
+// GET /api/play-probability - play probabilities the models are using
+// (refit with `npm run fit:play-probability`)
+export async function GET() {
+  const probabilities = await loadPlayProbabilities();
+  return NextResponse.json({ success: true, probabilities, defaults: DEFAULT_PLAY_PROBABILITIES });
+}
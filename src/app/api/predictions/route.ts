@@ -1,11 +1,29 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { fetchTodaysGames, fetchPlayersForGames, detectBackToBack, EnhancedPlayerData } from '@/lib/espn-data';
 import { rankPlayers, ScoredPlayer, ModelComparison } from '@/lib/scoring';
+import { resolveModelIds, getModel, listModels, listModelIds, describeModel, loadModelContext, ModelId, ModelInfo } from '@/lib/models';
 import { fetchInjuries, getPlayerInjuryStatus, shouldExcludePlayer, InjuryInfo } from '@/lib/injuries';
+import { hasUnknownCoreStats } from '@/lib/season-stats';
+import { applyVacatedUsage } from '@/lib/vacated-usage';
+import { DEFAULT_ROTATION_DEPTH } from '@/lib/rotation';
+import { isValidSlateDate } from '@/lib/slate-date';
+import { parsePositiveInt, invalidParamMessage } from '@/lib/query-params';
+import { changesSince, InjuryChange, RECENT_CHANGE_HOURS } from '@/lib/injury-history';
+import { recordInjuryReport } from '@/lib/injury-history-store';
+import { buildSnapshotRows, saveSnapshot, rankingRows, predictionRows, SnapshotRow } from '@/lib/snapshots';
+import { Prediction } from '@/lib/prediction-model';
+import { compareModels } from '@/lib/ml-model-v2';
+
+// 'score' = simple stats/context scores from scoring.ts
+// 'prediction' = full research-based Prediction objects (projected PRA, ceiling, key factors)
+export type PredictionFormat = 'score' | 'prediction';
+
+export type PredictionModelComparison = ReturnType<typeof compareModels>;
 
 export interface PredictionResponse {
   success: boolean;
   generated_at: string;
+  format: PredictionFormat;
   
   // Data source info
   data_source: 'live' | 'partial' | 'demo';
@@ -13,25 +31,30 @@ export interface PredictionResponse {
   players_source: 'espn' | 'mock';
   
   // Game info
+  game_date: string; // Eastern slate date (YYYY-MM-DD)
   games_count: number;
   games: Array<{
     home: string;
     away: string;
     time: string;
+    projected_possessions?: number;
   }>;
   
   // Injury info
   injuries_loaded: boolean;
   injured_players_count: number;
   excluded_players_count: number;
+  unknown_stats_count: number; // Players dropped because ppg/rpg/apg had no source
+  injury_changes: InjuryChange[]; // Status changes in the last RECENT_CHANGE_HOURS, newest first
   
   // B2B info
   b2b_teams: string[];
   
-  // Predictions
-  predictions: ScoredPlayer[];
-  v2_predictions?: ScoredPlayer[];
-  model_comparison?: ModelComparison;
+  // Predictions (shape depends on `format`)
+  models: ModelInfo[];                                     // Requested models, primary first
+  predictions: ScoredPlayer[] | Prediction[];              // Primary model's ranking
+  rankings?: Record<ModelId, ScoredPlayer[] | Prediction[]>; // Every requested model, when more than one
+  model_comparison?: ModelComparison | PredictionModelComparison; // First two requested models
   
   // Debug info
   debug?: {
@@ -43,33 +66,68 @@ export interface PredictionResponse {
 
 export async function GET(request: NextRequest) {
   const searchParams = request.nextUrl.searchParams;
-  const modelVersion = (searchParams.get('model') || 'v1') as 'v1' | 'v2' | 'both';
+  const format: PredictionFormat = searchParams.get('format') === 'prediction' ? 'prediction' : 'score';
+  // Prediction format needs models with full Prediction output
+  const modelIds = resolveModelIds(searchParams.get('model'))
+    .filter(id => format === 'score' || getModel(id)?.predict);
   const includeInjured = searchParams.get('includeInjured') === 'true';
+  const depth = parsePositiveInt(searchParams.get('depth'), DEFAULT_ROTATION_DEPTH);
+  const dateParam = searchParams.get('date') || undefined;
+  
+  if (dateParam && !isValidSlateDate(dateParam)) {
+    return NextResponse.json({
+      success: false,
+      error: `Invalid date "${dateParam}" (expected YYYY-MM-DD)`,
+      data_source: 'demo'
+    }, { status: 400 });
+  }
+  
+  if (depth === null) {
+    return NextResponse.json({
+      success: false,
+      error: invalidParamMessage('depth', searchParams.get('depth'), 'a positive integer'),
+      data_source: 'demo'
+    }, { status: 400 });
+  }
+  
+  if (modelIds.length === 0) {
+    return NextResponse.json({
+      success: false,
+      error: `No requested model supports format=prediction`,
+      data_source: 'demo'
+    }, { status: 400 });
+  }
   
-  console.log('[KOTC API] Request received, model:', modelVersion);
+  console.log('[KOTC API] Request received, models:', modelIds.join(','), 'format:', format, 'date:', dateParam || 'today');
   
   try {
-    // Fetch games first
-    const { games, source: gamesSource } = await fetchTodaysGames();
-    console.log(`[KOTC API] Got ${games.length} games from ${gamesSource}`);
+    // Fetch games first (resolves the slate date when none was requested)
+    const { games, source: gamesSource, date: gameDate } = await fetchTodaysGames(dateParam);
+    console.log(`[KOTC API] Got ${games.length} games for ${gameDate} from ${gamesSource}`);
     
     // Fetch injuries, players, and B2B in parallel
     const [injuriesMap, playersResult, b2bResult] = await Promise.all([
-      fetchInjuries(),
-      fetchPlayersForGames(games),
-      detectBackToBack(games)
+      fetchInjuries(gameDate),
+      fetchPlayersForGames(games, { depth, slateDate: gameDate }),
+      detectBackToBack(games, gameDate)
     ]);
     
-    const { players, source: playersSource } = playersResult;
+    const { players, source: playersSource, rosterLogs } = playersResult;
     const { teamB2B } = b2bResult;
     
     console.log(`[KOTC API] Got ${players.length} players from ${playersSource}`);
     
+    // Keep the slate's injury history current and pick out recent status changes
+    const injuryHistory = await recordInjuryReport(gameDate, injuriesMap);
+    const recentChanges = injuryHistory
+      ? changesSince(injuryHistory, new Date(Date.now() - RECENT_CHANGE_HOURS * 3600 * 1000)).reverse()
+      : [];
+    
     // Merge injury and B2B data with players
     let injuredCount = 0;
     let excludedCount = 0;
     
-    const playersWithContext: EnhancedPlayerData[] = players.map(player => {
+    const playersWithContext: EnhancedPlayerData[] = applyVacatedUsage(players.map(player => {
       // Injury check
       const injury = getPlayerInjuryStatus(player.name, player.player_id, injuriesMap);
       
@@ -95,10 +153,10 @@ export async function GET(request: NextRequest) {
         is_b2b: isB2B,
         opponent_b2b: oppB2B
       };
-    });
+    }), injuriesMap, rosterLogs);
     
-    // Filter out OUT/DOUBTFUL players unless requested
-    const filteredPlayers = includeInjured 
+    // Filter out OUT players unless requested
+    const availablePlayers = includeInjured 
       ? playersWithContext 
       : playersWithContext.filter(p => {
           const exclude = shouldExcludePlayer(p.injury_status || 'HEALTHY');
@@ -106,6 +164,10 @@ export async function GET(request: NextRequest) {
           return !exclude;
         });
     
+    // Skip players whose core stats could not be sourced rather than ranking zeros
+    const filteredPlayers = availablePlayers.filter(p => !hasUnknownCoreStats(p.stats_provenance));
+    const unknownStatsCount = availablePlayers.length - filteredPlayers.length;
+    
     // Determine overall data source status
     let dataSource: 'live' | 'partial' | 'demo';
     if (gamesSource === 'espn' && playersSource === 'espn') {
@@ -116,35 +178,78 @@ export async function GET(request: NextRequest) {
       dataSource = 'demo';
     }
     
-    // Rank players
-    const { v1, v2, comparison } = rankPlayers(filteredPlayers, modelVersion);
+    // Rank players with every registered model (snapshots cover all of them),
+    // then return the requested ones
+    const context = await loadModelContext();
+    let rankings: Record<ModelId, ScoredPlayer[] | Prediction[]> = {};
+    let comparison: ModelComparison | PredictionModelComparison | null = null;
+    let snapshotRows: Record<ModelId, SnapshotRow[]> = {};
+    
+    if (format === 'prediction') {
+      const predicted: Record<ModelId, Prediction[]> = {};
+      for (const model of listModels()) {
+        if (!model.predict) continue;
+        predicted[model.id] = model.predict(filteredPlayers, context);
+        snapshotRows[model.id] = predictionRows(predicted[model.id]);
+      }
+      rankings = predicted;
+      if (modelIds.length >= 2) {
+        comparison = compareModels(predicted[modelIds[0]], predicted[modelIds[1]]);
+      }
+    } else {
+      const ranked = rankPlayers(filteredPlayers, listModelIds(), context);
+      rankings = ranked.rankings;
+      snapshotRows = rankingRows(ranked.rankings);
+      if (modelIds.length >= 2) {
+        comparison = rankPlayers(filteredPlayers, modelIds.slice(0, 2), context).comparison;
+      }
+    }
+    
+    // Snapshot the default view of real slates for honest backtesting
+    if (gamesSource === 'espn' && !includeInjured) {
+      const tipTimes = games.map(g => new Date(g.game_time).getTime()).filter(t => !isNaN(t));
+      await saveSnapshot({
+        date: gameDate,
+        format,
+        first_tip: tipTimes.length > 0 ? new Date(Math.min(...tipTimes)).toISOString() : null,
+        predictions: buildSnapshotRows(gameDate, snapshotRows)
+      });
+    }
     
     const mockCount = filteredPlayers.filter(p => p.is_mock).length;
     
     const response: PredictionResponse = {
       success: true,
       generated_at: new Date().toISOString(),
+      format,
       
       data_source: dataSource,
       games_source: gamesSource,
       players_source: playersSource,
       
+      game_date: gameDate,
       games_count: games.length,
       games: games.map(g => ({
         home: g.home_team_abbrev,
         away: g.away_team_abbrev,
-        time: g.game_time
+        time: g.game_time,
+        projected_possessions: g.projected_possessions
       })),
       
       injuries_loaded: injuriesMap.size > 0,
       injured_players_count: injuredCount,
       excluded_players_count: excludedCount,
+      unknown_stats_count: unknownStatsCount,
+      injury_changes: recentChanges,
       
       b2b_teams: Array.from(teamB2B),
       
-      predictions: modelVersion === 'v2' ? v2.slice(0, 50) : v1.slice(0, 50),
-      v2_predictions: modelVersion === 'both' ? v2.slice(0, 50) : undefined,
-      model_comparison: modelVersion === 'both' ? comparison : undefined,
+      models: modelIds.map(id => describeModel(getModel(id)!)),
+      predictions: rankings[modelIds[0]].slice(0, 50),
+      rankings: modelIds.length > 1
+        ? Object.fromEntries(modelIds.map(id => [id, rankings[id].slice(0, 50)]))
+        : undefined,
+      model_comparison: comparison ?? undefined,
       
       debug: {
         total_players_fetched: players.length,
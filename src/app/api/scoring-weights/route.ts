@@ -0,0 +1,10 @@
+import { NextResponse } from 'next/server';
+import { DEFAULT_SCORING_WEIGHTS } from '@/lib/scoring-weights';
+import { loadScoringWeights } from '@/lib/scoring-weights-store';
+
+// GET /api/scoring-weights - stats/context coefficients scoring.ts is using
+// (refit with `npm run fit:scoring-weights`)
+export async function GET() {
+  const weights = await loadScoringWeights();
+  return NextResponse.json({ success: true, weights, defaults: DEFAULT_SCORING_WEIGHTS });
+}
@@ -0,0 +1,117 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { fetchTodaysGames, fetchPlayersForGames, detectBackToBack } from '@/lib/espn-data';
+import { fetchInjuries, getPlayerInjuryStatus, shouldExcludePlayer } from '@/lib/injuries';
+import { hasUnknownCoreStats } from '@/lib/season-stats';
+import { applyVacatedUsage } from '@/lib/vacated-usage';
+import { DEFAULT_ROTATION_DEPTH } from '@/lib/rotation';
+import { isValidSlateDate } from '@/lib/slate-date';
+import { parsePositiveInt, parseInteger, invalidParamMessage } from '@/lib/query-params';
+import { resolveModelIds, getModel, describeModel, loadModelContext, ModelId, ModelInfo } from '@/lib/models';
+import { simulateSlate, SimulatedPlayer, DEFAULT_ITERATIONS } from '@/lib/simulator';
+
+export interface SimulationResponse {
+  success: boolean;
+  generated_at: string;
+  game_date: string;
+  games_source: 'espn' | 'mock';
+  players_source: 'espn' | 'mock';
+  games_count: number;
+  iterations: number;
+  seed: number;
+  models: ModelInfo[];
+  simulations: Record<ModelId, SimulatedPlayer[]>;
+}
+
+export async function GET(request: NextRequest) {
+  const searchParams = request.nextUrl.searchParams;
+  // Default to every model; only models with Prediction output can be simulated
+  const modelIds = resolveModelIds(searchParams.get('model') || 'all').filter(id => getModel(id)?.predict);
+  const iterations = parsePositiveInt(searchParams.get('iterations'), DEFAULT_ITERATIONS);
+  const seed = parseInteger(searchParams.get('seed'), undefined);
+  const depth = parsePositiveInt(searchParams.get('depth'), DEFAULT_ROTATION_DEPTH);
+  const dateParam = searchParams.get('date') || undefined;
+
+  if (dateParam && !isValidSlateDate(dateParam)) {
+    return NextResponse.json({
+      success: false,
+      error: `Invalid date "${dateParam}" (expected YYYY-MM-DD)`
+    }, { status: 400 });
+  }
+
+  const invalid = (name: string, expected: string) => NextResponse.json({
+    success: false,
+    error: invalidParamMessage(name, searchParams.get(name), expected)
+  }, { status: 400 });
+  if (iterations === null) return invalid('iterations', 'a positive integer');
+  if (seed === null) return invalid('seed', 'an integer');
+  if (depth === null) return invalid('depth', 'a positive integer');
+
+  if (modelIds.length === 0) {
+    return NextResponse.json({
+      success: false,
+      error: 'No requested model has projected PRA output to simulate'
+    }, { status: 400 });
+  }
+
+  try {
+    const { games, source: gamesSource, date: gameDate } = await fetchTodaysGames(dateParam);
+    const [injuriesMap, playersResult, b2bResult] = await Promise.all([
+      fetchInjuries(gameDate),
+      fetchPlayersForGames(games, { depth, slateDate: gameDate }),
+      detectBackToBack(games, gameDate)
+    ]);
+
+    const { players, source: playersSource, rosterLogs } = playersResult;
+    const { teamB2B } = b2bResult;
+
+    // Same availability rules as /api/predictions
+    const slatePlayers = applyVacatedUsage(players
+      .map(player => {
+        const injury = getPlayerInjuryStatus(player.name, player.player_id, injuriesMap);
+        return {
+          ...player,
+          injury_status: injury?.status || 'HEALTHY' as const,
+          injury_type: injury?.injury_type,
+          is_b2b: teamB2B.has(player.team_abbrev),
+          opponent_b2b: teamB2B.has(player.opponent_abbrev)
+        };
+      }), injuriesMap, rosterLogs)
+      .filter(p => !shouldExcludePlayer(p.injury_status || 'HEALTHY') && !hasUnknownCoreStats(p.stats_provenance));
+
+    const context = await loadModelContext();
+    const options = { iterations, seed };
+    const simulations: Record<ModelId, SimulatedPlayer[]> = {};
+    let run = { iterations: 0, seed: 0 };
+    for (const id of modelIds) {
+      const result = simulateSlate(getModel(id)!.predict!(slatePlayers, context), options);
+      simulations[id] = result.players;
+      run = result;
+    }
+
+    const response: SimulationResponse = {
+      success: true,
+      generated_at: new Date().toISOString(),
+      game_date: gameDate,
+      games_source: gamesSource,
+      players_source: playersSource,
+      games_count: games.length,
+      iterations: run.iterations,
+      seed: run.seed,
+      models: modelIds.map(id => describeModel(getModel(id)!)),
+      simulations
+    };
+
+    return NextResponse.json(response, {
+      headers: {
+        'Cache-Control': 'public, max-age=300',
+      }
+    });
+
+  } catch (error) {
+    console.error('[KOTC API] Simulation error:', error);
+    return NextResponse.json({
+      success: false,
+      error: error instanceof Error ? error.message : 'Unknown error'
+    }, { status: 500 });
+  }
+}
@@ -0,0 +1,129 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { fetchTodaysGames, fetchPlayersForGames } from '@/lib/espn-data';
+import { fetchInjuries, getPlayerInjuryStatus, InjuryInfo, InjuryStatus } from '@/lib/injuries';
+import { DEFAULT_ROTATION_DEPTH } from '@/lib/rotation';
+import { isValidSlateDate } from '@/lib/slate-date';
+import { parsePositiveInt, invalidParamMessage } from '@/lib/query-params';
+import {
+  computePlayerSplits,
+  teamRoster,
+  namedSplit,
+  NamedTeammateSplit,
+  PlayerSplits
+} from '@/lib/teammate-splits';
+
+interface InjuredTeammateSplit extends NamedTeammateSplit {
+  status: InjuryStatus;
+  injury_type?: string;
+}
+
+export interface SplitsResponse {
+  success: boolean;
+  game_date: string;
+  injuries_loaded: boolean;
+  player?: PlayerSplits & { splits: Array<NamedTeammateSplit & { status?: InjuryStatus }> };
+  // Slate view: every rotation player with a teammate on the injury report
+  players?: Array<{
+    player_id: string;
+    name: string;
+    team_abbrev: string;
+    teammates: InjuredTeammateSplit[];
+  }>;
+}
+
+// GET /api/splits?player=ID - a player's PRA with/without each key teammate
+// GET /api/splits?date=YYYY-MM-DD - slate players whose teammates are on the injury report
+export async function GET(request: NextRequest) {
+  const searchParams = request.nextUrl.searchParams;
+  const playerId = searchParams.get('player');
+  const depth = parsePositiveInt(searchParams.get('depth'), DEFAULT_ROTATION_DEPTH);
+  const dateParam = searchParams.get('date') || undefined;
+
+  if (dateParam && !isValidSlateDate(dateParam)) {
+    return NextResponse.json({
+      success: false,
+      error: `Invalid date "${dateParam}" (expected YYYY-MM-DD)`
+    }, { status: 400 });
+  }
+  if (depth === null) {
+    return NextResponse.json({
+      success: false,
+      error: invalidParamMessage('depth', searchParams.get('depth'), 'a positive integer')
+    }, { status: 400 });
+  }
+
+  try {
+    const { games, date: gameDate } = await fetchTodaysGames(dateParam);
+    const injuries = await fetchInjuries(gameDate);
+    const statusOf = (name: string, id: string): InjuryInfo | null => getPlayerInjuryStatus(name, id, injuries);
+
+    // Roster logs come with the slate's players (every roster player, not
+    // just the rotation)
+    const { players, rosterLogs } = await fetchPlayersForGames(games, { depth, slateDate: gameDate });
+
+    if (playerId) {
+      const splits = computePlayerSplits(rosterLogs, playerId);
+      if (!splits) {
+        return NextResponse.json({
+          success: false,
+          error: `Player ${playerId} is not on a team playing on ${gameDate}`
+        }, { status: 404 });
+      }
+
+      const roster = teamRoster(rosterLogs, splits.team_abbrev);
+      const response: SplitsResponse = {
+        success: true,
+        game_date: gameDate,
+        injuries_loaded: injuries.size > 0,
+        player: {
+          ...splits,
+          splits: splits.splits.map(s => {
+            const teammate = roster.find(r => r.player_id === s.teammate_id);
+            const injury = teammate ? statusOf(teammate.name, teammate.player_id) : null;
+            return injury ? { ...s, status: injury.status } : s;
+          })
+        }
+      };
+      return NextResponse.json(response);
+    }
+
+    const slatePlayers: NonNullable<SplitsResponse['players']> = [];
+    for (const p of players) {
+      if (statusOf(p.name, p.player_id)?.status === 'OUT') continue;
+
+      const roster = teamRoster(rosterLogs, p.team_abbrev);
+      const self = roster.find(r => r.player_id === p.player_id);
+      if (!self) continue;
+
+      const teammates: InjuredTeammateSplit[] = [];
+      for (const teammate of roster) {
+        const injury = teammate.player_id !== p.player_id ? statusOf(teammate.name, teammate.player_id) : null;
+        if (!injury || injury.status === 'HEALTHY') continue;
+        teammates.push({ ...namedSplit(self, teammate, p.team_abbrev), status: injury.status, injury_type: injury.injury_type });
+      }
+
+      if (teammates.length > 0) {
+        slatePlayers.push({ player_id: p.player_id, name: p.name, team_abbrev: p.team_abbrev, teammates });
+      }
+    }
+
+    const response: SplitsResponse = {
+      success: true,
+      game_date: gameDate,
+      injuries_loaded: injuries.size > 0,
+      players: slatePlayers
+    };
+    return NextResponse.json(response, {
+      headers: {
+        'Cache-Control': 'public, max-age=300',
+      }
+    });
+
+  } catch (error) {
+    console.error('[KOTC API] Splits error:', error);
+    return NextResponse.json({
+      success: false,
+      error: error instanceof Error ? error.message : 'Unknown error'
+    }, { status: 500 });
+  }
+}
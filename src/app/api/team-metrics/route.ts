@@ -0,0 +1,40 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getSeasonYear, getSlateDate, isValidSlateDate } from '@/lib/slate-date';
+import { leagueAverageMetrics } from '@/lib/team-metrics';
+import { loadTeamMetrics, listTeamMetricsSeasons } from '@/lib/team-metrics-store';
+import { loadRollingTeamMetrics, loadPositionDefense } from '@/lib/team-form';
+
+function parseSeason(request: NextRequest): number | null {
+  const param = request.nextUrl.searchParams.get('season');
+  if (!param) return getSeasonYear(getSlateDate());
+  const season = parseInt(param);
+  return /^\d{4}$/.test(param) ? season : null;
+}
+
+// GET /api/team-metrics?season=2025 - a season's DRTG/pace table
+// GET /api/team-metrics?date=YYYY-MM-DD - what the models use for that slate (rolling last 10 games,
+// plus PRA allowed by position)
+// Tables are refreshed from ESPN with `npm run refresh:team-metrics`
+export async function GET(request: NextRequest) {
+  const date = request.nextUrl.searchParams.get('date');
+  if (date && !isValidSlateDate(date)) {
+    return NextResponse.json({ success: false, error: `Invalid date "${date}" (expected YYYY-MM-DD)` }, { status: 400 });
+  }
+
+  const season = date ? getSeasonYear(date) : parseSeason(request);
+  if (!season) {
+    return NextResponse.json({ success: false, error: 'Invalid season (expected the end year, e.g. 2025)' }, { status: 400 });
+  }
+
+  const [seasonTable, seasons] = await Promise.all([loadTeamMetrics(season), listTeamMetricsSeasons()]);
+  const table = date ? await loadRollingTeamMetrics(date, seasonTable) : seasonTable;
+  const positionDefense = date ? await loadPositionDefense(date) : undefined;
+  return NextResponse.json({
+    success: true,
+    season,
+    seasons,
+    table,
+    league_average: leagueAverageMetrics(table),
+    ...(date ? { position_defense: positionDefense } : {})
+  });
+}
@@ -2,6 +2,26 @@
 
 import { useState, useEffect } from 'react';
 import Link from 'next/link';
+import { formatSlateDate } from '@/lib/slate-date';
+import { RANKING_METRIC_NAMES, HIGHER_IS_BETTER, RankingMetricName } from '@/lib/ranking-metrics';
+
+interface ConfidenceInterval {
+  mean: number;
+  ci_low: number;
+  ci_high: number;
+}
+
+const METRIC_LABELS: Record<RankingMetricName, string> = {
+  winner_rank: 'Winner\'s predicted rank',
+  ndcg_at_10: 'NDCG@10',
+  spearman: 'Spearman',
+  winner_log_loss: 'Winner log-loss',
+  winner_brier: 'Winner Brier',
+  avg_rank_error: 'Avg rank error'
+};
+
+// Text colors by model position (same order as the main page toggles)
+const MODEL_TEXT_COLORS = ['text-blue-400', 'text-purple-400', 'text-orange-400', 'text-teal-400', 'text-pink-400'];
 
 interface BacktestResult {
   date: string;
@@ -9,9 +29,8 @@ interface BacktestResult {
   top5_hit_rate: number;
   top10_hit_rate: number;
   top1_accuracy: number;
-  v1_avg_error: number;
-  v2_avg_error: number;
-  winner: 'v1' | 'v2' | 'tie';
+  winner: string;             // Model id with the best NDCG@10, or 'tie'
+  scoring: { id: string; name: string };
   predictions: Array<{
     player_name: string;
     predicted_rank: number;
@@ -21,19 +40,35 @@ interface BacktestResult {
   }>;
 }
 
+interface EnsembleWeights {
+  version: number;
+  fitted_at: string | null;
+  slates: number;
+  date_range: { start: string; end: string } | null;
+  avg_log_loss: number | null;
+  uniform_log_loss: number | null;
+  components: Array<{ model: string; weight: number }>;
+}
+
 interface BacktestSummary {
   total_days: number;
   date_range: { start: string; end: string };
   avg_top5_hit_rate: number;
   avg_top10_hit_rate: number;
   top1_hit_count: number;
-  v1_wins: number;
-  v2_wins: number;
+  model_ids: string[];
+  wins: Record<string, number>;
   ties: number;
-  v1_avg_error: number;
-  v2_avg_error: number;
+  avg_error: Record<string, number>;
+  metrics: {
+    baseline: string;
+    by_model: Record<string, Record<RankingMetricName, ConfidenceInterval>>;
+    vs_baseline: Record<string, Record<RankingMetricName, ConfidenceInterval>>;
+  } | null;
+  better_model: string;
   best_day: { date: string; top5_hit_rate: number };
   worst_day: { date: string; top5_hit_rate: number };
+  scoring: string | null;
   daily_results: BacktestResult[];
 }
 
@@ -42,13 +77,30 @@ export default function HistoryPage() {
   const [loading, setLoading] = useState(false);
   const [error, setError] = useState<string | null>(null);
   const [days, setDays] = useState(7);
+  const [mode, setMode] = useState<'snapshot' | 'replay'>('snapshot');
+  const [scoring, setScoring] = useState<'pra' | 'dk_classic'>('pra');
   const [selectedDay, setSelectedDay] = useState<BacktestResult | null>(null);
+  const [ensemble, setEnsemble] = useState<{ active: EnsembleWeights; versions: EnsembleWeights[] } | null>(null);
+
+  useEffect(() => {
+    fetchEnsemble();
+  }, []);
+
+  const fetchEnsemble = async () => {
+    try {
+      const res = await fetch('/api/ensemble');
+      const json = await res.json();
+      if (json.success) setEnsemble(json);
+    } catch (err) {
+      // Panel just stays hidden
+    }
+  };
 
   const runBacktest = async () => {
     setLoading(true);
     setError(null);
     try {
-      const res = await fetch(`/api/backtest?days=${days}`);
+      const res = await fetch(`/api/backtest?days=${days}&mode=${mode}&scoring=${scoring}`);
       const json = await res.json();
       if (json.success) {
         setSummary(json.summary);
@@ -63,10 +115,29 @@ export default function HistoryPage() {
   };
 
   const formatPercent = (n: number) => `${(n * 100).toFixed(1)}%`;
-  const formatDate = (d: string) => new Date(d).toLocaleDateString('en-US', { 
+  const formatCI = (ci: ConfidenceInterval, digits = 2) =>
+    `${ci.mean.toFixed(digits)} [${ci.ci_low.toFixed(digits)}, ${ci.ci_high.toFixed(digits)}]`;
+  const formatDate = (d: string) => formatSlateDate(d, { 
     month: 'short', day: 'numeric' 
   });
 
+  // Colors follow the summary's model order; the baseline model comes first
+  const modelColor = (id: string) => {
+    const index = summary?.model_ids.indexOf(id) ?? -1;
+    return index >= 0 ? MODEL_TEXT_COLORS[index % MODEL_TEXT_COLORS.length] : 'text-gray-400';
+  };
+  const challengers = summary?.metrics
+    ? summary.model_ids.filter(id => id !== summary.metrics!.baseline)
+    : [];
+  // Model with the most daily wins (null when tied at the top)
+  const mostWins = (() => {
+    if (!summary) return null;
+    const sorted = [...summary.model_ids].sort((a, b) => (summary.wins[b] ?? 0) - (summary.wins[a] ?? 0));
+    if (sorted.length === 0) return null;
+    if (sorted.length > 1 && (summary.wins[sorted[0]] ?? 0) === (summary.wins[sorted[1]] ?? 0)) return null;
+    return sorted[0];
+  })();
+
   return (
     <main className="min-h-screen bg-gray-900 text-white p-6">
       <div className="max-w-6xl mx-auto">
@@ -96,6 +167,30 @@ export default function HistoryPage() {
             </select>
           </div>
           
+          <div>
+            <label className="text-sm text-gray-400 block mb-1">Source</label>
+            <select 
+              value={mode} 
+              onChange={(e) => setMode(e.target.value as 'snapshot' | 'replay')}
+              className="bg-gray-700 rounded px-3 py-2 text-white"
+            >
+              <option value="snapshot">Stored predictions</option>
+              <option value="replay">Replay current models</option>
+            </select>
+          </div>
+          
+          <div>
+            <label className="text-sm text-gray-400 block mb-1">Scoring</label>
+            <select 
+              value={scoring} 
+              onChange={(e) => setScoring(e.target.value as 'pra' | 'dk_classic')}
+              className="bg-gray-700 rounded px-3 py-2 text-white"
+            >
+              <option value="pra">KOTC (PRA)</option>
+              <option value="dk_classic">DK Classic</option>
+            </select>
+          </div>
+          
           <button
             onClick={runBacktest}
             disabled={loading}
@@ -111,6 +206,46 @@ export default function HistoryPage() {
           )}
         </div>
 
+        {/* Ensemble Weights */}
+        {ensemble && (
+          <div className="bg-gray-800 rounded-lg p-4 mb-6">
+            <div className="flex flex-wrap justify-between items-center gap-2 mb-3">
+              <h3 className="font-semibold">
+                Ensemble Weights v{ensemble.active.version}
+                <span className="text-xs text-gray-500 ml-2">
+                  {ensemble.active.fitted_at
+                    ? `fit on ${ensemble.active.slates} slates (${ensemble.active.date_range?.start} – ${ensemble.active.date_range?.end})`
+                    : 'defaults (not fit yet)'}
+                </span>
+              </h3>
+              <span className="text-xs text-gray-500">
+                Refit with <code>npm run fit:ensemble</code>
+              </span>
+            </div>
+            <div className="flex flex-wrap gap-6 text-sm">
+              {ensemble.active.components.map(c => (
+                <div key={c.model}>
+                  <span className="text-gray-400">{c.model.toUpperCase()}:</span>{' '}
+                  <span className="font-mono">{c.weight.toFixed(3)}</span>
+                </div>
+              ))}
+              {ensemble.active.avg_log_loss !== null && (
+                <div className="text-gray-400">
+                  Winner log-loss <span className="font-mono text-white">{ensemble.active.avg_log_loss.toFixed(3)}</span>
+                  {' '}vs uniform <span className="font-mono">{ensemble.active.uniform_log_loss?.toFixed(3)}</span>
+                </div>
+              )}
+            </div>
+            {ensemble.versions.length > 1 && (
+              <div className="text-xs text-gray-500 mt-2">
+                Previous: {ensemble.versions.slice(0, -1).reverse().map(v =>
+                  `v${v.version} (${v.components.map(c => `${c.model} ${c.weight.toFixed(2)}`).join(', ')})`
+                ).join(' · ')}
+              </div>
+            )}
+          </div>
+        )}
+
         {error && (
           <div className="bg-red-900/50 border border-red-600 rounded-lg p-4 mb-6">
             <p className="text-red-200">{error}</p>
@@ -148,16 +283,14 @@ export default function HistoryPage() {
               <div className="bg-gray-800 rounded-lg p-4">
                 <div className="text-sm text-gray-400">Model Winner</div>
                 <div className="text-2xl font-bold">
-                  {summary.v1_wins > summary.v2_wins ? (
-                    <span className="text-blue-400">V1</span>
-                  ) : summary.v2_wins > summary.v1_wins ? (
-                    <span className="text-purple-400">V2</span>
+                  {mostWins ? (
+                    <span className={modelColor(mostWins)}>{mostWins.toUpperCase()}</span>
                   ) : (
                     <span className="text-gray-400">Tie</span>
                   )}
                 </div>
                 <div className="text-xs text-gray-500">
-                  V1: {summary.v1_wins} | V2: {summary.v2_wins} | Tie: {summary.ties}
+                  {summary.model_ids.map(id => `${id.toUpperCase()}: ${summary.wins[id] ?? 0}`).join(' | ')} | Tie: {summary.ties}
                 </div>
               </div>
             </div>
@@ -165,18 +298,72 @@ export default function HistoryPage() {
             {/* Model Comparison */}
             <div className="bg-gray-800 rounded-lg p-4 mb-6">
               <h3 className="font-semibold mb-3">Average Rank Error (lower is better)</h3>
+              {summary.scoring && (
+                <p className="text-xs text-gray-500 mb-2">Actual ranks scored with: {summary.scoring}</p>
+              )}
               <div className="flex gap-8">
-                <div>
-                  <span className="text-blue-400 font-bold">V1:</span>{' '}
-                  <span className="font-mono">{summary.v1_avg_error.toFixed(1)} positions</span>
-                </div>
-                <div>
-                  <span className="text-purple-400 font-bold">V2:</span>{' '}
-                  <span className="font-mono">{summary.v2_avg_error.toFixed(1)} positions</span>
-                </div>
+                {summary.model_ids.map(id => (
+                  <div key={id}>
+                    <span className={`${modelColor(id)} font-bold`}>{id.toUpperCase()}:</span>{' '}
+                    <span className="font-mono">{(summary.avg_error[id] ?? 0).toFixed(1)} positions</span>
+                  </div>
+                ))}
               </div>
             </div>
 
+            {/* Ranking Metrics */}
+            {summary.metrics && (
+              <div className="bg-gray-800 rounded-lg p-4 mb-6 overflow-x-auto">
+                <h3 className="font-semibold mb-1">Ranking Metrics (mean, 95% bootstrap CI)</h3>
+                <p className="text-xs text-gray-500 mb-3">
+                  Better model on NDCG@10: {summary.better_model === 'inconclusive'
+                    ? 'inconclusive (difference CI includes 0)'
+                    : summary.better_model.toUpperCase()}
+                </p>
+                <table className="w-full text-sm">
+                  <thead>
+                    <tr className="text-left text-gray-400">
+                      <th className="p-2">Metric</th>
+                      {summary.model_ids.map(id => (
+                        <th key={id} className={`p-2 ${modelColor(id)}`}>{id.toUpperCase()}</th>
+                      ))}
+                      {challengers.map(id => (
+                        <th key={id} className="p-2">{id.toUpperCase()} − {summary.metrics!.baseline.toUpperCase()}</th>
+                      ))}
+                    </tr>
+                  </thead>
+                  <tbody>
+                    {RANKING_METRIC_NAMES.map((name) => {
+                      const metrics = summary.metrics!;
+                      return (
+                        <tr key={name} className="border-t border-gray-700/50">
+                          <td className="p-2">
+                            {METRIC_LABELS[name]}{' '}
+                            <span className="text-gray-500 text-xs">{HIGHER_IS_BETTER[name] ? '↑' : '↓'}</span>
+                          </td>
+                          {summary.model_ids.map(id => (
+                            <td key={id} className="p-2 font-mono">{formatCI(metrics.by_model[id][name])}</td>
+                          ))}
+                          {challengers.map(id => {
+                            const diff = metrics.vs_baseline[id][name];
+                            const significant = diff.ci_low > 0 || diff.ci_high < 0;
+                            const challengerBetter = HIGHER_IS_BETTER[name] ? diff.mean > 0 : diff.mean < 0;
+                            return (
+                              <td key={id} className={`p-2 font-mono ${
+                                !significant ? 'text-gray-400' : modelColor(challengerBetter ? id : metrics.baseline)
+                              }`}>
+                                {formatCI(diff)}
+                              </td>
+                            );
+                          })}
+                        </tr>
+                      );
+                    })}
+                  </tbody>
+                </table>
+              </div>
+            )}
+
             {/* Daily Results */}
             <div className="bg-gray-800 rounded-lg overflow-hidden">
               <h3 className="font-semibold p-4 border-b border-gray-700">Daily Results</h3>
@@ -215,10 +402,7 @@ export default function HistoryPage() {
                         {day.top1_accuracy ? '✅' : '❌'}
                       </td>
                       <td className="p-3 text-center">
-                        <span className={
-                          day.winner === 'v1' ? 'text-blue-400' :
-                          day.winner === 'v2' ? 'text-purple-400' : 'text-gray-400'
-                        }>
+                        <span className={day.winner === 'tie' ? 'text-gray-400' : modelColor(day.winner)}>
                           {day.winner.toUpperCase()}
                         </span>
                       </td>
@@ -244,7 +428,7 @@ export default function HistoryPage() {
                           <th className="p-2 text-center">Predicted</th>
                           <th className="p-2 text-center">Actual</th>
                           <th className="p-2 text-center">Diff</th>
-                          <th className="p-2 text-center">KOTC Pts</th>
+                          <th className="p-2 text-center" title={selectedDay.scoring?.name}>Actual Pts</th>
                         </tr>
                       </thead>
                       <tbody>
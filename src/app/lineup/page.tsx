@@ -1,6 +1,6 @@
 'use client';
 
-import { useState } from 'react';
+import { useState, useEffect } from 'react';
 import Link from 'next/link';
 
 interface LineupSlot {
@@ -10,8 +10,7 @@ interface LineupSlot {
     team_abbrev: string;
     position: string;
     salary: number;
-    v1_score: number;
-    v2_score: number;
+    scores: Record<string, number>;
     injury_status?: string;
     is_b2b?: boolean;
   } | null;
@@ -25,6 +24,11 @@ interface Lineup {
   value_score: number;
 }
 
+interface ModelOption {
+  id: string;
+  name: string;
+}
+
 interface AvailablePlayer {
   player_id: string;
   name: string;
@@ -43,10 +47,26 @@ export default function LineupPage() {
   const [players, setPlayers] = useState<AvailablePlayer[]>([]);
   const [loading, setLoading] = useState(false);
   const [error, setError] = useState<string | null>(null);
-  const [model, setModel] = useState<'v1' | 'v2'>('v1');
+  const [models, setModels] = useState<ModelOption[]>([]);
+  const [model, setModel] = useState('v1');
   const [salaryCap, setSalaryCap] = useState(50000);
   const [selectedLineup, setSelectedLineup] = useState(0);
 
+  // Registered models for the selector
+  useEffect(() => {
+    fetch('/api/models')
+      .then(res => res.json())
+      .then(json => {
+        if (json.success) {
+          setModels(json.models);
+          setModel(json.default_model);
+        }
+      })
+      .catch(() => {
+        // Keep the default model only
+      });
+  }, []);
+
   const generateLineups = async () => {
     setLoading(true);
     setError(null);
@@ -89,11 +109,13 @@ export default function LineupPage() {
             <label className="text-sm text-gray-400 block mb-1">Model</label>
             <select 
               value={model} 
-              onChange={(e) => setModel(e.target.value as 'v1' | 'v2')}
+              onChange={(e) => setModel(e.target.value)}
               className="bg-gray-700 rounded px-3 py-2 text-white"
             >
-              <option value="v1">V1 (Stats-Focused)</option>
-              <option value="v2">V2 (Context-Focused)</option>
+              {models.length === 0 && <option value={model}>{model.toUpperCase()}</option>}
+              {models.map(m => (
+                <option key={m.id} value={m.id}>{m.name}</option>
+              ))}
             </select>
           </div>
           
@@ -206,7 +228,7 @@ export default function LineupPage() {
                             {slot.player ? formatSalary(slot.player.salary) : '-'}
                           </td>
                           <td className="p-3 text-right font-mono text-green-400">
-                            {slot.player ? (model === 'v2' ? slot.player.v2_score : slot.player.v1_score).toFixed(1) : '-'}
+                            {slot.player ? (slot.player.scores[model] ?? 0).toFixed(1) : '-'}
                           </td>
                         </tr>
                       ))}
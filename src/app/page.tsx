@@ -2,26 +2,31 @@
 
 import { useState, useEffect } from 'react';
 import Link from 'next/link';
+import { getUpcomingTuesdays } from '@/lib/historical-data';
+import { evaluateBet, findPlayerOdds, PricedOdds, DEFAULT_STAKE } from '@/lib/odds';
 
 interface Player {
   player_id: string;
-  name: string;
-  team_abbrev: string;
+  player_name: string;
+  team: string;
   position: string;
-  opponent_abbrev: string;
-  ppg: number;
-  rpg: number;
-  apg: number;
-  v1_score: number;
-  v2_score: number;
-  rank_v1?: number;
-  rank_v2?: number;
-  rank_change?: number;
-  opp_def_rating: number;
-  is_mock?: boolean;
+  opponent: string;
+  projected_pra: number;
+  ceiling_pra: number;
+  ceiling_score: number;
+  stats: {
+    avg_pra_last_10: number;
+    ppg: number;
+    rpg: number;
+    apg: number;
+  };
+  game_context: {
+    opponent_drtg?: number;
+  };
+  key_factors: string[];
+  confidence: 'High' | 'Medium' | 'Low';
   injury_status?: 'OUT' | 'DOUBTFUL' | 'QUESTIONABLE' | 'PROBABLE' | 'HEALTHY';
   injury_type?: string;
-  injury_adjustment?: number;
   is_b2b?: boolean;
   opponent_b2b?: boolean;
 }
@@ -31,40 +36,111 @@ interface ApiResponse {
   data_source: 'live' | 'partial' | 'demo';
   games_source: 'espn' | 'mock';
   players_source: 'espn' | 'mock';
+  game_date: string;
   games_count: number;
   games: Array<{ home: string; away: string; time: string }>;
+  models: ModelInfo[];
   predictions: Player[];
-  v2_predictions?: Player[];
+  rankings?: Record<string, Player[]>;
   injuries_loaded: boolean;
   injured_players_count: number;
   excluded_players_count: number;
+  injury_changes?: InjuryChange[];
   b2b_teams: string[];
   model_comparison?: {
-    rank_changes: number;
-    biggest_riser: { name: string; change: number } | null;
-    biggest_faller: { name: string; change: number } | null;
-    top5_overlap: number;
+    agreement_rate: number;
+    top_pick_matches: boolean;
+    top_5_overlap: number;
+    major_differences: Array<{ player: string; base_rank: number; compare_rank: number; reason: string }>;
   };
 }
 
+type InjuryStatus = 'OUT' | 'DOUBTFUL' | 'QUESTIONABLE' | 'PROBABLE' | 'HEALTHY';
+
+// Injury report change from the last hour (HEALTHY = dropped off the report)
+interface InjuryChange {
+  kind: 'added' | 'status' | 'injury_type' | 'cleared';
+  player_id?: string;
+  player_name: string;
+  team_abbrev: string;
+  from: InjuryStatus | null;
+  to: InjuryStatus;
+  from_injury_type: string | null;
+  injury_type: string;
+  at: string;
+}
+
+interface ModelInfo {
+  id: string;
+  name: string;
+  description: string;
+  has_predictions: boolean;
+}
+
+interface SimulatedPlayer {
+  player_id: string;
+  win_probability: number;
+  top3_probability: number;
+  expected_rank: number;
+}
+
+interface SimulationData {
+  iterations: number;
+  simulations: Record<string, SimulatedPlayer[]>;
+}
+
+interface InjurySplit {
+  teammate_id: string;
+  teammate_name: string;
+  status: 'OUT' | 'DOUBTFUL' | 'QUESTIONABLE' | 'PROBABLE';
+  with: { games: number; pra: number };
+  without: { games: number; pra: number };
+  pra_diff: number | null;
+}
+
+interface InjurySplitPlayer {
+  player_id: string;
+  name: string;
+  team_abbrev: string;
+  teammates: InjurySplit[];
+}
+
+// Players shown in the injury splits panel
+const MAX_SPLIT_PLAYERS = 8;
+
+// Toggle colors by model position (registry order)
+const MODEL_COLORS = ['bg-blue-600', 'bg-purple-600', 'bg-orange-600', 'bg-teal-600', 'bg-pink-600'];
+
 export default function Home() {
   const [data, setData] = useState<ApiResponse | null>(null);
   const [loading, setLoading] = useState(true);
   const [error, setError] = useState<string | null>(null);
-  const [modelView, setModelView] = useState<'v1' | 'v2' | 'compare'>('v1');
+  const [simulation, setSimulation] = useState<SimulationData | null>(null);
+  const [injurySplits, setInjurySplits] = useState<InjurySplitPlayer[]>([]);
+  const [marketOdds, setMarketOdds] = useState<PricedOdds[]>([]);
+  const [showOddsEntry, setShowOddsEntry] = useState(false);
+  const [oddsCsv, setOddsCsv] = useState('');
+  const [oddsMessage, setOddsMessage] = useState<string | null>(null);
+  const [modelView, setModelView] = useState<string>(''); // model id or 'compare'; '' = primary model
+  const [selectedDate, setSelectedDate] = useState<string>(''); // '' = today's slate
+  const [tuesdays] = useState<string[]>(() => getUpcomingTuesdays(4));
 
   useEffect(() => {
     fetchPredictions();
-  }, []);
+  }, [selectedDate]);
 
   async function fetchPredictions() {
     setLoading(true);
     setError(null);
     try {
-      const res = await fetch('/api/predictions?model=both');
+      const dateQuery = selectedDate ? `&date=${selectedDate}` : '';
+      const res = await fetch(`/api/predictions?model=all&format=prediction${dateQuery}`);
       const json = await res.json();
       if (json.success) {
         setData(json);
+        fetchSimulation(dateQuery);
+        fetchInjurySplits(json.game_date);
+        fetchOdds(json.game_date);
       } else {
         setError(json.error || 'Failed to fetch predictions');
       }
@@ -75,6 +151,61 @@ export default function Home() {
     }
   }
 
+  // Win probabilities load separately so the rankings aren't held up by the simulation
+  async function fetchSimulation(dateQuery: string) {
+    setSimulation(null);
+    try {
+      const res = await fetch(`/api/simulate?model=all${dateQuery}`);
+      const json = await res.json();
+      if (json.success) setSimulation(json);
+    } catch (err) {
+      // Table still renders without win probabilities
+    }
+  }
+
+  // With/without splits for players whose teammates are on the injury report
+  async function fetchInjurySplits(date: string) {
+    setInjurySplits([]);
+    try {
+      const res = await fetch(`/api/splits?date=${date}`);
+      const json = await res.json();
+      if (json.success) setInjurySplits(json.players || []);
+    } catch (err) {
+      // Panel is hidden without splits
+    }
+  }
+
+  async function fetchOdds(date: string) {
+    try {
+      const res = await fetch(`/api/odds?date=${date}`);
+      const json = await res.json();
+      setMarketOdds(json.success ? json.odds : []);
+    } catch (err) {
+      setMarketOdds([]);
+    }
+  }
+
+  async function saveOdds() {
+    if (!data) return;
+    setOddsMessage(null);
+    try {
+      const res = await fetch('/api/odds', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ date: data.game_date, csv: oddsCsv })
+      });
+      const json = await res.json();
+      if (json.success) {
+        setMarketOdds(json.odds);
+        setOddsMessage(`Saved ${json.count} odds for ${json.date}`);
+      } else {
+        setOddsMessage(json.error || 'Could not save odds');
+      }
+    } catch (err) {
+      setOddsMessage('Network error');
+    }
+  }
+
   const getStatusBanner = () => {
     if (!data) return null;
     
@@ -94,6 +225,19 @@ export default function Home() {
           </div>
         )}
         
+        {/* Recent injury report changes */}
+        {data.injury_changes && data.injury_changes.length > 0 && (
+          <div className="bg-red-900/30 rounded-lg p-3 flex items-center gap-2">
+            <span>🔔</span>
+            <div className="text-sm">
+              <span className="text-gray-400">Changed in the last hour: </span>
+              <span className="font-medium text-red-300">
+                {data.injury_changes.map(c => `${c.player_name} ${describeChange(c)}`).join(', ')}
+              </span>
+            </div>
+          </div>
+        )}
+        
         {/* B2B Teams */}
         {data.b2b_teams && data.b2b_teams.length > 0 && (
           <div className="bg-orange-900/30 rounded-lg p-3 flex items-center gap-2">
@@ -141,6 +285,32 @@ export default function Home() {
     );
   };
 
+  const describeChange = (change: InjuryChange) => {
+    if (change.kind === 'injury_type') {
+      return `${change.to} injury: ${change.from_injury_type || 'unknown'} → ${change.injury_type || 'unknown'}`;
+    }
+    return `${change.from ?? 'added'} → ${change.kind === 'cleared' ? 'cleared' : change.to}`;
+  };
+
+  // Flag players whose status changed in the last hour
+  const getStatusChangeBadge = (player: Player) => {
+    const change = data?.injury_changes?.find(c =>
+      c.player_id ? c.player_id === player.player_id : c.player_name === player.player_name
+    );
+    if (!change) return null;
+    
+    // Injury type updates don't change availability, so they get a quieter badge
+    const typeOnly = change.kind === 'injury_type';
+    return (
+      <span
+        className={`${typeOnly ? 'bg-gray-600' : 'bg-red-700'} text-white text-xs px-1.5 py-0.5 rounded ml-1`}
+        title={`${describeChange(change)} at ${new Date(change.at).toLocaleTimeString()}`}
+      >
+        {typeOnly ? '🔔 INJURY' : '🔔 NEW'}
+      </span>
+    );
+  };
+
   // Get B2B badge
   const getB2BBadge = (isB2B?: boolean, oppB2B?: boolean) => {
     if (isB2B) {
@@ -160,7 +330,29 @@ export default function Home() {
     return null;
   };
 
-  const players = modelView === 'v2' ? data?.v2_predictions : data?.predictions;
+  const models = data?.models ?? [];
+  const baseModel = models[0];
+  const compareModel = models[1];
+  const viewId = modelView && modelView !== 'compare' ? modelView : baseModel?.id;
+  const players = (viewId && data?.rankings?.[viewId]) || data?.predictions;
+  
+  // Second model's rank lookup for compare view (positive change = it ranks player higher)
+  const compareRanks = new Map<string, number>();
+  if (compareModel) {
+    data?.rankings?.[compareModel.id]?.forEach((p, i) => compareRanks.set(p.player_id, i + 1));
+  }
+  
+  // Biggest without-teammate PRA gain first
+  const maxSplitGain = (p: InjurySplitPlayer) => Math.max(...p.teammates.map(t => t.pra_diff ?? -Infinity));
+  const splitPlayers = [...injurySplits]
+    .sort((a, b) => maxSplitGain(b) - maxSplitGain(a))
+    .slice(0, MAX_SPLIT_PLAYERS);
+  
+  // Simulated win/top-3 probabilities for the model being viewed
+  const simPlayers = viewId ? simulation?.simulations[viewId] : undefined;
+  const simById = new Map<string, SimulatedPlayer>();
+  simPlayers?.forEach(p => simById.set(p.player_id, p));
+  const formatProbability = (p?: number) => p === undefined ? '—' : `${(p * 100).toFixed(1)}%`;
 
   return (
     <main className="min-h-screen bg-gray-900 text-white p-6">
@@ -175,6 +367,23 @@ export default function Home() {
             </p>
           </div>
           <div className="flex gap-2">
+            <select
+              value={selectedDate}
+              onChange={e => setSelectedDate(e.target.value)}
+              className="bg-gray-700 rounded px-3 py-2 text-sm"
+              title="Slate date"
+            >
+              <option value="">📅 Today</option>
+              {tuesdays.map(d => (
+                <option key={d} value={d}>👑 Tue {d}</option>
+              ))}
+            </select>
+            <button
+              onClick={() => setShowOddsEntry(!showOddsEntry)}
+              className="bg-gray-700 hover:bg-gray-600 px-4 py-2 rounded text-sm"
+            >
+              💵 Odds
+            </button>
             <Link href="/lineup" className="bg-green-700 hover:bg-green-600 px-4 py-2 rounded text-sm">
               💰 Lineup Builder
             </Link>
@@ -186,6 +395,33 @@ export default function Home() {
 
         {getStatusBanner()}
 
+        {showOddsEntry && (
+          <div className="mb-6 bg-gray-800 rounded-lg p-4">
+            <h3 className="font-semibold mb-1">Top PRA market odds{data ? ` • ${data.game_date}` : ''}</h3>
+            <p className="text-xs text-gray-500 mb-2">
+              One player per line as <code>player,odds</code> (American odds, e.g. <code>Nikola Jokic,+350</code>).
+              Saving replaces this slate&apos;s odds. You can also drop a JSON or CSV file in <code>data/odds/</code>.
+            </p>
+            <textarea
+              value={oddsCsv}
+              onChange={e => setOddsCsv(e.target.value)}
+              rows={5}
+              className="w-full bg-gray-900 rounded p-2 font-mono text-sm"
+              placeholder={'player,odds\nNikola Jokic,+350\nLuka Doncic,+450'}
+            />
+            <div className="mt-2 flex items-center gap-3">
+              <button
+                onClick={saveOdds}
+                disabled={!data || !oddsCsv.trim()}
+                className="bg-blue-600 hover:bg-blue-700 disabled:bg-gray-600 px-4 py-2 rounded text-sm"
+              >
+                Save odds
+              </button>
+              {oddsMessage && <span className="text-sm text-gray-400">{oddsMessage}</span>}
+            </div>
+          </div>
+        )}
+
         {loading && (
           <div className="flex items-center justify-center py-20">
             <div className="animate-spin rounded-full h-12 w-12 border-b-2 border-blue-500"></div>
@@ -209,7 +445,7 @@ export default function Home() {
           <>
             {/* Games Today */}
             <div className="mb-6 bg-gray-800 rounded-lg p-4">
-              <h2 className="text-lg font-semibold mb-3">Today's Games</h2>
+              <h2 className="text-lg font-semibold mb-3">Games • {data.game_date}</h2>
               <div className="flex flex-wrap gap-3">
                 {data.games.map((game, i) => (
                   <div key={i} className="bg-gray-700 rounded px-3 py-2 text-sm">
@@ -221,28 +457,55 @@ export default function Home() {
               </div>
             </div>
 
+            {/* Injury Splits */}
+            {splitPlayers.length > 0 && (
+              <div className="mb-6 bg-gray-800 rounded-lg p-4">
+                <h2 className="text-lg font-semibold mb-1">Injury Splits</h2>
+                <p className="text-sm text-gray-400 mb-3">PRA per game with and without teammates on the injury report (this season)</p>
+                <div className="grid grid-cols-1 md:grid-cols-2 gap-3">
+                  {splitPlayers.map(p => (
+                    <div key={p.player_id} className="bg-gray-700 rounded p-3 text-sm">
+                      <div className="font-medium mb-1">{p.name} <span className="text-gray-400">{p.team_abbrev}</span></div>
+                      {p.teammates.map(t => (
+                        <div key={t.teammate_id} className="flex items-center justify-between gap-2">
+                          <span>
+                            w/o {t.teammate_name}
+                            <span className={`ml-1 text-xs ${t.status === 'OUT' ? 'text-red-400' : 'text-yellow-400'}`}>{t.status}</span>
+                          </span>
+                          <span className="text-gray-300">
+                            {t.without.games > 0 ? `${t.without.pra.toFixed(1)} (${t.without.games}g)` : '—'}
+                            <span className="text-gray-500"> vs {t.with.pra.toFixed(1)} ({t.with.games}g)</span>
+                            {t.pra_diff !== null && (
+                              <span className={`ml-2 font-semibold ${t.pra_diff > 0 ? 'text-green-400' : 'text-red-400'}`}>
+                                {t.pra_diff > 0 ? '+' : ''}{t.pra_diff.toFixed(1)}
+                              </span>
+                            )}
+                          </span>
+                        </div>
+                      ))}
+                    </div>
+                  ))}
+                </div>
+              </div>
+            )}
+
             {/* Model Toggle */}
             <div className="mb-6 flex gap-2">
-              <button
-                onClick={() => setModelView('v1')}
-                className={`px-4 py-2 rounded ${
-                  modelView === 'v1' 
-                    ? 'bg-blue-600 text-white' 
-                    : 'bg-gray-700 text-gray-300 hover:bg-gray-600'
-                }`}
-              >
-                V1 (Stats-Focused)
-              </button>
-              <button
-                onClick={() => setModelView('v2')}
-                className={`px-4 py-2 rounded ${
-                  modelView === 'v2' 
-                    ? 'bg-purple-600 text-white' 
-                    : 'bg-gray-700 text-gray-300 hover:bg-gray-600'
-                }`}
-              >
-                V2 (Context-Focused)
-              </button>
+              {models.map((model, i) => (
+                <button
+                  key={model.id}
+                  onClick={() => setModelView(model.id)}
+                  title={model.description}
+                  className={`px-4 py-2 rounded ${
+                    viewId === model.id && modelView !== 'compare'
+                      ? `${MODEL_COLORS[i % MODEL_COLORS.length]} text-white` 
+                      : 'bg-gray-700 text-gray-300 hover:bg-gray-600'
+                  }`}
+                >
+                  {model.name}
+                </button>
+              ))}
+              {compareModel && (
               <button
                 onClick={() => setModelView('compare')}
                 className={`px-4 py-2 rounded ${
@@ -253,35 +516,31 @@ export default function Home() {
               >
                 Compare Models
               </button>
+              )}
             </div>
 
             {/* Model Comparison Stats */}
             {modelView === 'compare' && data.model_comparison && (
               <div className="mb-6 bg-gray-800 rounded-lg p-4">
-                <h3 className="font-semibold mb-3">Model Comparison</h3>
+                <h3 className="font-semibold mb-3">Model Comparison: {baseModel?.name} vs {compareModel?.name}</h3>
                 <div className="grid grid-cols-2 md:grid-cols-4 gap-4 text-sm">
                   <div className="bg-gray-700 rounded p-3">
-                    <div className="text-gray-400">Rank Changes</div>
-                    <div className="text-2xl font-bold">{data.model_comparison.rank_changes}</div>
+                    <div className="text-gray-400">Top Pick</div>
+                    <div className="text-2xl font-bold">{data.model_comparison.top_pick_matches ? 'Agree' : 'Differ'}</div>
                   </div>
                   <div className="bg-gray-700 rounded p-3">
                     <div className="text-gray-400">Top 5 Overlap</div>
-                    <div className="text-2xl font-bold">{data.model_comparison.top5_overlap}/5</div>
+                    <div className="text-2xl font-bold">{data.model_comparison.top_5_overlap}/5</div>
                   </div>
-                  {data.model_comparison.biggest_riser && (
-                    <div className="bg-green-900/50 rounded p-3">
-                      <div className="text-green-400">Biggest Riser (V2)</div>
-                      <div className="font-bold">{data.model_comparison.biggest_riser.name}</div>
-                      <div className="text-green-300">+{data.model_comparison.biggest_riser.change} spots</div>
+                  {data.model_comparison.major_differences.slice(0, 2).map(diff => (
+                    <div key={diff.player} className={`${diff.compare_rank < diff.base_rank ? 'bg-green-900/50' : 'bg-red-900/50'} rounded p-3`}>
+                      <div className={diff.compare_rank < diff.base_rank ? 'text-green-400' : 'text-red-400'}>
+                        {compareModel?.name} {diff.compare_rank < diff.base_rank ? 'Riser' : 'Faller'}
+                      </div>
+                      <div className="font-bold">{diff.player}</div>
+                      <div className="text-sm text-gray-300">#{diff.base_rank} → #{diff.compare_rank} • {diff.reason}</div>
                     </div>
-                  )}
-                  {data.model_comparison.biggest_faller && (
-                    <div className="bg-red-900/50 rounded p-3">
-                      <div className="text-red-400">Biggest Faller (V2)</div>
-                      <div className="font-bold">{data.model_comparison.biggest_faller.name}</div>
-                      <div className="text-red-300">{data.model_comparison.biggest_faller.change} spots</div>
-                    </div>
-                  )}
+                  ))}
                 </div>
               </div>
             )}
@@ -294,17 +553,32 @@ export default function Home() {
                     <th className="p-3 w-12">#</th>
                     <th className="p-3">Player</th>
                     <th className="p-3">Matchup</th>
-                    <th className="p-3 text-center">PPG</th>
-                    <th className="p-3 text-center">RPG</th>
-                    <th className="p-3 text-center">APG</th>
-                    <th className="p-3 text-center">Score</th>
+                    <th className="p-3 text-center">Avg PRA</th>
+                    <th className="p-3 text-center">Proj PRA</th>
+                    <th className="p-3 text-center">Ceiling</th>
+                    <th className="p-3 text-center" title={simulation ? `${simulation.iterations.toLocaleString()} simulated slates` : 'Simulating...'}>
+                      Win %
+                    </th>
+                    <th className="p-3 text-center">Top 3 %</th>
+                    {marketOdds.length > 0 && (
+                      <th className="p-3 text-center" title={`EV of a $${DEFAULT_STAKE} bet at market odds (vig removed for fair %)`}>
+                        EV (${DEFAULT_STAKE})
+                      </th>
+                    )}
+                    <th className="p-3">Key Factors</th>
                     {modelView === 'compare' && (
-                      <th className="p-3 text-center">V2 Rank</th>
+                      <th className="p-3 text-center">{compareModel?.name} Rank</th>
                     )}
                   </tr>
                 </thead>
                 <tbody>
-                  {players?.slice(0, 25).map((player, i) => (
+                  {players?.slice(0, 25).map((player, i) => {
+                    const compareRank = compareRanks.get(player.player_id);
+                    const rankChange = compareRank ? (i + 1) - compareRank : 0;
+                    const sim = simById.get(player.player_id);
+                    const odds = findPlayerOdds(marketOdds, player.player_id, player.player_name);
+                    const bet = odds && sim ? evaluateBet(odds, sim.win_probability) : null;
+                    return (
                     <tr 
                       key={player.player_id}
                       className={`border-t border-gray-700 ${
@@ -314,48 +588,86 @@ export default function Home() {
                       <td className="p-3 font-bold text-gray-400">{i + 1}</td>
                       <td className="p-3">
                         <div className="font-semibold">
-                          {player.name}
+                          {player.player_name}
                           {getInjuryBadge(player.injury_status)}
+                          {getStatusChangeBadge(player)}
                           {getB2BBadge(player.is_b2b, player.opponent_b2b)}
                         </div>
                         <div className="text-sm text-gray-400">
-                          {player.team_abbrev} • {player.position}
+                          {player.team} • {player.position} • {player.confidence}
                           {player.injury_type && (
                             <span className="text-yellow-500 ml-1">• {player.injury_type}</span>
                           )}
                         </div>
                       </td>
                       <td className="p-3">
-                        <span className="text-gray-300">vs {player.opponent_abbrev}</span>
-                        <div className="text-xs text-gray-500">
-                          Def: {player.opp_def_rating.toFixed(1)}
-                        </div>
+                        <span className="text-gray-300">vs {player.opponent}</span>
+                        {player.game_context.opponent_drtg !== undefined && (
+                          <div className="text-xs text-gray-500">
+                            Def: {player.game_context.opponent_drtg.toFixed(1)}
+                          </div>
+                        )}
                       </td>
-                      <td className="p-3 text-center font-mono">{player.ppg.toFixed(1)}</td>
-                      <td className="p-3 text-center font-mono">{player.rpg.toFixed(1)}</td>
-                      <td className="p-3 text-center font-mono">{player.apg.toFixed(1)}</td>
+                      <td className="p-3 text-center font-mono">{player.stats.avg_pra_last_10.toFixed(1)}</td>
                       <td className="p-3 text-center">
-                        <span className="font-bold text-blue-400">
-                          {(modelView === 'v2' ? player.v2_score : player.v1_score).toFixed(1)}
-                        </span>
+                        <span className="font-bold text-blue-400">{player.projected_pra.toFixed(1)}</span>
+                      </td>
+                      <td className="p-3 text-center font-mono">{player.ceiling_pra.toFixed(1)}</td>
+                      <td className="p-3 text-center">
+                        <span className="font-bold text-yellow-400">{formatProbability(sim?.win_probability)}</span>
+                        {sim && (
+                          <div className="text-xs text-gray-500">E[rank] {sim.expected_rank.toFixed(1)}</div>
+                        )}
+                      </td>
+                      <td className="p-3 text-center font-mono">{formatProbability(sim?.top3_probability)}</td>
+                      {marketOdds.length > 0 && (
+                        <td className="p-3 text-center">
+                          {odds ? (
+                            <>
+                              <div className="text-xs text-gray-400">
+                                {odds.american_odds > 0 ? '+' : ''}{odds.american_odds} • fair {formatProbability(odds.fair_probability)}
+                              </div>
+                              {bet && (
+                                <>
+                                  <div className={`font-bold ${bet.ev_per_5 > 0 ? 'text-green-400' : 'text-red-400'}`}>
+                                    {bet.ev_per_5 > 0 ? '+' : ''}${bet.ev_per_5.toFixed(2)}
+                                  </div>
+                                  <div className="text-xs text-gray-500">
+                                    edge {(bet.edge * 100).toFixed(1)}% • Kelly {(bet.kelly_fraction * 100).toFixed(1)}%
+                                  </div>
+                                </>
+                              )}
+                            </>
+                          ) : (
+                            <span className="text-gray-600">—</span>
+                          )}
+                        </td>
+                      )}
+                      <td className="p-3">
+                        <div className="flex flex-wrap gap-1">
+                          {player.key_factors.map(factor => (
+                            <span key={factor} className="bg-gray-700 text-xs px-1.5 py-0.5 rounded">{factor}</span>
+                          ))}
+                        </div>
                       </td>
                       {modelView === 'compare' && (
                         <td className="p-3 text-center">
                           <span className={`font-bold ${
-                            (player.rank_change || 0) > 0 ? 'text-green-400' :
-                            (player.rank_change || 0) < 0 ? 'text-red-400' : 'text-gray-400'
+                            rankChange > 0 ? 'text-green-400' :
+                            rankChange < 0 ? 'text-red-400' : 'text-gray-400'
                           }`}>
-                            #{player.rank_v2}
-                            {player.rank_change !== 0 && (
+                            #{compareRank}
+                            {rankChange !== 0 && (
                               <span className="text-xs ml-1">
-                                ({player.rank_change! > 0 ? '+' : ''}{player.rank_change})
+                                ({rankChange > 0 ? '+' : ''}{rankChange})
                               </span>
                             )}
                           </span>
                         </td>
                       )}
                     </tr>
-                  ))}
+                    );
+                  })}
                 </tbody>
               </table>
             </div>
@@ -0,0 +1,72 @@
+import { describe, it, expect } from 'vitest';
+import {
+  parseScoringParam,
+  compareResults,
+  generateSummary,
+  SCORING_SYSTEMS,
+  DEFAULT_SCORING,
+  ActualResult,
+  HistoricalPrediction
+} from '../backtest';
+
+describe('parseScoringParam', () => {
+  it('resolves named systems', () => {
+    expect(parseScoringParam('dk_classic')).toBe(SCORING_SYSTEMS.dk_classic);
+    expect(parseScoringParam(null)).toBe(DEFAULT_SCORING);
+  });
+
+  it('ignores inherited object keys', () => {
+    for (const param of ['toString', 'constructor', '__proto__', 'hasOwnProperty']) {
+      expect(parseScoringParam(param)).toBe(DEFAULT_SCORING);
+    }
+  });
+
+  it('parses custom weights and skips unknown stats', () => {
+    expect(parseScoringParam('custom:points=1,rebounds=1.2,dunks=5')).toEqual({
+      id: 'custom',
+      name: 'Custom weights',
+      weights: { points: 1, rebounds: 1.2 }
+    });
+  });
+});
+
+describe('compareResults', () => {
+  const date = '2025-01-15';
+  const names = ['Alpha One', 'Bravo Two', 'Charlie Three'];
+  const actuals: ActualResult[] = names.map((name, i) => ({
+    date,
+    player_id: String(i + 1),
+    player_name: name,
+    kotc_points: 50 - i * 10,
+    actual_rank: i + 1,
+    minutes: 34,
+    did_not_play: false,
+    ejected: false,
+    stats: { points: 30 - i * 5, rebounds: 10, assists: 10 - i * 5, steals: 0, blocks: 0, turnovers: 0, three_pointers: 0 }
+  }));
+  const rows = (model: string, order: string[]): HistoricalPrediction[] => order.map((name, i) => ({
+    date,
+    player_id: name,
+    player_name: name,
+    team: 'BOS',
+    opponent: 'NYK',
+    predicted_rank: i + 1,
+    model_version: model,
+    score: 100 - i * 10
+  }));
+
+  it('leaves out a model whose players all failed to match', () => {
+    const predictions = [
+      ...rows('v1', [names[1], names[0], names[2]]),
+      ...rows('ghost', ['Nobody A', 'Nobody B', 'Nobody C'])
+    ];
+    const result = compareResults(predictions, actuals);
+    expect(Object.keys(result.models)).toEqual(['v1']);
+    expect(result.winner).toBe('v1');
+
+    const summary = generateSummary([result, { ...result, date: '2025-01-16' }]);
+    expect(summary.model_ids).toEqual(['v1']);
+    expect(summary.metrics?.by_model.ghost).toBeUndefined();
+    expect(summary.better_model).toBe('inconclusive');
+  });
+});
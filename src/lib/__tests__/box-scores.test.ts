@@ -0,0 +1,68 @@
+import { describe, it, expect } from 'vitest';
+import { parseBoxScore, parseTeamTotals, parseMinutes } from '../box-scores';
+import summary from './fixtures/espn-boxscore.json';
+
+describe('parseMinutes', () => {
+  it('reads whole and mm:ss minutes, zero for DNP placeholders', () => {
+    expect(parseMinutes('34')).toBe(34);
+    expect(parseMinutes('21:30')).toBe(21.5);
+    expect(parseMinutes('--')).toBe(0);
+    expect(parseMinutes(undefined)).toBe(0);
+  });
+});
+
+describe('parseBoxScore', () => {
+  const lines = parseBoxScore(summary);
+  const line = (name: string) => lines.find(l => l.player_name === name)!;
+
+  it('returns a line per listed player with team and opponent', () => {
+    expect(lines).toHaveLength(7);
+    expect(line('Jayson Tatum')).toMatchObject({ team_abbrev: 'BOS', opponent_abbrev: 'NY', position: 'SF', starter: true });
+  });
+
+  it('reads stats by key', () => {
+    expect(line('Jayson Tatum')).toMatchObject({
+      minutes: 38,
+      stats: { points: 32, rebounds: 10, assists: 6, steals: 1, blocks: 0, turnovers: 3, three_pointers: 4 }
+    });
+    expect(line('Payton Pritchard').minutes).toBe(21.5);
+  });
+
+  it('reads reordered columns by label when keys are missing', () => {
+    expect(line('Jalen Brunson')).toMatchObject({
+      minutes: 36,
+      stats: { points: 30, rebounds: 3, assists: 9, steals: 1, blocks: 0, turnovers: 4, three_pointers: 3 }
+    });
+  });
+
+  it('zeroes DNPs and keeps the reason', () => {
+    expect(line('Neemias Queta')).toMatchObject({
+      did_not_play: true,
+      dnp_reason: "DNP-COACH'S DECISION",
+      minutes: 0,
+      stats: { points: 0, rebounds: 0, assists: 0 }
+    });
+    // An empty stat row without the flag is a DNP too
+    expect(line('Precious Achiuwa')).toMatchObject({ did_not_play: true, dnp_reason: null, position: '' });
+  });
+
+  it('flags ejections without dropping their stats', () => {
+    expect(line('Jaylen Brown')).toMatchObject({ ejected: true, minutes: 24, stats: { points: 17 } });
+    expect(line('Jayson Tatum').ejected).toBe(false);
+  });
+
+  it('returns nothing for a summary without a box score', () => {
+    expect(parseBoxScore({})).toEqual([]);
+  });
+});
+
+describe('parseTeamTotals', () => {
+  it('sums possession inputs over players who played', () => {
+    const [bos, ny] = parseTeamTotals(summary);
+    expect(bos).toEqual({
+      team_abbrev: 'BOS', opponent_abbrev: 'NY',
+      minutes: 83.5, points: 57, fga: 44, fta: 9, offensive_rebounds: 3, turnovers: 6, possessions: 51
+    });
+    expect(ny).toMatchObject({ points: 52, fga: 39, fta: 8, offensive_rebounds: 4, turnovers: 7, possessions: 45.5 });
+  });
+});
@@ -0,0 +1,159 @@
+import { describe, it, expect } from 'vitest';
+import {
+  buildTrainingSlate,
+  DEFAULT_ENSEMBLE_WEIGHTS,
+  EnsembleComponent,
+  EnsembleTrainingSlate,
+  ensembleScore,
+  fitEnsembleWeights,
+  predictEnsemble
+} from '../ensemble';
+import { registerModel, ModelContext } from '../model-registry';
+import { DEFAULT_SCORING_WEIGHTS } from '../scoring-weights';
+import { DEFAULT_PLAY_PROBABILITIES } from '../play-probability';
+import { ActualResult, HistoricalPrediction } from '../backtest';
+import { createRandom } from '../random';
+import { makePlayer, makePrediction } from './fixtures/players';
+
+// Two stand-in component models: one scores recent PRA, the other usage
+registerModel({
+  id: 'alpha',
+  name: 'Alpha',
+  description: 'Test model scoring recent PRA',
+  score: p => p.pra_avg,
+  predict: players => players.map(p => makePrediction({
+    player_id: p.player_id, projected_pra: 20, ceiling_score: 50, play_probability: 1, key_factors: ['alpha']
+  }))
+});
+registerModel({
+  id: 'beta',
+  name: 'Beta',
+  description: 'Test model scoring usage',
+  score: p => p.usage_rate,
+  predict: players => players.map(p => makePrediction({
+    player_id: p.player_id, projected_pra: 40, ceiling_score: 70, play_probability: 0.5, key_factors: ['beta']
+  }))
+});
+
+function context(components: EnsembleComponent[]): ModelContext {
+  return {
+    ensemble_weights: { ...DEFAULT_ENSEMBLE_WEIGHTS, components },
+    scoring_weights: DEFAULT_SCORING_WEIGHTS,
+    play_probabilities: DEFAULT_PLAY_PROBABILITIES
+  };
+}
+
+describe('ensembleScore', () => {
+  const player = makePlayer({ pra_avg: 35, usage_rate: 28 });
+
+  it('weights z-scores and maps them back to the first component scale', () => {
+    const ctx = context([
+      { model: 'alpha', weight: 1, mean: 30, std: 5 },  // z = 1
+      { model: 'beta', weight: 1, mean: 20, std: 4 }    // z = 2
+    ]);
+    expect(ensembleScore(player, ctx)).toBeCloseTo(30 + 5 * 3 / 2);
+  });
+
+  it('skips components that are no longer registered', () => {
+    const ctx = context([
+      { model: 'alpha', weight: 1, mean: 30, std: 5 },
+      { model: 'retired', weight: 4, mean: 0, std: 1 }
+    ]);
+    expect(ensembleScore(player, ctx)).toBeCloseTo(35);
+  });
+
+  it('returns 0 without usable weights', () => {
+    expect(ensembleScore(player, context([{ model: 'alpha', weight: 0, mean: 30, std: 5 }]))).toBe(0);
+  });
+});
+
+describe('predictEnsemble', () => {
+  it('blends by weight and keeps the heaviest model\'s details', () => {
+    const [prediction] = predictEnsemble([makePlayer()], context([
+      { model: 'alpha', weight: 1, mean: 30, std: 5 },
+      { model: 'beta', weight: 3, mean: 20, std: 4 }
+    ]));
+
+    expect(prediction).toMatchObject({
+      projected_pra: 35,
+      ceiling_score: 65,
+      play_probability: 0.625,
+      key_factors: ['beta']
+    });
+  });
+
+  it('leaves out negatively weighted components', () => {
+    const [prediction] = predictEnsemble([makePlayer()], context([
+      { model: 'alpha', weight: 2, mean: 30, std: 5 },
+      { model: 'beta', weight: -1, mean: 20, std: 4 }
+    ]));
+    expect(prediction).toMatchObject({ projected_pra: 20, play_probability: 1, key_factors: ['alpha'] });
+  });
+});
+
+describe('buildTrainingSlate', () => {
+  const date = '2025-01-15';
+  const predicted = (id: string, name: string, model: string, score: number): HistoricalPrediction => ({
+    date, player_id: id, player_name: name, team: 'BOS', opponent: 'NYK', predicted_rank: 1, model_version: model, score
+  });
+  const actual = (id: string, name: string, rank: number, dnp = false): ActualResult => ({
+    date, player_id: id, player_name: name, kotc_points: 40 - rank, actual_rank: rank, minutes: dnp ? 0 : 30,
+    did_not_play: dnp, ejected: false, stats: { points: 20, rebounds: 5, assists: 5, steals: 1, blocks: 0, turnovers: 2, three_pointers: 1 }
+  });
+
+  const predictions = [
+    predicted('1', 'Alpha Player', 'alpha', 50), predicted('1', 'Alpha Player', 'beta', 20),
+    predicted('2', 'Bravo Player', 'alpha', 40), predicted('2', 'Bravo Player', 'beta', 30),
+    predicted('3', 'Charlie Player', 'alpha', 45),  // No beta score: dropped
+    predicted('4', 'Delta Player', 'gamma', 99)     // Not a component
+  ];
+
+  it('lines up component scores and finds the winner by name', () => {
+    const slate = buildTrainingSlate(predictions, [actual('2', 'Bravo Player', 1), actual('1', 'Alpha Player', 2)], ['alpha', 'beta']);
+    expect(slate).toEqual({ date, features: [[50, 20], [40, 30]], winner_index: 1 });
+  });
+
+  it('returns null when the winner is not in the scored pool', () => {
+    expect(buildTrainingSlate(predictions, [actual('3', 'Charlie Player', 1)], ['alpha', 'beta'])).toBeNull();
+    expect(buildTrainingSlate(predictions, [actual('2', 'Bravo Player', 1, true)], ['alpha', 'beta'])).toBeNull();
+  });
+});
+
+describe('fitEnsembleWeights', () => {
+  // Component 0 always scores the winner highest; component 1 is noise
+  const random = createRandom(42);
+  const slates: EnsembleTrainingSlate[] = Array.from({ length: 30 }, (_, s) => {
+    const winner = Math.floor(random() * 8);
+    return {
+      date: `2025-01-${String(s + 1).padStart(2, '0')}`,
+      features: Array.from({ length: 8 }, (_, i) => [
+        i === winner ? 60 : 30 + random() * 20,
+        30 + random() * 20
+      ]),
+      winner_index: winner
+    };
+  });
+
+  it('gives the larger weight to the component that ranks the winner', () => {
+    const fit = fitEnsembleWeights(slates, ['alpha', 'beta']);
+    const [perfect, noise] = fit.components;
+
+    expect(perfect.weight).toBeGreaterThan(Math.abs(noise.weight) * 3);
+    expect(fit.avg_log_loss!).toBeLessThan(fit.uniform_log_loss!);
+    expect(fit.uniform_log_loss).toBeCloseTo(Math.log(8), 4);
+    expect(fit.date_range).toEqual({ start: '2025-01-01', end: '2025-01-30' });
+  });
+
+  it('records the training normalization stats', () => {
+    const fit = fitEnsembleWeights(slates, ['alpha', 'beta']);
+    const rows = slates.flatMap(s => s.features);
+    const mean = rows.reduce((sum, r) => sum + r[1], 0) / rows.length;
+    expect(fit.components[1].mean).toBeCloseTo(mean, 3);
+  });
+
+  it('keeps the starting weights with no slates', () => {
+    const fit = fitEnsembleWeights([], ['alpha', 'beta']);
+    expect(fit.components.map(c => c.weight)).toEqual([0.5, 0.5]);
+    expect(fit.avg_log_loss).toBeNull();
+  });
+});
@@ -0,0 +1,117 @@
+// Builders for handcrafted test data: game log entries and slate players with
+// neutral defaults, overridden per test
+import type { GameLogEntry } from '../../game-logs';
+import type { EnhancedPlayerData } from '../../espn-data';
+import type { Prediction } from '../../prediction-model';
+
+export function logEntry(overrides: Partial<GameLogEntry> = {}): GameLogEntry {
+  const points = overrides.points ?? 20;
+  const rebounds = overrides.rebounds ?? 5;
+  const assists = overrides.assists ?? 5;
+  return {
+    event_id: '1',
+    date: '2025-01-01',
+    opponent_abbrev: 'NYK',
+    is_home: true,
+    minutes: 30,
+    steals: 1,
+    blocks: 0,
+    turnovers: 2,
+    fouls: 2,
+    fgm: 8,
+    fga: 16,
+    fta: 4,
+    ...overrides,
+    points,
+    rebounds,
+    assists,
+    pra: overrides.pra ?? points + rebounds + assists
+  };
+}
+
+// One entry per game, event ids and dates following the game index
+export function gameLog(games: Array<Partial<GameLogEntry>>): GameLogEntry[] {
+  return games.map((g, i) => logEntry({
+    event_id: String(i + 1),
+    date: `2025-01-${String(i + 1).padStart(2, '0')}`,
+    ...g
+  }));
+}
+
+export function makePlayer(overrides: Partial<EnhancedPlayerData> = {}): EnhancedPlayerData {
+  return {
+    player_id: '1',
+    name: 'Test Player',
+    team: 'Boston Celtics',
+    team_abbrev: 'BOS',
+    position: 'SF',
+    opponent: 'New York Knicks',
+    opponent_abbrev: 'NYK',
+    game_time: '2025-01-16T00:30:00Z',
+    is_home: true,
+    matchup: 'BOS vs NYK',
+    headshot: null,
+    ppg: 20,
+    rpg: 5,
+    apg: 5,
+    fgp: 0.47,
+    stats_provenance: { ppg: 'espn_roster', rpg: 'espn_roster', apg: 'espn_roster', fgp: 'espn_roster' },
+    last_games_pra: Array(10).fill(30),
+    last_games_minutes: Array(10).fill(32),
+    pra_avg: 30,
+    max_pra_last_10: 36,
+    usage_rate: 24,
+    mpg: 32,
+    fouls_per_game: 2,
+    foul_outs: 0,
+    triple_doubles: 0,
+    games_played: 40,
+    spread: null,
+    over_under: null,
+    opp_def_rating: 114,
+    opponent_pace: 99,
+    pace: 99,
+    projected_possessions: 99,
+    position_modifier: 0,
+    injury_status: 'HEALTHY',
+    ...overrides
+  };
+}
+
+export function makePrediction(
+  overrides: Partial<Omit<Prediction, 'stats'>> & { stats?: Partial<Prediction['stats']> } = {}
+): Prediction {
+  const { stats, ...rest } = overrides;
+  return {
+    player_id: '1',
+    player_name: 'Test Player',
+    team: 'BOS',
+    position: 'SF',
+    matchup: 'BOS vs NYK',
+    opponent: 'NYK',
+    headshot: null,
+    projected_pra: 30,
+    ceiling_pra: 40,
+    ceiling_score: 60,
+    play_probability: 1,
+    component_scores: { recent_pra: 60, ceiling_factor: 60, volume: 60, matchup: 50, environment: 50 },
+    stats: {
+      avg_pra_last_10: 30,
+      max_pra_last_10: 40,
+      std_dev_pra: 6,
+      usage_rate: 24,
+      minutes_per_game: 32,
+      projected_minutes: 32,
+      triple_doubles: 0,
+      ppg: 20,
+      rpg: 5,
+      apg: 5,
+      ...stats
+    },
+    game_context: { spread: null, over_under: 225, is_home: true, projected_possessions: 100 },
+    key_factors: [],
+    confidence: 'Medium',
+    last_10_pra: Array(10).fill(30),
+    ...rest
+  };
+}
@@ -0,0 +1,66 @@
+import { describe, it, expect } from 'vitest';
+import { parseGameLog, summarizeGameLog, gameLogAsOf } from '../game-logs';
+import gamelog from './fixtures/espn-gamelog.json';
+
+describe('parseGameLog', () => {
+  const entries = parseGameLog(gamelog);
+
+  it('skips preseason games and duplicate events, oldest first', () => {
+    expect(entries.map(e => e.event_id)).toEqual(['401705101', '401705102', '401705103', '401705104', '401705105']);
+  });
+
+  it('reads stats by label', () => {
+    const game = entries.find(e => e.event_id === '401705104')!;
+    expect(game).toMatchObject({
+      opponent_abbrev: 'MEM',
+      is_home: true,
+      team_abbrev: 'DAL',
+      minutes: 38,
+      points: 32,
+      rebounds: 11,
+      assists: 10,
+      steals: 2,
+      blocks: 1,
+      turnovers: 4,
+      fouls: 3,
+      fgm: 12,
+      fga: 22,
+      fta: 8,
+      pra: 53
+    });
+    expect(entries.find(e => e.event_id === '401705101')!.is_home).toBe(false);
+    expect(entries.find(e => e.event_id === '401705101')!.team_abbrev).toBeUndefined();
+  });
+
+  it('returns nothing without the PTS/REB/AST columns', () => {
+    expect(parseGameLog({ ...gamelog, labels: ['MIN', 'FG'] })).toEqual([]);
+    expect(parseGameLog(null)).toEqual([]);
+  });
+});
+
+describe('summarizeGameLog', () => {
+  it('derives model inputs from games played', () => {
+    const summary = summarizeGameLog(parseGameLog(gamelog));
+    expect(summary.games_played).toBe(4); // The 0-minute game doesn't count
+    expect(summary.last_games_pra).toEqual([43, 51, 43, 53]);
+    expect(summary.last_games_minutes).toEqual([34, 36, 35, 38]);
+    expect(summary.pra_avg).toBe(47.5);
+    expect(summary.max_pra_last_10).toBe(53);
+    expect(summary.mpg).toBe(35.8);
+    expect(summary.foul_outs).toBe(1);
+    expect(summary.triple_doubles).toBe(2);
+    expect(summary.usage_rate).toBeGreaterThan(0);
+  });
+
+  it('is empty for a player who never played', () => {
+    expect(summarizeGameLog([]).games_played).toBe(0);
+  });
+});
+
+describe('gameLogAsOf', () => {
+  it('keeps games from earlier Eastern slates only', () => {
+    // 401705103 tipped at 2024-10-28T02:00Z, i.e. the evening of Oct 27 Eastern
+    const asOf = gameLogAsOf(parseGameLog(gamelog), '2024-10-27');
+    expect(asOf.map(e => e.event_id)).toEqual(['401705101', '401705102']);
+  });
+});
@@ -0,0 +1,76 @@
+import { describe, it, expect } from 'vitest';
+import { InjuryInfo, InjuryStatus, getPlayerInjuryStatus } from '../injuries';
+import { applyInjuryReport, changeKind, diffInjuryReports, reportAt, reportEntries, reportInjuries } from '../injury-history';
+
+function report(...entries: Array<[string, InjuryStatus, string]>): Map<string, InjuryInfo> {
+  return new Map(entries.map(([id, status, injury_type]) => [id, {
+    player_id: id,
+    player_name: `Player ${String.fromCharCode(64 + Number(id))}`,  // Player A, B, ...
+    team: 'Boston Celtics',
+    team_abbrev: 'BOS',
+    status,
+    injury_type
+  }]));
+}
+
+describe('diffInjuryReports', () => {
+  it('records additions, status changes and clears', () => {
+    const previous = reportEntries(report(['1', 'QUESTIONABLE', 'Ankle'], ['2', 'OUT', 'Knee']));
+    const current = reportEntries(report(['1', 'OUT', 'Ankle'], ['3', 'DOUBTFUL', 'Back']));
+    const changes = diffInjuryReports(previous, current, '2025-01-15T20:00:00.000Z');
+
+    expect(changes.map(c => [c.player_key, c.kind, c.from, c.to])).toEqual([
+      ['1', 'status', 'QUESTIONABLE', 'OUT'],
+      ['3', 'added', null, 'DOUBTFUL'],
+      ['2', 'cleared', 'OUT', 'HEALTHY']
+    ]);
+  });
+
+  it('records an injury type change with the same status', () => {
+    const previous = reportEntries(report(['1', 'OUT', 'Ankle']));
+    const current = reportEntries(report(['1', 'OUT', 'Illness']));
+    const [change] = diffInjuryReports(previous, current, '2025-01-15T20:00:00.000Z');
+
+    expect(change).toMatchObject({
+      kind: 'injury_type', from: 'OUT', to: 'OUT', from_injury_type: 'Ankle', injury_type: 'Illness'
+    });
+  });
+
+  it('derives the kind of changes stored without one', () => {
+    expect(changeKind({ from: null, to: 'OUT' })).toBe('added');
+    expect(changeKind({ from: 'QUESTIONABLE', to: 'OUT' })).toBe('status');
+    expect(changeKind({ from: 'OUT', to: 'OUT' })).toBe('injury_type');
+    expect(changeKind({ from: 'PROBABLE', to: 'HEALTHY' })).toBe('cleared');
+  });
+
+  it('ignores unchanged entries', () => {
+    const entries = reportEntries(report(['1', 'OUT', 'Ankle']));
+    expect(diffInjuryReports(entries, entries, '2025-01-15T20:00:00.000Z')).toEqual([]);
+  });
+});
+
+describe('reportAt', () => {
+  it('restores the earlier status and injury type', () => {
+    const first = applyInjuryReport(null, '2025-01-15', report(['1', 'QUESTIONABLE', 'Ankle']),
+      new Date('2025-01-15T18:00:00Z'));
+    const second = applyInjuryReport(first, '2025-01-15', report(['1', 'OUT', 'Illness'], ['2', 'OUT', 'Knee']),
+      new Date('2025-01-15T20:00:00Z'));
+
+    expect(reportAt(second, new Date('2025-01-15T19:00:00Z'))).toEqual(first.players);
+    expect(reportAt(second, new Date('2025-01-15T21:00:00Z'))).toEqual(second.players);
+  });
+});
+
+describe('reportInjuries', () => {
+  it('rebuilds an injury map that matches players by id or name', () => {
+    const first = applyInjuryReport(null, '2025-01-15', report(['1', 'OUT', 'Ankle']), new Date('2025-01-15T18:00:00Z'));
+    const second = applyInjuryReport(first, '2025-01-15', report(['1', 'OUT', 'Ankle'], ['2', 'QUESTIONABLE', 'Rest']),
+      new Date('2025-01-16T02:00:00Z'));
+
+    // As of a 7:30pm ET first tip, player 2 wasn't listed yet
+    const injuries = reportInjuries(reportAt(second, new Date('2025-01-16T00:30:00Z')));
+    expect(getPlayerInjuryStatus('Someone Else', '1', injuries)?.status).toBe('OUT');
+    expect(getPlayerInjuryStatus('Player A', undefined, injuries)?.injury_type).toBe('Ankle');
+    expect(getPlayerInjuryStatus('Player B', '2', injuries)).toBeNull();
+  });
+});
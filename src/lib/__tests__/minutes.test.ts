@@ -0,0 +1,95 @@
+import { describe, it, expect } from 'vitest';
+import { attachMinutesProjections, projectMinutes, ROTATION_SHARE } from '../minutes';
+import { makePlayer } from './fixtures/players';
+
+// Default player: 10 games of 32 minutes and 30 PRA, no spread, no fouls
+const minutes = (...values: number[]) => ({ last_games_minutes: values, last_games_pra: values.map(() => 30) });
+
+describe('projectMinutes', () => {
+  it('starts from last-10 minutes and PRA per minute', () => {
+    const projection = projectMinutes(makePlayer());
+    expect(projection).toMatchObject({ projected_minutes: 32, baseline_minutes: 32, pra_per_minute: 0.938, projected_pra: 30 });
+    for (const value of Object.values(projection.adjustments)) expect(value).toBeCloseTo(0);
+  });
+
+  it('weights the baseline toward recent games', () => {
+    // (20 × (1+...+5) + 40 × (6+...+10)) / 55
+    const projection = projectMinutes(makePlayer(minutes(20, 20, 20, 20, 20, 40, 40, 40, 40, 40)));
+    expect(projection.baseline_minutes).toBeCloseTo(34.5, 1);
+  });
+
+  it('falls back to MPG, then a default, without a game log', () => {
+    expect(projectMinutes(makePlayer({ last_games_minutes: [], mpg: 26 })).baseline_minutes).toBe(26);
+    expect(projectMinutes(makePlayer({ last_games_minutes: [], mpg: 0 })).baseline_minutes).toBe(28);
+  });
+
+  it('carries half the last-3 trend, capped at 4 minutes', () => {
+    // Last 3 average 36 vs 33.2 over 10
+    expect(projectMinutes(makePlayer(minutes(32, 32, 32, 32, 32, 32, 32, 36, 36, 36))).adjustments.trend).toBeCloseTo(1.4, 1);
+    expect(projectMinutes(makePlayer(minutes(20, 20, 20, 20, 20, 20, 20, 40, 40, 40))).adjustments.trend).toBe(4);
+    expect(projectMinutes(makePlayer(minutes(32, 32, 32, 32, 32, 32, 32, 10, 10, 10))).adjustments.trend).toBe(-4);
+    // Fewer than 5 games: no trend
+    expect(projectMinutes(makePlayer(minutes(20, 20, 40, 40))).adjustments.trend).toBe(0);
+  });
+
+  it('trims heavy-minute players on a back-to-back', () => {
+    expect(projectMinutes(makePlayer({ is_b2b: true })).adjustments.b2b).toBe(-1.5);
+    expect(projectMinutes(makePlayer({ is_b2b: true, ...minutes(...Array(10).fill(25)) })).adjustments.b2b).toBe(0);
+  });
+
+  it('cuts starters and lifts bench players in expected blowouts', () => {
+    const starter = (spread: number) => projectMinutes(makePlayer({ spread })).adjustments.blowout;
+    expect(starter(-4)).toBeCloseTo(0);
+    expect(starter(-11)).toBeCloseTo(-1.6, 1);   // 5% of 32
+    expect(starter(-16)).toBeCloseTo(-3.2, 1);   // Capped at 10%
+    expect(starter(25)).toBeCloseTo(-3.2, 1);
+
+    const withMinutes = (m: number) => projectMinutes(makePlayer({ spread: -16, ...minutes(...Array(10).fill(m)) }));
+    expect(withMinutes(12).adjustments.blowout).toBeCloseTo(0.6, 1);
+    expect(withMinutes(20).adjustments.blowout).toBeCloseTo(0);
+  });
+
+  it('adds OUT teammates\' minutes, preferring vacated-usage splits', () => {
+    expect(projectMinutes(makePlayer(), 5).adjustments.teammates_out).toBe(5);
+    expect(projectMinutes(makePlayer(), -3).adjustments.teammates_out).toBe(0);
+
+    const vacated = { out_teammates: ['Star'], minutes: 3, shots: 2, assists: 1, pra: 6, source: 'splits' as const };
+    const projection = projectMinutes(makePlayer({ vacated_usage: vacated }), 5);
+    expect(projection.adjustments.teammates_out).toBe(3);
+    // 35 minutes × 0.9375 plus the 6 - 3 × 0.9375 PRA beyond those minutes
+    expect(projection.usage_pra).toBeCloseTo(3.2, 1);
+    expect(projection.projected_pra).toBeCloseTo(36, 1);
+  });
+
+  it('costs minutes at the foul-out and ejection rates', () => {
+    // 4 foul-outs in 40 games × 30% + 1 ejection / 40 games × 50%, of 32 minutes
+    const projection = projectMinutes(makePlayer({ foul_outs: 4, recent_ejections: 1 }));
+    expect(projection.adjustments.discipline).toBeCloseTo(-1.4, 1);
+  });
+
+  it('clamps projected minutes to 0-42', () => {
+    const heavy = projectMinutes(makePlayer(minutes(...Array(10).fill(40))), 10);
+    expect(heavy.projected_minutes).toBe(42);
+
+    const fouling = projectMinutes(makePlayer({ foul_outs: 40, games_played: 10 }));
+    expect(fouling.projected_minutes).toBe(0);
+    expect(fouling.projected_pra).toBe(0);
+  });
+});
+
+describe('attachMinutesProjections', () => {
+  it('splits OUT minutes across the team\'s available rotation by minutes', () => {
+    const players = attachMinutesProjections([
+      makePlayer({ player_id: 'out', injury_status: 'OUT', ...minutes(...Array(10).fill(30)) }),
+      makePlayer({ player_id: 'a', ...minutes(...Array(10).fill(30)) }),
+      makePlayer({ player_id: 'b', ...minutes(...Array(10).fill(10)) }),
+      makePlayer({ player_id: 'other', team_abbrev: 'NYK' })
+    ]);
+    const gained = (id: string) => players.find(p => p.player_id === id)!.minutes_projection!.adjustments.teammates_out;
+
+    expect(gained('a')).toBeCloseTo(30 * ROTATION_SHARE * 0.75, 1);
+    expect(gained('b')).toBeCloseTo(30 * ROTATION_SHARE * 0.25, 1);
+    expect(gained('other')).toBe(0);
+    expect(gained('out')).toBe(0);
+  });
+});
@@ -0,0 +1,120 @@
+import { describe, it, expect } from 'vitest';
+import {
+  americanToDecimal,
+  americanToImpliedProbability,
+  evaluateBet,
+  findPlayerOdds,
+  parseOddsCsv,
+  parseOddsJson,
+  priceOdds
+} from '../odds';
+
+describe('americanToDecimal', () => {
+  it('converts positive and negative odds', () => {
+    expect(americanToDecimal(450)).toBeCloseTo(5.5);
+    expect(americanToDecimal(-200)).toBeCloseTo(1.5);
+    expect(americanToDecimal(100)).toBeCloseTo(2);
+  });
+
+  it('gives implied probabilities from the decimal payout', () => {
+    expect(americanToImpliedProbability(300)).toBeCloseTo(0.25);
+    expect(americanToImpliedProbability(-300)).toBeCloseTo(0.75);
+  });
+});
+
+describe('priceOdds', () => {
+  it('removes the vig so fair probabilities sum to 1', () => {
+    const priced = priceOdds([
+      { player_name: 'A', american_odds: 120 },
+      { player_name: 'B', american_odds: 150 },
+      { player_name: 'C', american_odds: 200 }
+    ]);
+    const implied = priced.reduce((sum, o) => sum + o.implied_probability, 0);
+    const fair = priced.reduce((sum, o) => sum + o.fair_probability, 0);
+
+    expect(implied).toBeGreaterThan(1);
+    expect(fair).toBeCloseTo(1, 3);
+    // Proportional removal keeps the ordering and ratios
+    expect(priced[0].fair_probability / priced[2].fair_probability).toBeCloseTo((100 / 220) / (100 / 300), 2);
+  });
+});
+
+describe('evaluateBet', () => {
+  const [priced] = priceOdds([{ player_name: 'A', american_odds: 400 }]);
+
+  it('computes EV and full Kelly for a positive edge', () => {
+    const bet = evaluateBet(priced, 0.3);
+    // +400 pays 4x: 0.3 * 20 - 0.7 * 5
+    expect(bet.ev_per_5).toBeCloseTo(2.5);
+    expect(bet.kelly_fraction).toBeCloseTo((4 * 0.3 - 0.7) / 4, 4);
+    expect(bet.edge).toBeCloseTo(0.3 - priced.fair_probability, 4);
+  });
+
+  it('clamps Kelly at 0 when EV is negative', () => {
+    const bet = evaluateBet(priced, 0.1);
+    expect(bet.ev_per_5).toBeCloseTo(-2.5);
+    expect(bet.kelly_fraction).toBe(0);
+  });
+});
+
+describe('findPlayerOdds', () => {
+  it('matches by id before name', () => {
+    const priced = priceOdds([
+      { player_name: 'Jayson Tatum', american_odds: 300 },
+      { player_name: 'Someone', american_odds: 500, player_id: '42' }
+    ]);
+    expect(findPlayerOdds(priced, '42', 'Jayson Tatum')?.player_name).toBe('Someone');
+    expect(findPlayerOdds(priced, '7', 'jayson tatum')?.american_odds).toBe(300);
+  });
+});
+
+describe('parseOddsCsv', () => {
+  it('reads rows with a header in any column order', () => {
+    const csv = 'book,odds,player,player_id\nDK,+450,Luka Doncic,3945274\nFD,-120,Nikola Jokic,';
+    expect(parseOddsCsv(csv)).toEqual([
+      { player_name: 'Luka Doncic', american_odds: 450, book: 'DK', player_id: '3945274' },
+      { player_name: 'Nikola Jokic', american_odds: -120, book: 'FD', player_id: undefined }
+    ]);
+  });
+
+  it('reads headerless rows and skips malformed ones', () => {
+    const csv = [
+      'Luka Doncic,+450',
+      'No Odds Player,',
+      ',+300',
+      'Bad Odds,+50',
+      'Text Odds,evens',
+      'Nikola Jokic,600,MGM'
+    ].join('\r\n');
+    expect(parseOddsCsv(csv).map(o => [o.player_name, o.american_odds, o.book])).toEqual([
+      ['Luka Doncic', 450, undefined],
+      ['Nikola Jokic', 600, 'MGM']
+    ]);
+  });
+
+  it('returns nothing for an empty file', () => {
+    expect(parseOddsCsv('\n\n')).toEqual([]);
+  });
+});
+
+describe('parseOddsJson', () => {
+  it('accepts the alternate field names and skips malformed rows', () => {
+    const rows = [
+      { player_name: 'Luka Doncic', american_odds: 450, book: 'DK' },
+      { player: 'Nikola Jokic', odds: '+600', player_id: 203999 },
+      { name: 'No Odds' },
+      { odds: 300 },
+      { name: 'Bad Odds', odds: 99 },
+      null,
+      'Luka Doncic,+450'
+    ];
+    expect(parseOddsJson(rows)).toEqual([
+      { player_name: 'Luka Doncic', american_odds: 450, book: 'DK', player_id: undefined },
+      { player_name: 'Nikola Jokic', american_odds: 600, book: undefined, player_id: '203999' }
+    ]);
+  });
+
+  it('returns nothing for a non-array body', () => {
+    expect(parseOddsJson({ odds: [] })).toEqual([]);
+  });
+});
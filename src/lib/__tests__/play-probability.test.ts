@@ -0,0 +1,121 @@
+import { describe, it, expect } from 'vitest';
+import {
+  DEFAULT_PLAY_PROBABILITIES,
+  fitPlayProbabilities,
+  getPlayProbability,
+  injuryCategory,
+  PlayOutcome,
+  reportOutcomes
+} from '../play-probability';
+import { InjuryReportEntry } from '../injury-history';
+import { BoxScoreLine } from '../box-scores';
+import { InjuryStatus } from '../injuries';
+
+const logit = (p: number) => Math.log(p / (1 - p));
+const sigmoid = (x: number) => 1 / (1 + Math.exp(-x));
+
+const outcomes = (n: number, status: InjuryStatus, injury_type: string, played: number): PlayOutcome[] =>
+  Array.from({ length: n }, (_, i) => ({ status, injury_type, played: i < played }));
+
+describe('injuryCategory', () => {
+  it('matches keywords in the injury type, first category first', () => {
+    expect(injuryCategory('Rest')).toBe('rest');
+    expect(injuryCategory('Illness')).toBe('illness');
+    expect(injuryCategory('Personal Reasons')).toBe('personal');
+    expect(injuryCategory('Concussion Protocol')).toBe('head');
+    expect(injuryCategory('Left Ankle Sprain')).toBe('lower_body');
+    expect(injuryCategory('Right Thumb')).toBe('upper_body');
+    expect(injuryCategory('Rest (Knee)')).toBe('rest');
+  });
+
+  it('falls back to other', () => {
+    expect(injuryCategory('Back')).toBe('other');
+    expect(injuryCategory('')).toBe('other');
+    expect(injuryCategory()).toBe('other');
+  });
+});
+
+describe('getPlayProbability', () => {
+  const table = DEFAULT_PLAY_PROBABILITIES;
+
+  it('uses the status rate for HEALTHY and OUT whatever the injury', () => {
+    expect(getPlayProbability(table)).toBe(1);
+    expect(getPlayProbability(table, 'OUT', 'Illness')).toBe(0);
+    expect(getPlayProbability(table, 'HEALTHY', 'Rest')).toBe(1);
+  });
+
+  it('shifts uncertain statuses by injury type on the log-odds scale', () => {
+    expect(getPlayProbability(table, 'QUESTIONABLE', 'Back')).toBe(0.55);
+    expect(getPlayProbability(table, 'QUESTIONABLE', 'Rest')).toBeCloseTo(sigmoid(logit(0.55) - 0.8), 3);
+    expect(getPlayProbability(table, 'QUESTIONABLE', 'Illness')).toBeCloseTo(sigmoid(logit(0.55) + 0.4), 3);
+  });
+});
+
+describe('fitPlayProbabilities', () => {
+  it('keeps the prior for statuses and categories with no observations', () => {
+    const fit = fitPlayProbabilities([], 0);
+    expect(fit.status).toEqual(DEFAULT_PLAY_PROBABILITIES.status);
+    expect(fit.category_shift).toEqual(DEFAULT_PLAY_PROBABILITIES.category_shift);
+    expect(fit.fit).toMatchObject({ slates: 0, listings: 0, observed: { QUESTIONABLE: { listed: 0, played: 0 } } });
+  });
+
+  it('shrinks status rates toward the defaults by 20 pseudo-listings', () => {
+    const fit = fitPlayProbabilities(outcomes(20, 'QUESTIONABLE', 'Back', 20), 5);
+    // (20 played + 20 × 0.55) / 40
+    expect(fit.status.QUESTIONABLE).toBe(0.775);
+    expect(fit.status.DOUBTFUL).toBe(DEFAULT_PLAY_PROBABILITIES.status.DOUBTFUL);
+    expect(fit.fit?.observed.QUESTIONABLE).toEqual({ listed: 20, played: 20 });
+
+    // Many listings outweigh the prior
+    const large = fitPlayProbabilities(outcomes(1000, 'QUESTIONABLE', 'Back', 300), 100);
+    expect(large.status.QUESTIONABLE).toBeCloseTo((300 + 11) / 1020, 3);
+  });
+
+  it('refits an observed category shift toward its prior', () => {
+    // Questionable with rest: nobody played
+    const fit = fitPlayProbabilities(outcomes(20, 'QUESTIONABLE', 'Rest', 0), 5);
+    const base = fit.status.QUESTIONABLE;  // (0 + 11) / 40
+    const prior = sigmoid(logit(base) - 0.8);
+    const rate = (0 + 20 * prior) / 40;
+
+    expect(fit.category_shift.rest).toBeCloseTo(logit(rate) - logit(base), 2);
+    expect(fit.category_shift.rest).toBeLessThan(DEFAULT_PLAY_PROBABILITIES.category_shift.rest);
+    // Categories nobody was listed with keep their default shift
+    expect(fit.category_shift.illness).toBe(DEFAULT_PLAY_PROBABILITIES.category_shift.illness);
+  });
+
+  it('ignores HEALTHY and OUT listings', () => {
+    const fit = fitPlayProbabilities([...outcomes(10, 'OUT', 'Rest', 0), ...outcomes(10, 'HEALTHY', 'Rest', 10)], 1);
+    expect(fit.status).toEqual(DEFAULT_PLAY_PROBABILITIES.status);
+    expect(fit.category_shift.rest).toBe(DEFAULT_PLAY_PROBABILITIES.category_shift.rest);
+  });
+});
+
+describe('reportOutcomes', () => {
+  const entry = (player_id: string | undefined, player_name: string, team_abbrev: string, status: InjuryStatus): InjuryReportEntry =>
+    ({ player_id, player_name, team_abbrev, status, injury_type: 'Ankle' });
+  const line = (player_id: string, player_name: string, minutes: number): BoxScoreLine => ({
+    player_id, player_name, team_abbrev: 'BOS', opponent_abbrev: 'NYK', position: 'G', starter: false, minutes,
+    did_not_play: minutes === 0, dnp_reason: minutes === 0 ? "DNP-COACH'S DECISION" : null, ejected: false,
+    stats: { points: 0, rebounds: 0, assists: 0, steals: 0, blocks: 0, turnovers: 0, three_pointers: 0 }
+  });
+
+  it('marks who logged minutes, skipping certain statuses and idle teams', () => {
+    const report = {
+      a: entry('a', 'Played Guard', 'BOS', 'QUESTIONABLE'),
+      b: entry('b', 'Benched Wing', 'BOS', 'DOUBTFUL'),
+      c: entry('c', 'Missing Center', 'BOS', 'QUESTIONABLE'),
+      d: entry('d', 'Out Forward', 'BOS', 'OUT'),
+      e: entry('e', 'Idle Guard', 'LAL', 'QUESTIONABLE'),
+      nameonly: entry(undefined, 'Name Only', 'BOS', 'PROBABLE')
+    };
+    const lines = [line('a', 'Played Guard', 30), line('b', 'Benched Wing', 0), line('x', 'Name Only', 12)];
+
+    expect(reportOutcomes(report, lines)).toEqual([
+      { status: 'QUESTIONABLE', injury_type: 'Ankle', played: true },
+      { status: 'DOUBTFUL', injury_type: 'Ankle', played: false },
+      { status: 'QUESTIONABLE', injury_type: 'Ankle', played: false },
+      { status: 'PROBABLE', injury_type: 'Ankle', played: true }
+    ]);
+  });
+});
@@ -0,0 +1,38 @@
+import { describe, it, expect } from 'vitest';
+import { parsePositiveInt, parseInteger, parseNumber } from '../query-params';
+
+describe('parsePositiveInt', () => {
+  it('falls back when the parameter is missing', () => {
+    expect(parsePositiveInt(null, 8)).toBe(8);
+    expect(parsePositiveInt('', undefined)).toBeUndefined();
+  });
+
+  it('rejects non-numeric, partial and non-positive values', () => {
+    for (const value of ['abc', '8abc', '1.5', '0', '-3', '1e3']) {
+      expect(parsePositiveInt(value, 8)).toBeNull();
+    }
+  });
+
+  it('parses positive integers', () => {
+    expect(parsePositiveInt('12', 8)).toBe(12);
+  });
+});
+
+describe('parseInteger', () => {
+  it('accepts negative integers', () => {
+    expect(parseInteger('-42', undefined)).toBe(-42);
+    expect(parseInteger('4.2', undefined)).toBeNull();
+  });
+});
+
+describe('parseNumber', () => {
+  it('accepts decimals and rejects negatives', () => {
+    expect(parseNumber('0.5', undefined)).toBe(0.5);
+    expect(parseNumber('-1', undefined)).toBeNull();
+  });
+
+  it('rejects zero when positive', () => {
+    expect(parseNumber('0', 1)).toBe(0);
+    expect(parseNumber('0', 1, { positive: true })).toBeNull();
+  });
+});
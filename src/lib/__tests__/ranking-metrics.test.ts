@@ -0,0 +1,90 @@
+import { describe, it, expect } from 'vitest';
+import { bootstrapMean, computeRankingMetrics, ndcgAtK, spearman, RankedOutcome } from '../ranking-metrics';
+
+// Outcomes for players predicted in `predictedOrder` (actual ranks), with
+// actual points 50, 40, 30, ... by actual rank
+function outcomes(predictedOrder: number[], winProbability = 1 / predictedOrder.length): RankedOutcome[] {
+  return predictedOrder.map((actualRank, i) => ({
+    predicted_rank: i + 1,
+    actual_rank: actualRank,
+    actual_points: 60 - actualRank * 10,
+    win_probability: winProbability
+  }));
+}
+
+describe('computeRankingMetrics', () => {
+  it('is null when no predictions matched, rather than a perfect score', () => {
+    expect(computeRankingMetrics([], [50, 40, 30])).toBeNull();
+  });
+
+  it('scores a perfect ranking', () => {
+    const metrics = computeRankingMetrics(outcomes([1, 2, 3]), [50, 40, 30])!;
+    expect(metrics.winner_rank).toBe(1);
+    expect(metrics.ndcg_at_10).toBeCloseTo(1);
+    expect(metrics.spearman).toBe(1);
+    expect(metrics.avg_rank_error).toBe(0);
+  });
+
+  it('charges an unpredicted winner', () => {
+    const metrics = computeRankingMetrics(outcomes([2, 3], 0.5), [50, 40, 30])!;
+    expect(metrics.winner_rank).toBe(3);
+    expect(metrics.winner_log_loss).toBeCloseTo(-Math.log(1e-4));
+    expect(metrics.winner_brier).toBeCloseTo(0.25 + 0.25 + 1);
+  });
+});
+
+describe('ndcgAtK', () => {
+  it('discounts gains by predicted position against the ideal order', () => {
+    const dcg = (gains: number[]) => gains.reduce((sum, g, i) => sum + g / Math.log2(i + 2), 0);
+    expect(ndcgAtK(outcomes([3, 2, 1]), [50, 40, 30])).toBeCloseTo(dcg([30, 40, 50]) / dcg([50, 40, 30]));
+  });
+
+  it('only counts the top k', () => {
+    expect(ndcgAtK(outcomes([3, 1, 2]), [50, 40, 30], 1)).toBeCloseTo(30 / 50);
+  });
+
+  it('is 0 when nobody scored', () => {
+    expect(ndcgAtK(outcomes([1]), [0, 0])).toBe(0);
+  });
+});
+
+describe('spearman', () => {
+  it('is 1 for the same order and -1 for the reverse', () => {
+    expect(spearman(outcomes([1, 2, 3, 4]))).toBe(1);
+    expect(spearman(outcomes([4, 3, 2, 1]))).toBe(-1);
+  });
+
+  it('re-ranks within the matched players', () => {
+    // Actual ranks 2, 5, 9 are 1, 2, 3 among the matched players
+    expect(spearman(outcomes([2, 5, 9]))).toBe(1);
+  });
+
+  it('is 0 with fewer than two players', () => {
+    expect(spearman(outcomes([1]))).toBe(0);
+  });
+});
+
+describe('bootstrapMean', () => {
+  const values = [0.1, 0.4, 0.35, 0.8, 0.2, 0.55, 0.6, 0.3];
+
+  it('brackets the mean and is reproducible for a seed', () => {
+    const ci = bootstrapMean(values);
+    expect(ci.mean).toBeCloseTo(values.reduce((a, b) => a + b) / values.length);
+    expect(ci.ci_low).toBeLessThan(ci.mean);
+    expect(ci.ci_high).toBeGreaterThan(ci.mean);
+    expect(bootstrapMean(values)).toEqual(ci);
+    expect(bootstrapMean(values, 1000, 0.95, 7)).not.toEqual(ci);
+  });
+
+  it('narrows at lower confidence', () => {
+    const wide = bootstrapMean(values, 1000, 0.95);
+    const narrow = bootstrapMean(values, 1000, 0.5);
+    expect(narrow.ci_high - narrow.ci_low).toBeLessThan(wide.ci_high - wide.ci_low);
+  });
+
+  it('collapses for constant, single and empty inputs', () => {
+    expect(bootstrapMean([2, 2, 2])).toEqual({ mean: 2, ci_low: 2, ci_high: 2 });
+    expect(bootstrapMean([3])).toEqual({ mean: 3, ci_low: 3, ci_high: 3 });
+    expect(bootstrapMean([])).toEqual({ mean: 0, ci_low: 0, ci_high: 0 });
+  });
+});
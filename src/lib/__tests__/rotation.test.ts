@@ -0,0 +1,73 @@
+import { describe, it, expect } from 'vitest';
+import { getRotationMinutes, recentTeamGames, selectRotation } from '../rotation';
+import { gameLog } from './fixtures/players';
+
+// Ten team games; event ids '1'..'10', oldest first
+const full = gameLog(Array.from({ length: 10 }, () => ({ minutes: 30 })));
+
+describe('recentTeamGames', () => {
+  it('takes the newest games across every log, newest first', () => {
+    const early = full.slice(0, 4);
+    const late = full.slice(6);
+    expect(recentTeamGames([early, late, null], 3)).toEqual(['10', '9', '8']);
+    expect(recentTeamGames([early, null])).toEqual(['4', '3', '2', '1']);
+  });
+});
+
+describe('getRotationMinutes', () => {
+  const teamGames = ['10', '9', '8', '7', '6'];
+
+  it('averages over the team\'s recent games', () => {
+    expect(getRotationMinutes(full, undefined, teamGames)).toEqual({ minutes: 30, source: 'recent' });
+  });
+
+  it('counts team games missing from the log as 0 minutes', () => {
+    // Played the first six games, then sat out the last four
+    const injured = full.slice(0, 6);
+    expect(getRotationMinutes(injured, undefined, teamGames).minutes).toBe(6);
+  });
+
+  it('falls back to the player\'s own last games without a team schedule', () => {
+    const log = gameLog([{ minutes: 10 }, { minutes: 20 }, { minutes: 30 }]);
+    expect(getRotationMinutes(log).minutes).toBe(20);
+  });
+
+  it('falls back to season MPG, then to none', () => {
+    expect(getRotationMinutes(null, 28.5)).toEqual({ minutes: 28.5, source: 'season' });
+    expect(getRotationMinutes([], 0)).toEqual({ minutes: 0, source: 'none' });
+  });
+});
+
+describe('selectRotation', () => {
+  it('ranks by recent minutes and keeps the top depth', () => {
+    const picks = selectRotation([
+      { athlete: 'bench', gameLog: full.map(e => ({ ...e, minutes: 12 })) },
+      { athlete: 'starter', gameLog: full.map(e => ({ ...e, minutes: 34 })) },
+      { athlete: 'sixth', gameLog: full.map(e => ({ ...e, minutes: 24 })) }
+    ], 2);
+    expect(picks.map(p => p.athlete)).toEqual(['starter', 'sixth']);
+  });
+
+  it('drops a player who has missed the team\'s recent games', () => {
+    const picks = selectRotation([
+      { athlete: 'injured', gameLog: full.slice(0, 5).map(e => ({ ...e, minutes: 36 })) },
+      { athlete: 'healthy', gameLog: full.map(e => ({ ...e, minutes: 20 })) }
+    ], 1);
+    expect(picks.map(p => p.athlete)).toEqual(['healthy']);
+  });
+
+  it('breaks minute ties by recent starts, then roster order', () => {
+    const log = full.map(e => ({ ...e, minutes: 26 }));
+    const picks = selectRotation([
+      { athlete: 'a', gameLog: log, recentStarts: 2 },
+      { athlete: 'b', gameLog: log.map(e => ({ ...e, minutes: 26.3 })), recentStarts: 9 },
+      { athlete: 'c', gameLog: log, recentStarts: 2 }
+    ]);
+    expect(picks.map(p => p.athlete)).toEqual(['b', 'a', 'c']);
+  });
+
+  it('keeps the default depth for a non-finite depth', () => {
+    const candidates = Array.from({ length: 10 }, (_, i) => ({ athlete: i, gameLog: null, seasonMpg: 30 - i }));
+    expect(selectRotation(candidates, NaN)).toHaveLength(8);
+  });
+});
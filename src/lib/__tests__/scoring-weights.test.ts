@@ -0,0 +1,69 @@
+import { describe, it, expect } from 'vitest';
+import {
+  blendedScore,
+  DEFAULT_SCORING_WEIGHTS,
+  fitScoringWeights,
+  ScoringTrainingRow,
+  ScoringWeights,
+  solveLinearSystem
+} from '../scoring-weights';
+import { makePlayer } from './fixtures/players';
+
+describe('solveLinearSystem', () => {
+  it('solves a system that needs pivoting', () => {
+    // x = 1, y = 2, z = 3, with a zero in the first pivot position
+    const a = [[0, 2, 1], [1, 1, 1], [2, 1, 3]];
+    const x = solveLinearSystem(a, [7, 6, 13]);
+    expect(x[0]).toBeCloseTo(1);
+    expect(x[1]).toBeCloseTo(2);
+    expect(x[2]).toBeCloseTo(3);
+  });
+
+  it('leaves unknowns of a singular system at 0', () => {
+    const x = solveLinearSystem([[2, 0], [0, 0]], [4, 0]);
+    expect(x).toEqual([2, 0]);
+  });
+});
+
+describe('fitScoringWeights', () => {
+  // A table whose stats and context scores agree for every player, so both
+  // models' blends reproduce actual PRA: points and pace move together
+  const truth: ScoringWeights = {
+    stats: { ...DEFAULT_SCORING_WEIGHTS.stats, points: 1.5 },
+    context: { ...DEFAULT_SCORING_WEIGHTS.context, base: 32, pace: 1.5 },
+    fit: null
+  };
+  const rows: ScoringTrainingRow[] = Array.from({ length: 20 }, (_, i) => {
+    const ppg = 10 + i;
+    // mpg 0 keeps the minutes rescale at 1
+    const player = makePlayer({ player_id: String(i), ppg, mpg: 0, projected_possessions: 99 + ppg - 20 });
+    return { date: `2025-01-${String(1 + i % 4).padStart(2, '0')}`, player, actual_pra: blendedScore(player, truth, 'v1') };
+  });
+
+  it('builds data both blends fit exactly', () => {
+    for (const r of rows) expect(blendedScore(r.player, truth, 'v2')).toBeCloseTo(r.actual_pra);
+  });
+
+  it('recovers the coefficients and the intercept', () => {
+    const fit = fitScoringWeights(rows, 0);
+    expect(fit.stats.points).toBeCloseTo(1.5, 2);
+    expect(fit.context.pace).toBeCloseTo(1.5, 2);
+    expect(fit.context.base).toBeCloseTo(32, 1);
+    expect(fit.fit).toMatchObject({ slates: 4, rows: 20, date_range: { start: '2025-01-01', end: '2025-01-04' } });
+    expect(fit.fit!.r_squared.v1).toBeCloseTo(1, 3);
+    expect(fit.fit!.r_squared.v2).toBeCloseTo(1, 3);
+  });
+
+  it('keeps defaults for features that never vary', () => {
+    const fit = fitScoringWeights(rows, 0);
+    expect(fit.stats.rebounds).toBe(DEFAULT_SCORING_WEIGHTS.stats.rebounds);
+    expect(fit.context.b2b).toBe(DEFAULT_SCORING_WEIGHTS.context.b2b);
+    expect(fit.context.home).toBe(DEFAULT_SCORING_WEIGHTS.context.home);
+  });
+
+  it('shrinks coefficients under the ridge penalty', () => {
+    const fit = fitScoringWeights(rows, 1);
+    expect(Math.abs(fit.stats.points)).toBeLessThan(1.5);
+    expect(fit.fit!.r_squared.v1).toBeLessThan(1);
+  });
+});
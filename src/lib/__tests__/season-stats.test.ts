@@ -0,0 +1,80 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { promises as fs } from 'fs';
+import { resolveSeasonStats, saveSeasonStatsCache } from '../season-stats';
+import { gameLog } from './fixtures/players';
+
+// No cache file on disk; writes are recorded, not made
+vi.mock('fs', () => ({
+  promises: {
+    readFile: vi.fn(async () => { throw new Error('ENOENT'); }),
+    writeFile: vi.fn(async () => undefined),
+    mkdir: vi.fn(async () => undefined)
+  }
+}));
+
+// ESPN athlete stats payload with the given averages row
+function seasonPayload(stats: Record<string, string>) {
+  const labels = Object.keys(stats);
+  return { categories: [{ name: 'averages', labels, statistics: [{ stats: labels.map(l => stats[l]) }] }] };
+}
+
+function stubFetch(payload: unknown | null) {
+  vi.stubGlobal('fetch', vi.fn(async () => payload
+    ? { ok: true, status: 200, json: async () => payload }
+    : { ok: false, status: 404, json: async () => ({}) }));
+}
+
+describe('resolveSeasonStats', () => {
+  beforeEach(() => {
+    vi.unstubAllGlobals();
+    vi.mocked(fs.writeFile).mockClear();
+  });
+
+  it('takes every field the roster has without calling ESPN', async () => {
+    stubFetch(null);
+    const stats = await resolveSeasonStats('r1', { ppg: '25.1', rpg: '7.2', apg: '4.4', fgp: '0.49' }, null);
+    expect(stats).toMatchObject({ ppg: 25.1, rpg: 7.2, apg: 4.4, fgp: 0.49 });
+    expect(stats.stats_provenance).toEqual({ ppg: 'espn_roster', rpg: 'espn_roster', apg: 'espn_roster', fgp: 'espn_roster' });
+    expect(fetch).not.toHaveBeenCalled();
+  });
+
+  it('fills missing roster fields from ESPN season averages', async () => {
+    stubFetch(seasonPayload({ PTS: '18.0', REB: '9.5', AST: '2.1', 'FG%': '55.0' }));
+    const stats = await resolveSeasonStats('s1', { ppg: '19.0' }, null);
+    expect(stats).toMatchObject({ ppg: 19, rpg: 9.5, apg: 2.1, fgp: 0.55 });
+    expect(stats.stats_provenance).toEqual({ ppg: 'espn_roster', rpg: 'espn_season', apg: 'espn_season', fgp: 'espn_season' });
+  });
+
+  it('falls back to the game log when ESPN has nothing', async () => {
+    stubFetch(null);
+    const log = gameLog([{ points: 20, rebounds: 4, assists: 6 }, { points: 30, rebounds: 6, assists: 8 }]);
+    const stats = await resolveSeasonStats('g1', undefined, log);
+    expect(stats).toMatchObject({ ppg: 25, rpg: 5, apg: 7, fgp: 0.5 });
+    expect(stats.stats_provenance).toEqual({ ppg: 'game_log', rpg: 'game_log', apg: 'game_log', fgp: 'game_log' });
+  });
+
+  it('falls back to the last cached ESPN averages, then to unknown', async () => {
+    stubFetch(seasonPayload({ PTS: '12.0', REB: '3.0' }));
+    await resolveSeasonStats('c1', undefined, null);
+
+    stubFetch(null);
+    const stats = await resolveSeasonStats('c1', undefined, null);
+    expect(stats).toMatchObject({ ppg: 12, rpg: 3, apg: 0, fgp: 0 });
+    expect(stats.stats_provenance).toEqual({ ppg: 'cache', rpg: 'cache', apg: 'unknown', fgp: 'unknown' });
+  });
+
+  it('writes the cache once per save, not per player', async () => {
+    stubFetch(seasonPayload({ PTS: '10.0', REB: '2.0', AST: '1.0', 'FG%': '40.0' }));
+    await Promise.all(['w1', 'w2', 'w3'].map(id => resolveSeasonStats(id, undefined, null)));
+    expect(fs.writeFile).not.toHaveBeenCalled();
+
+    await saveSeasonStatsCache();
+    expect(fs.writeFile).toHaveBeenCalledTimes(1);
+    const written = JSON.parse(vi.mocked(fs.writeFile).mock.calls[0][1] as string);
+    expect(Object.keys(written)).toEqual(expect.arrayContaining(['w1', 'w2', 'w3']));
+
+    // Nothing new to save
+    await saveSeasonStatsCache();
+    expect(fs.writeFile).toHaveBeenCalledTimes(1);
+  });
+});
@@ -0,0 +1,75 @@
+import { describe, it, expect } from 'vitest';
+import { blowoutRole, gameTotalSd, simulateSlate } from '../simulator';
+import { makePrediction } from './fixtures/players';
+
+describe('gameTotalSd', () => {
+  it('is ~7.5% for a league-average game or when nothing is known', () => {
+    expect(gameTotalSd(225, 100)).toBeCloseTo(0.0756, 3);
+    expect(gameTotalSd(null, undefined)).toBeCloseTo(0.0756, 3);
+  });
+
+  it('swings less, relatively, in higher-scoring games', () => {
+    expect(gameTotalSd(245, 100)).toBeLessThan(gameTotalSd(210, 100));
+  });
+
+  it('widens with more possessions at the same total', () => {
+    expect(gameTotalSd(225, 104)).toBeGreaterThan(gameTotalSd(225, 96));
+  });
+
+  it('estimates the total from pace when there is no O/U', () => {
+    expect(gameTotalSd(null, 105)).toBeLessThan(gameTotalSd(null, 95));
+  });
+
+  it('stays within bounds', () => {
+    expect(gameTotalSd(120, 100)).toBe(0.11);
+    expect(gameTotalSd(400, 90)).toBe(0.05);
+  });
+});
+
+describe('blowoutRole', () => {
+  it('splits starters, rotation and bench by projected minutes', () => {
+    expect(blowoutRole(34)).toBe('starter');
+    expect(blowoutRole(21)).toBe('rotation');
+    expect(blowoutRole(12)).toBe('bench');
+  });
+});
+
+describe('simulateSlate', () => {
+  const slate = [
+    makePrediction({ player_id: 'a', player_name: 'A', projected_pra: 42 }),
+    makePrediction({ player_id: 'b', player_name: 'B', projected_pra: 38 }),
+    makePrediction({ player_id: 'c', player_name: 'C', projected_pra: 35, team: 'LAL', opponent: 'DEN' }),
+    makePrediction({ player_id: 'd', player_name: 'D', projected_pra: 30, team: 'DEN', opponent: 'LAL' }),
+    makePrediction({ player_id: 'e', player_name: 'E', projected_pra: 12, play_probability: 0.5 })
+  ];
+
+  it('gives win and top-3 probabilities that sum to 1 and 3', () => {
+    const { players } = simulateSlate(slate, { iterations: 2000, seed: 7 });
+    const sum = (fn: (p: typeof players[number]) => number) => players.reduce((total, p) => total + fn(p), 0);
+    expect(sum(p => p.win_probability)).toBeCloseTo(1, 3);
+    expect(sum(p => p.top3_probability)).toBeCloseTo(3, 3);
+    expect(players[0].player_id).toBe('a');
+  });
+
+  it('is reproducible for a seed', () => {
+    const first = simulateSlate(slate, { iterations: 500, seed: 11 });
+    expect(simulateSlate(slate, { iterations: 500, seed: 11 })).toEqual(first);
+    expect(simulateSlate(slate, { iterations: 500, seed: 12 }).players).not.toEqual(first.players);
+  });
+
+  it('never lets a player who is sure to sit win', () => {
+    const out = makePrediction({ player_id: 'x', player_name: 'X', projected_pra: 0, play_probability: 0 });
+    const { players } = simulateSlate([...slate, out], { iterations: 500, seed: 3 });
+    expect(players.find(p => p.player_id === 'x')).toMatchObject({ win_probability: 0, mean_pra: 0 });
+  });
+
+  it('keeps starters and bench at their projections in lopsided games', () => {
+    const context = { spread: -25, over_under: 225, is_home: true, projected_possessions: 100 };
+    const { players } = simulateSlate([
+      makePrediction({ player_id: 's', projected_pra: 40, game_context: context, stats: { projected_minutes: 36 } }),
+      makePrediction({ player_id: 'r', projected_pra: 12, game_context: context, stats: { projected_minutes: 12 } })
+    ], { iterations: 20000, seed: 5 });
+    expect(players.find(p => p.player_id === 's')!.mean_pra).toBeCloseTo(40, 0);
+    expect(players.find(p => p.player_id === 'r')!.mean_pra).toBeCloseTo(12, 0);
+  });
+});
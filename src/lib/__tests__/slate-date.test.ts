@@ -0,0 +1,45 @@
+import { describe, it, expect } from 'vitest';
+import { getSlateDate, addDays, getSeasonYear, isValidSlateDate } from '../slate-date';
+
+describe('getSlateDate', () => {
+  it('keeps the previous slate until 4am Eastern, past midnight', () => {
+    expect(getSlateDate(new Date('2025-01-15T00:30:00Z'))).toBe('2025-01-14');  // 7:30pm EST
+    expect(getSlateDate(new Date('2025-01-15T05:00:00Z'))).toBe('2025-01-14');  // midnight EST
+    expect(getSlateDate(new Date('2025-01-15T08:59:00Z'))).toBe('2025-01-14');  // 3:59am EST
+    expect(getSlateDate(new Date('2025-01-15T09:00:00Z'))).toBe('2025-01-15');  // 4:00am EST
+  });
+
+  it('rolls over at 4am EDT on the spring-forward night', () => {
+    expect(getSlateDate(new Date('2024-03-10T07:59:00Z'))).toBe('2024-03-09');  // 3:59am EDT
+    expect(getSlateDate(new Date('2024-03-10T08:00:00Z'))).toBe('2024-03-10');  // 4:00am EDT
+  });
+
+  it('rolls over at 4am EST on the fall-back night', () => {
+    expect(getSlateDate(new Date('2024-11-03T08:00:00Z'))).toBe('2024-11-02');  // 3:00am EST
+    expect(getSlateDate(new Date('2024-11-03T09:00:00Z'))).toBe('2024-11-03');  // 4:00am EST
+  });
+});
+
+describe('addDays', () => {
+  it('crosses month, year and DST boundaries', () => {
+    expect(addDays('2024-12-31', 1)).toBe('2025-01-01');
+    expect(addDays('2024-03-01', -1)).toBe('2024-02-29');
+    expect(addDays('2024-03-09', 1)).toBe('2024-03-10');
+    expect(addDays('2024-11-03', -1)).toBe('2024-11-02');
+  });
+});
+
+describe('getSeasonYear', () => {
+  it('assigns October-December to the next year\'s season', () => {
+    expect(getSeasonYear('2024-10-22')).toBe(2025);
+    expect(getSeasonYear('2025-04-13')).toBe(2025);
+  });
+});
+
+describe('isValidSlateDate', () => {
+  it('rejects malformed and impossible dates', () => {
+    expect(isValidSlateDate('2025-02-28')).toBe(true);
+    expect(isValidSlateDate('2025-02-29')).toBe(false);
+    expect(isValidSlateDate('20250228')).toBe(false);
+  });
+});
@@ -0,0 +1,24 @@
+import { describe, it, expect } from 'vitest';
+import { isSnapshotLocked } from '../snapshots';
+
+describe('isSnapshotLocked', () => {
+  const now = new Date('2025-01-15T23:00:00Z');  // 6pm EST, slate 2025-01-15
+
+  it('allows saves for today\'s slate before the first tip', () => {
+    expect(isSnapshotLocked({ date: '2025-01-15', first_tip: '2025-01-16T00:00:00Z' }, now)).toBe(false);
+    expect(isSnapshotLocked({ date: '2025-01-15', first_tip: null }, now)).toBe(false);
+  });
+
+  it('locks once the first game has tipped', () => {
+    expect(isSnapshotLocked({ date: '2025-01-15', first_tip: '2025-01-15T23:00:00Z' }, now)).toBe(true);
+  });
+
+  it('locks past slates even without a tip time', () => {
+    expect(isSnapshotLocked({ date: '2025-01-14', first_tip: null }, now)).toBe(true);
+    expect(isSnapshotLocked({ date: '2025-01-14', first_tip: '2025-01-17T00:00:00Z' }, now)).toBe(true);
+  });
+
+  it('allows future slates', () => {
+    expect(isSnapshotLocked({ date: '2025-01-16', first_tip: '2025-01-17T00:30:00Z' }, now)).toBe(false);
+  });
+});
@@ -0,0 +1,55 @@
+import { describe, it, expect } from 'vitest';
+import { TeamMetricsTable, getTeamMetrics, leagueAverageMetrics, projectGamePossessions } from '../team-metrics';
+import { getPositionDefenseModifier, PositionDefenseTable } from '../position-defense';
+
+const table: TeamMetricsTable = {
+  season: 2025,
+  updated_at: '2025-01-01T00:00:00.000Z',
+  source: 'bundled',
+  teams: {
+    BOS: { def_rating: 110, off_rating: 120, pace: 96 },
+    NYK: { def_rating: 114, off_rating: 116, pace: 100 },
+    SAC: { def_rating: 116, off_rating: 114, pace: 104 }
+  }
+};
+
+describe('getTeamMetrics', () => {
+  it('maps ESPN short codes and falls back to the table average', () => {
+    expect(getTeamMetrics(table, 'NY').def_rating).toBe(114);
+    expect(getTeamMetrics(table, 'LAL')).toEqual(leagueAverageMetrics(table));
+    expect(leagueAverageMetrics(table)).toEqual({ def_rating: 113.3, pace: 100 });
+  });
+
+  it('uses fixed fallbacks without a table', () => {
+    expect(getTeamMetrics(null, 'BOS')).toEqual({ def_rating: 112, pace: 100 });
+  });
+});
+
+describe('projectGamePossessions', () => {
+  it('combines both teams\' pace around the league average', () => {
+    expect(projectGamePossessions(table, 'BOS', 'SAC')).toBe(99.8);
+  });
+
+  it('blends in the possessions the total implies', () => {
+    // BOS rating 120 + 116 - 113.3 = 122.7, SAC 114 + 110 - 113.3 = 110.7
+    expect(projectGamePossessions(table, 'BOS', 'SAC', 233.4)).toBe(99.9);
+  });
+});
+
+describe('getPositionDefenseModifier', () => {
+  const positions: PositionDefenseTable = {
+    season: 2025,
+    as_of: '2025-01-15',
+    updated_at: '2025-01-15T00:00:00.000Z',
+    lookback_days: 60,
+    shrinkage_minutes: 500,
+    league: { G: 30, F: 28, C: 32 },
+    teams: { NYK: { G: { minutes: 900, pra_per_36: 33, modifier: 1.08 } } }
+  };
+
+  it('looks up the opponent and position group', () => {
+    expect(getPositionDefenseModifier(positions, 'NY', 'PG')).toBe(1.08);
+    expect(getPositionDefenseModifier(positions, 'NYK', 'C')).toBe(1);
+    expect(getPositionDefenseModifier(null, 'NYK', 'PG')).toBe(1);
+  });
+});
@@ -0,0 +1,57 @@
+import { describe, it, expect } from 'vitest';
+import { computeTeammateSplit, RosterLog } from '../teammate-splits';
+import { logEntry } from './fixtures/players';
+
+const range = (from: number, to: number) => Array.from({ length: to - from + 1 }, (_, i) => from + i);
+const date = (day: number) => `2025-01-${String(day).padStart(2, '0')}`;
+
+// Team games are numbered by day; old-team games get their own event ids
+function rosterLog(player_id: string, games: Array<{ day: number; team: string; pra?: number }>): RosterLog {
+  return {
+    player_id,
+    name: `Player ${player_id.toUpperCase()}`,
+    log: games.map(g => logEntry({
+      event_id: g.team === 'BOS' ? String(g.day) : `${g.team}-${g.day}`,
+      date: date(g.day),
+      team_abbrev: g.team,
+      pra: g.pra
+    }))
+  };
+}
+
+describe('computeTeammateSplit', () => {
+  it('leaves out a traded teammate\'s games for their old team', () => {
+    // The teammate played days 1-4 for the Lakers, then days 5-10 for Boston
+    const teammate = rosterLog('t', [
+      ...range(1, 4).map(day => ({ day, team: 'LAL' })),
+      ...range(5, 10).map(day => ({ day, team: 'BOS' }))
+    ]);
+    const player = rosterLog('p', range(1, 12).map(day => ({ day, team: 'BOS', pra: day > 10 ? 40 : 30 })));
+
+    const split = computeTeammateSplit(player, teammate, 'BOS');
+    expect(split.with).toMatchObject({ games: 6, pra: 30 });
+    // Days 1-4 were before the trade, so only 11-12 are "without"
+    expect(split.without).toMatchObject({ games: 2, pra: 40 });
+  });
+
+  it('leaves out a traded player\'s games for their old team', () => {
+    const teammate = rosterLog('t', range(1, 10).map(day => ({ day, team: 'BOS' })));
+    const player = rosterLog('p', [
+      ...range(1, 4).map(day => ({ day, team: 'NYK', pra: 50 })),
+      ...range(5, 12).map(day => ({ day, team: 'BOS', pra: day > 10 ? 40 : 30 }))
+    ]);
+
+    const split = computeTeammateSplit(player, teammate, 'BOS');
+    expect(split.with).toMatchObject({ games: 6, pra: 30 });
+    expect(split.without).toMatchObject({ games: 2, pra: 40 });
+  });
+
+  it('counts every game for logs without a team', () => {
+    const strip = (r: RosterLog): RosterLog => ({ ...r, log: r.log.map(({ team_abbrev, ...e }) => e) });
+    const teammate = strip(rosterLog('t', range(1, 10).map(day => ({ day, team: 'BOS' }))));
+    const player = strip(rosterLog('p', range(1, 12).map(day => ({ day, team: 'BOS' }))));
+
+    const split = computeTeammateSplit(player, teammate, 'BOS');
+    expect([split.with.games, split.without.games]).toEqual([10, 2]);
+  });
+});
@@ -0,0 +1,101 @@
+import { describe, it, expect } from 'vitest';
+import { applyVacatedUsage } from '../vacated-usage';
+import { InjuryInfo } from '../injuries';
+import { GameLogEntry } from '../game-logs';
+import { RosterLog, TeamRosterLogs } from '../teammate-splits';
+import { logEntry, makePlayer } from './fixtures/players';
+
+const range = (from: number, to: number) => Array.from({ length: to - from + 1 }, (_, i) => from + i);
+
+// One roster player's log over the given team game numbers
+function roster(player_id: string, name: string, games: number[], line: (game: number) => Partial<GameLogEntry>): RosterLog {
+  return {
+    player_id,
+    name,
+    log: games.map(g => logEntry({ event_id: String(g), date: `2025-01-${String(g).padStart(2, '0')}`, fta: 0, ...line(g) }))
+  };
+}
+
+const out: Map<string, InjuryInfo> = new Map([['star', {
+  player_id: 'star', player_name: 'Star Guard', team: 'Boston Celtics', team_abbrev: 'BOS', status: 'OUT', injury_type: 'Knee'
+}]]);
+
+function run(logs: RosterLog[]) {
+  const rosterLogs: TeamRosterLogs = new Map([['BOS', logs]]);
+  const players = logs.map(r => makePlayer({
+    player_id: r.player_id, name: r.name, injury_status: r.player_id === 'star' ? 'OUT' : 'HEALTHY'
+  }));
+  const byId = new Map(applyVacatedUsage(players, out, rosterLogs).map(p => [p.player_id, p]));
+  return (id: string) => byId.get(id)!.vacated_usage;
+}
+
+// 30 minutes and 20 PRA with the star, 36 and 30 without
+const withOrWithout = (starGames: number[]) => (g: number) => starGames.includes(g)
+  ? { minutes: 30, points: 10, rebounds: 5, assists: 5 }
+  : { minutes: 36, points: 20, rebounds: 5, assists: 5 };
+
+describe('applyVacatedUsage', () => {
+  it('shrinks the observed split toward zero by games without the teammate', () => {
+    // The star missed games 2-6 and played the player's last 10
+    const starGames = [1, ...range(7, 16)];
+    const usage = run([
+      roster('star', 'Star Guard', starGames, () => ({ minutes: 36 })),
+      roster('p', 'Role Player', range(1, 16), withOrWithout(starGames))
+    ])('p');
+
+    // 5 games without: weight 5 / (5 + 5)
+    expect(usage).toMatchObject({ out_teammates: ['Star Guard'], minutes: 3, pra: 5, source: 'splits' });
+  });
+
+  it('trusts a longer absence more', () => {
+    const starGames = [1, ...range(11, 20)];
+    const usage = run([
+      roster('star', 'Star Guard', starGames, () => ({ minutes: 36 })),
+      roster('p', 'Role Player', range(1, 20), withOrWithout(starGames))
+    ])('p');
+
+    // 9 games without: weight 9 / 14
+    expect(usage?.minutes).toBeCloseTo(6 * 9 / 14, 1);
+    expect(usage?.pra).toBeCloseTo(10 * 9 / 14, 1);
+  });
+
+  it('scales the gain by how many recent games the teammate played', () => {
+    // The star has missed the last 5, so half the player's recent games already reflect it
+    const starGames = range(1, 5);
+    const usage = run([
+      roster('star', 'Star Guard', starGames, () => ({ minutes: 36 })),
+      roster('p', 'Role Player', range(1, 10), withOrWithout(starGames))
+    ])('p');
+
+    expect(usage).toMatchObject({ minutes: 1.5, pra: 2.5, source: 'splits' });
+  });
+
+  it('falls back to a share of the teammate\'s volume with too few games without them', () => {
+    // Two games without the star isn't enough for a split
+    const starGames = range(1, 8);
+    const get = run([
+      roster('star', 'Star Guard', starGames, () => ({ minutes: 20, fga: 20, assists: 8 })),
+      roster('p', 'Role Player', range(1, 10), () => ({ minutes: 30, fga: 15, points: 30, rebounds: 6, assists: 6 })),
+      roster('q', 'Bench Player', range(1, 10), () => ({ minutes: 10, fga: 5, points: 8, rebounds: 2, assists: 2 }))
+    ]);
+
+    // 75% of the available minutes, shots and assists; the star played 8 of the last 10
+    const scale = 0.8;
+    const minutes = 20 * 0.6 * 0.75;
+    const shots = 20 * 0.8 * 0.75;
+    const assists = 8 * 0.8 * 0.75;
+    // Shots at 2 points each, rebounds at 0.2 per minute
+    const pra = shots * 2 + assists + minutes * 0.2;
+    expect(get('p')).toMatchObject({ source: 'share' });
+    expect(get('p')?.minutes).toBeCloseTo(minutes * scale, 1);
+    expect(get('p')?.shots).toBeCloseTo(shots * scale, 1);
+    expect(get('p')?.assists).toBeCloseTo(assists * scale, 1);
+    expect(get('p')?.pra).toBeCloseTo(pra * scale, 1);
+    expect(get('q')?.minutes).toBeCloseTo(20 * 0.6 * 0.25 * scale, 1);
+  });
+
+  it('leaves players alone when nobody on their team is out', () => {
+    const get = run([roster('p', 'Role Player', range(1, 10), () => ({}))]);
+    expect(get('p')).toBeUndefined();
+  });
+});
@@ -1,6 +1,20 @@
 // Historical Backtesting System
 // Tracks predictions vs actual KOTC results
 
+import { toESPNDate } from './slate-date';
+import { parseBoxScore, BoxScoreLine } from './box-scores';
+import {
+  computeRankingMetrics,
+  scoresToWinProbabilities,
+  bootstrapMean,
+  RankingMetrics,
+  RankingMetricName,
+  RankedOutcome,
+  ConfidenceInterval,
+  RANKING_METRIC_NAMES
+} from './ranking-metrics';
+import { ModelId, DEFAULT_MODEL_ID } from './model-registry';
+
 export interface HistoricalPrediction {
   date: string;
   player_id: string;
@@ -8,40 +22,48 @@ export interface HistoricalPrediction {
   team: string;
   opponent: string;
   predicted_rank: number;
-  model_version: 'v1' | 'v2';
-  v1_score: number;
-  v2_score: number;
+  model_version: ModelId;
+  score: number;             // This model's ranking score
+  win_probability?: number;  // This model's P(#1); derived from scores when absent
 }
 
 export interface ActualResult {
   date: string;
   player_id: string;
   player_name: string;
-  kotc_points: number;  // Actual KOTC fantasy points
-  actual_rank: number;  // Where they actually finished
-  stats: {
-    points: number;
-    rebounds: number;
-    assists: number;
-    steals: number;
-    blocks: number;
-    turnovers: number;
+  kotc_points: number;  // Points under the backtest's scoring system (PRA by default)
+  actual_rank: number;  // Where they actually finished (DNPs rank last)
+  minutes: number;
+  did_not_play: boolean;
+  ejected: boolean;
+  stats: BoxScoreLine['stats'];
+}
+
+export type BoxScoreStat = keyof ActualResult['stats'];
+
+export interface ScoringSystem {
+  id: string;                                   // 'pra', 'dk_classic' or 'custom'
+  name: string;
+  weights: Partial<Record<BoxScoreStat, number>>; // Missing stats count 0
+  bonuses?: {
+    double_double?: number;
+    triple_double?: number;
   };
 }
 
 export interface BacktestResult {
   date: string;
   total_players: number;
+  scoring: ScoringSystem;     // How actual results were scored and ranked
   
   // Accuracy metrics
   top5_hit_rate: number;      // % of our top 5 that finished top 10
   top10_hit_rate: number;     // % of our top 10 that finished top 20
   top1_accuracy: number;      // Did our #1 finish top 5?
   
-  // Comparison
-  v1_avg_error: number;       // Avg rank difference (predicted vs actual)
-  v2_avg_error: number;
-  winner: 'v1' | 'v2' | 'tie';
+  // Comparison, keyed by model id (models with no matched players are left out)
+  models: Record<ModelId, RankingMetrics>;
+  winner: ModelId | 'tie';    // Highest NDCG@10 on this slate
   
   // Individual results
   predictions: Array<{
@@ -56,18 +78,26 @@ export interface BacktestResult {
 export interface BacktestSummary {
   total_days: number;
   date_range: { start: string; end: string };
+  scoring: string | null;     // Scoring id used by the daily results ('mixed' if they differ)
   
   // Overall accuracy
   avg_top5_hit_rate: number;
   avg_top10_hit_rate: number;
   top1_hit_count: number;
   
-  // Model comparison
-  v1_wins: number;
-  v2_wins: number;
+  // Model comparison, keyed by model id
+  model_ids: ModelId[];
+  wins: Record<ModelId, number>;
   ties: number;
-  v1_avg_error: number;
-  v2_avg_error: number;
+  avg_error: Record<ModelId, number>; // Avg rank difference (predicted vs actual)
+  
+  // Bootstrap 95% CIs over slates (resampling days)
+  metrics: {
+    baseline: ModelId;
+    by_model: Record<ModelId, Record<RankingMetricName, ConfidenceInterval>>;
+    vs_baseline: Record<ModelId, Record<RankingMetricName, ConfidenceInterval>>; // Paired model - baseline
+  } | null;
+  better_model: ModelId | 'inconclusive'; // Best NDCG@10, with every paired difference CI above 0
   
   // Best/worst days
   best_day: { date: string; top5_hit_rate: number };
@@ -76,26 +106,78 @@ export interface BacktestSummary {
   daily_results: BacktestResult[];
 }
 
-// Calculate KOTC points from box score stats
-export function calculateKOTCPoints(stats: ActualResult['stats']): number {
-  // KOTC scoring: 1pt per point, 1.2 per rebound, 1.5 per assist, 
-  // 3 per steal, 3 per block, -1 per turnover
-  return (
-    stats.points * 1 +
-    stats.rebounds * 1.2 +
-    stats.assists * 1.5 +
-    stats.steals * 3 +
-    stats.blocks * 3 -
-    stats.turnovers * 1
-  );
+// Built-in scoring systems
+export const SCORING_SYSTEMS: Record<'pra' | 'dk_classic', ScoringSystem> = {
+  // King of the Court is won on raw Points + Rebounds + Assists
+  pra: {
+    id: 'pra',
+    name: 'PRA (King of the Court)',
+    weights: { points: 1, rebounds: 1, assists: 1 }
+  },
+  // DraftKings NBA classic fantasy scoring
+  dk_classic: {
+    id: 'dk_classic',
+    name: 'DraftKings Classic',
+    weights: { points: 1, three_pointers: 0.5, rebounds: 1.25, assists: 1.5, steals: 2, blocks: 2, turnovers: -0.5 },
+    bonuses: { double_double: 1.5, triple_double: 3 }
+  }
+};
+
+export const DEFAULT_SCORING = SCORING_SYSTEMS.pra;
+
+const SCORING_STATS: BoxScoreStat[] = ['points', 'rebounds', 'assists', 'steals', 'blocks', 'turnovers', 'three_pointers'];
+
+// Parse a scoring query param: 'pra', 'dk_classic', or custom weights
+// e.g. 'custom:points=1,rebounds=1.2,assists=1.5'
+export function parseScoringParam(param: string | null | undefined): ScoringSystem {
+  if (!param) return DEFAULT_SCORING;
+  // Own keys only: `in` would also match 'toString', 'constructor', ...
+  if (Object.prototype.hasOwnProperty.call(SCORING_SYSTEMS, param)) {
+    return SCORING_SYSTEMS[param as keyof typeof SCORING_SYSTEMS];
+  }
+  
+  if (param.startsWith('custom:')) {
+    const weights: ScoringSystem['weights'] = {};
+    for (const pair of param.slice('custom:'.length).split(',')) {
+      const [stat, value] = pair.split('=');
+      const weight = parseFloat(value);
+      if (SCORING_STATS.includes(stat as BoxScoreStat) && !isNaN(weight)) {
+        weights[stat as BoxScoreStat] = weight;
+      }
+    }
+    if (Object.keys(weights).length > 0) {
+      return { id: 'custom', name: 'Custom weights', weights };
+    }
+  }
+  
+  console.log(`[KOTC Backtest] Unknown scoring "${param}", using ${DEFAULT_SCORING.id}`);
+  return DEFAULT_SCORING;
 }
 
-// Fetch historical box scores from ESPN for backtesting
-export async function fetchHistoricalBoxScores(date: string): Promise<ActualResult[]> {
-  console.log(`[KOTC Backtest] Fetching box scores for ${date}`);
+// Calculate KOTC points from box score stats
+export function calculateKOTCPoints(
+  stats: ActualResult['stats'],
+  scoring: ScoringSystem = DEFAULT_SCORING
+): number {
+  let total = 0;
+  for (const stat of SCORING_STATS) {
+    total += (stats[stat] || 0) * (scoring.weights[stat] || 0);
+  }
   
-  const results: ActualResult[] = [];
-  const dateStr = date.replace(/-/g, '');
+  if (scoring.bonuses) {
+    const doubleDigits = [stats.points, stats.rebounds, stats.assists, stats.steals, stats.blocks]
+      .filter(v => v >= 10).length;
+    if (doubleDigits >= 3) total += scoring.bonuses.triple_double || 0;
+    if (doubleDigits >= 2) total += scoring.bonuses.double_double || 0;
+  }
+  
+  return total;
+}
+
+// Fetch ESPN game summaries (box scores) for a slate's completed games
+// Returns null when the scoreboard itself can't be fetched
+export async function fetchFinalGameSummaries(date: string): Promise<any[] | null> {
+  const dateStr = toESPNDate(date);
   
   try {
     // Get games for that date
@@ -106,11 +188,12 @@ export async function fetchHistoricalBoxScores(date: string): Promise<ActualResu
     
     if (!response.ok) {
       console.log(`[KOTC Backtest] Could not fetch games for ${date}`);
-      return results;
+      return null;
     }
     
     const data = await response.json();
     const events = data?.events || [];
+    const summaries: any[] = [];
     
     // For each completed game, get box scores
     for (const event of events) {
@@ -128,77 +211,61 @@ export async function fetchHistoricalBoxScores(date: string): Promise<ActualResu
         
         if (!boxResponse.ok) continue;
         
-        const boxData = await boxResponse.json();
-        const boxScore = boxData?.boxscore;
-        
-        if (!boxScore?.players) continue;
-        
-        // Parse player stats from both teams
-        for (const team of boxScore.players) {
-          const teamAbbrev = team.team?.abbreviation || '';
-          const statistics = team.statistics?.[0]; // First stat category is usually totals
-          
-          if (!statistics?.athletes) continue;
-          
-          for (const athlete of statistics.athletes) {
-            const playerId = athlete.athlete?.id;
-            const playerName = athlete.athlete?.displayName;
-            
-            if (!playerId || !playerName) continue;
-            
-            // Parse stats from the stats array
-            // ESPN format: [MIN, FG, 3PT, FT, OREB, DREB, REB, AST, STL, BLK, TO, PF, +/-, PTS]
-            const statsArr = athlete.stats || [];
-            
-            // Find opponent
-            const competition = event.competitions?.[0];
-            const teams = competition?.competitors || [];
-            const opponent = teams.find((t: any) => t.team?.abbreviation !== teamAbbrev);
-            const opponentAbbrev = opponent?.team?.abbreviation || '';
-            
-            const playerStats = {
-              points: parseFloat(statsArr[13]) || 0,
-              rebounds: parseFloat(statsArr[6]) || 0,
-              assists: parseFloat(statsArr[7]) || 0,
-              steals: parseFloat(statsArr[8]) || 0,
-              blocks: parseFloat(statsArr[9]) || 0,
-              turnovers: parseFloat(statsArr[10]) || 0
-            };
-            
-            const kotcPoints = calculateKOTCPoints(playerStats);
-            
-            results.push({
-              date,
-              player_id: playerId,
-              player_name: playerName,
-              kotc_points: kotcPoints,
-              actual_rank: 0, // Will be calculated after sorting
-              stats: playerStats
-            });
-          }
-        }
+        summaries.push(await boxResponse.json());
       } catch (err) {
         console.log(`[KOTC Backtest] Error fetching box score for game ${gameId}`);
       }
     }
     
-    // Sort by KOTC points and assign ranks
-    results.sort((a, b) => b.kotc_points - a.kotc_points);
-    results.forEach((r, i) => r.actual_rank = i + 1);
-    
-    console.log(`[KOTC Backtest] Got ${results.length} player results for ${date}`);
-    return results;
+    return summaries;
     
   } catch (error) {
     console.error(`[KOTC Backtest] Error:`, error);
-    return results;
+    return null;
   }
 }
 
+// Fetch historical box scores from ESPN for backtesting
+export async function fetchHistoricalBoxScores(
+  date: string,
+  scoring: ScoringSystem = DEFAULT_SCORING
+): Promise<ActualResult[]> {
+  console.log(`[KOTC Backtest] Fetching box scores for ${date}`);
+  
+  const results: ActualResult[] = [];
+  const summaries = await fetchFinalGameSummaries(date) || [];
+  
+  for (const summary of summaries) {
+    for (const line of parseBoxScore(summary)) {
+      results.push({
+        date,
+        player_id: line.player_id,
+        player_name: line.player_name,
+        kotc_points: line.did_not_play ? 0 : calculateKOTCPoints(line.stats, scoring),
+        actual_rank: 0, // Will be calculated after sorting
+        minutes: line.minutes,
+        did_not_play: line.did_not_play,
+        ejected: line.ejected,
+        stats: line.stats
+      });
+    }
+  }
+  
+  // Sort by KOTC points and assign ranks; DNPs go below everyone who played
+  results.sort((a, b) =>
+    Number(a.did_not_play) - Number(b.did_not_play) || b.kotc_points - a.kotc_points
+  );
+  results.forEach((r, i) => r.actual_rank = i + 1);
+  
+  console.log(`[KOTC Backtest] Got ${results.length} player results for ${date}`);
+  return results;
+}
+
 // Compare predictions against actual results
 export function compareResults(
   predictions: HistoricalPrediction[],
-  actuals: ActualResult[]
+  actuals: ActualResult[],
+  scoring: ScoringSystem = DEFAULT_SCORING
 ): BacktestResult {
   const date = predictions[0]?.date || actuals[0]?.date || '';
   
@@ -210,34 +277,48 @@ export function compareResults(
   }
   
   const results: BacktestResult['predictions'] = [];
-  let v1TotalError = 0;
-  let v2TotalError = 0;
-  let v1Count = 0;
-  let v2Count = 0;
-  
-  for (const pred of predictions) {
-    const key = pred.player_name.toLowerCase().replace(/[^a-z]/g, '');
-    const actual = actualMap.get(key);
-    
-    if (!actual) continue;
+  const allActualPoints = actuals.map(a => a.kotc_points);
+  const models: Record<ModelId, RankingMetrics> = {};
+  const modelIds = Array.from(new Set(predictions.map(p => p.model_version)));
+  
+  for (const model of modelIds) {
+    const rows = predictions
+      .filter(p => p.model_version === model)
+      .sort((a, b) => a.predicted_rank - b.predicted_rank);
     
-    const rankDiff = Math.abs(pred.predicted_rank - actual.actual_rank);
+    const hasOwnProbabilities = rows.length > 0 && rows.every(p => p.win_probability !== undefined);
+    const winProbabilities = hasOwnProbabilities
+      ? rows.map(p => p.win_probability as number)
+      : scoresToWinProbabilities(rows.map(p => p.score));
     
-    results.push({
-      player_name: pred.player_name,
-      predicted_rank: pred.predicted_rank,
-      actual_rank: actual.actual_rank,
-      rank_diff: rankDiff,
-      kotc_points: actual.kotc_points
+    const outcomes: RankedOutcome[] = [];
+    rows.forEach((pred, i) => {
+      const key = pred.player_name.toLowerCase().replace(/[^a-z]/g, '');
+      const actual = actualMap.get(key);
+      
+      if (!actual) return;
+      
+      const rankDiff = Math.abs(pred.predicted_rank - actual.actual_rank);
+      
+      results.push({
+        player_name: pred.player_name,
+        predicted_rank: pred.predicted_rank,
+        actual_rank: actual.actual_rank,
+        rank_diff: rankDiff,
+        kotc_points: actual.kotc_points
+      });
+      
+      outcomes.push({
+        predicted_rank: pred.predicted_rank,
+        actual_rank: actual.actual_rank,
+        actual_points: actual.kotc_points,
+        win_probability: winProbabilities[i]
+      });
     });
     
-    if (pred.model_version === 'v1') {
-      v1TotalError += rankDiff;
-      v1Count++;
-    } else {
-      v2TotalError += rankDiff;
-      v2Count++;
-    }
+    // Models with no matched players sit this slate out
+    const metrics = computeRankingMetrics(outcomes, allActualPoints);
+    if (metrics) models[model] = metrics;
   }
   
   // Calculate hit rates
@@ -252,21 +333,20 @@ export function compareResults(
   const top1 = results.find(r => r.predicted_rank === 1);
   const top1Accuracy = top1 && top1.actual_rank <= 5 ? 1 : 0;
   
-  const v1AvgError = v1Count > 0 ? v1TotalError / v1Count : 0;
-  const v2AvgError = v2Count > 0 ? v2TotalError / v2Count : 0;
-  
-  let winner: 'v1' | 'v2' | 'tie' = 'tie';
-  if (v1AvgError < v2AvgError - 1) winner = 'v1';
-  else if (v2AvgError < v1AvgError - 1) winner = 'v2';
+  const byNdcg = Object.keys(models).sort((a, b) => models[b].ndcg_at_10 - models[a].ndcg_at_10);
+  const winner: ModelId | 'tie' = byNdcg.length === 0 ||
+    (byNdcg.length > 1 && models[byNdcg[0]].ndcg_at_10 === models[byNdcg[1]].ndcg_at_10)
+    ? 'tie'
+    : byNdcg[0];
   
   return {
     date,
     total_players: results.length,
+    scoring,
     top5_hit_rate: top5HitRate,
     top10_hit_rate: top10HitRate,
     top1_accuracy: top1Accuracy,
-    v1_avg_error: v1AvgError,
-    v2_avg_error: v2AvgError,
+    models,
     winner,
     predictions: results.sort((a, b) => a.predicted_rank - b.predicted_rank)
   };
@@ -278,14 +358,16 @@ export function generateSummary(results: BacktestResult[]): BacktestSummary {
     return {
       total_days: 0,
       date_range: { start: '', end: '' },
+      scoring: null,
       avg_top5_hit_rate: 0,
       avg_top10_hit_rate: 0,
       top1_hit_count: 0,
-      v1_wins: 0,
-      v2_wins: 0,
+      model_ids: [],
+      wins: {},
       ties: 0,
-      v1_avg_error: 0,
-      v2_avg_error: 0,
+      avg_error: {},
+      metrics: null,
+      better_model: 'inconclusive',
       best_day: { date: '', top5_hit_rate: 0 },
       worst_day: { date: '', top5_hit_rate: 0 },
       daily_results: []
@@ -294,14 +376,15 @@ export function generateSummary(results: BacktestResult[]): BacktestSummary {
   
   const sorted = [...results].sort((a, b) => a.date.localeCompare(b.date));
   
+  const modelIds = modelIdsIn(sorted);
+  
   let totalTop5 = 0;
   let totalTop10 = 0;
   let top1Hits = 0;
-  let v1Wins = 0;
-  let v2Wins = 0;
   let ties = 0;
-  let totalV1Error = 0;
-  let totalV2Error = 0;
+  const wins: Record<ModelId, number> = {};
+  const avgError: Record<ModelId, number> = {};
+  for (const id of modelIds) wins[id] = 0;
   
   let bestDay = results[0];
   let worstDay = results[0];
@@ -310,33 +393,91 @@ export function generateSummary(results: BacktestResult[]): BacktestSummary {
     totalTop5 += r.top5_hit_rate;
     totalTop10 += r.top10_hit_rate;
     top1Hits += r.top1_accuracy;
-    totalV1Error += r.v1_avg_error;
-    totalV2Error += r.v2_avg_error;
     
-    if (r.winner === 'v1') v1Wins++;
-    else if (r.winner === 'v2') v2Wins++;
-    else ties++;
+    if (r.winner === 'tie') ties++;
+    else wins[r.winner] = (wins[r.winner] || 0) + 1;
     
     if (r.top5_hit_rate > bestDay.top5_hit_rate) bestDay = r;
     if (r.top5_hit_rate < worstDay.top5_hit_rate) worstDay = r;
   }
   
+  for (const id of modelIds) {
+    const days = results.filter(r => r.models[id]);
+    avgError[id] = days.reduce((sum, r) => sum + r.models[id].avg_rank_error, 0) / days.length;
+  }
+  
+  const scoringIds = new Set(results.map(r => r.scoring.id));
+  const metrics = summarizeMetrics(sorted, modelIds);
+  
   return {
     total_days: results.length,
     date_range: {
       start: sorted[0].date,
       end: sorted[sorted.length - 1].date
     },
+    scoring: scoringIds.size === 1 ? results[0].scoring.id : 'mixed',
     avg_top5_hit_rate: totalTop5 / results.length,
     avg_top10_hit_rate: totalTop10 / results.length,
     top1_hit_count: top1Hits,
-    v1_wins: v1Wins,
-    v2_wins: v2Wins,
+    model_ids: modelIds,
+    wins,
     ties,
-    v1_avg_error: totalV1Error / results.length,
-    v2_avg_error: totalV2Error / results.length,
+    avg_error: avgError,
+    metrics,
+    better_model: pickBetterModel(sorted, modelIds),
     best_day: { date: bestDay.date, top5_hit_rate: bestDay.top5_hit_rate },
     worst_day: { date: worstDay.date, top5_hit_rate: worstDay.top5_hit_rate },
     daily_results: sorted
   };
 }
+
+// Models present in any result; the default model first so it's the baseline
+function modelIdsIn(results: BacktestResult[]): ModelId[] {
+  const ids = Array.from(new Set(results.flatMap(r => Object.keys(r.models))));
+  return ids.sort((a, b) => Number(b === DEFAULT_MODEL_ID) - Number(a === DEFAULT_MODEL_ID));
+}
+
+// Per-slate paired differences (a - b) on slates where both models ran
+function pairedDifferences(results: BacktestResult[], a: ModelId, b: ModelId, metric: RankingMetricName): number[] {
+  return results
+    .filter(r => r.models[a] && r.models[b])
+    .map(r => r.models[a][metric] - r.models[b][metric]);
+}
+
+// Bootstrap CIs for each ranking metric, per model and paired against the baseline model
+function summarizeMetrics(results: BacktestResult[], modelIds: ModelId[]): BacktestSummary['metrics'] {
+  if (modelIds.length === 0) return null;
+  
+  const baseline = modelIds[0];
+  const byModel: Record<ModelId, Record<RankingMetricName, ConfidenceInterval>> = {};
+  const vsBaseline: Record<ModelId, Record<RankingMetricName, ConfidenceInterval>> = {};
+  
+  for (const id of modelIds) {
+    byModel[id] = {} as Record<RankingMetricName, ConfidenceInterval>;
+    vsBaseline[id] = {} as Record<RankingMetricName, ConfidenceInterval>;
+    for (const name of RANKING_METRIC_NAMES) {
+      byModel[id][name] = bootstrapMean(results.filter(r => r.models[id]).map(r => r.models[id][name]));
+      vsBaseline[id][name] = bootstrapMean(pairedDifferences(results, id, baseline, name));
+    }
+  }
+  
+  return { baseline, by_model: byModel, vs_baseline: vsBaseline };
+}
+
+// The model with the best mean NDCG@10, if it beats every other model with a
+// paired difference CI entirely above zero
+function pickBetterModel(results: BacktestResult[], modelIds: ModelId[]): ModelId | 'inconclusive' {
+  if (modelIds.length < 2) return 'inconclusive';
+  
+  const meanNdcg = (id: ModelId) => {
+    const days = results.filter(r => r.models[id]);
+    return days.reduce((sum, r) => sum + r.models[id].ndcg_at_10, 0) / (days.length || 1);
+  };
+  const best = [...modelIds].sort((a, b) => meanNdcg(b) - meanNdcg(a))[0];
+  
+  const beatsAll = modelIds
+    .filter(id => id !== best)
+    .every(id => bootstrapMean(pairedDifferences(results, best, id, 'ndcg_at_10')).ci_low > 0);
+  
+  return beatsAll ? best : 'inconclusive';
+}
@@ -0,0 +1,196 @@
+// ESPN Box Score Parsing
+// Parses the `boxscore.players` section of an ESPN game summary into per-player
+// lines. Columns are located by their `keys`/`labels` rather than position, so
+// reordered or added columns don't silently shift stats between fields.
+
+export interface BoxScoreLine {
+  player_id: string;
+  player_name: string;
+  team_abbrev: string;
+  opponent_abbrev: string;
+  position: string;           // ESPN abbreviation (PG, SG, G, F, C, ...), '' if missing
+  starter: boolean;
+  minutes: number;
+  did_not_play: boolean;
+  dnp_reason: string | null;  // e.g. "DNP-COACH'S DECISION"
+  ejected: boolean;
+  stats: {
+    points: number;
+    rebounds: number;
+    assists: number;
+    steals: number;
+    blocks: number;
+    turnovers: number;
+    three_pointers: number;
+  };
+}
+
+// Team totals for one game, summed from the player lines
+export interface TeamGameTotals {
+  team_abbrev: string;
+  opponent_abbrev: string;
+  minutes: number;      // Player minutes (240 for regulation, more with overtime)
+  points: number;
+  fga: number;
+  fta: number;
+  offensive_rebounds: number;
+  turnovers: number;
+  possessions: number;  // FGA - OREB + TOV + 0.44 * FTA
+}
+
+// Each column can be identified by its ESPN key or its display label
+const COLUMNS = {
+  minutes: { keys: ['minutes'], labels: ['MIN'] },
+  field_goals: { keys: ['fieldGoalsMade-fieldGoalsAttempted'], labels: ['FG'] },
+  free_throws: { keys: ['freeThrowsMade-freeThrowsAttempted'], labels: ['FT'] },
+  offensive_rebounds: { keys: ['offensiveRebounds'], labels: ['OREB'] },
+  threes: { keys: ['threePointFieldGoalsMade-threePointFieldGoalsAttempted'], labels: ['3PT'] },
+  rebounds: { keys: ['rebounds', 'totalRebounds'], labels: ['REB'] },
+  assists: { keys: ['assists'], labels: ['AST'] },
+  steals: { keys: ['steals'], labels: ['STL'] },
+  blocks: { keys: ['blocks'], labels: ['BLK'] },
+  turnovers: { keys: ['turnovers'], labels: ['TO'] },
+  points: { keys: ['points'], labels: ['PTS'] }
+};
+
+type Column = keyof typeof COLUMNS;
+
+// Map each known column to its index in this stat group (-1 if absent)
+function columnIndexes(statistics: any): Record<Column, number> {
+  const keys: string[] = statistics?.keys || [];
+  const labels: string[] = statistics?.labels || statistics?.names || [];
+
+  const indexes = {} as Record<Column, number>;
+  for (const column of Object.keys(COLUMNS) as Column[]) {
+    const { keys: columnKeys, labels: columnLabels } = COLUMNS[column];
+    let idx = keys.findIndex(k => columnKeys.includes(k));
+    if (idx < 0) idx = labels.findIndex(l => columnLabels.includes(String(l).toUpperCase()));
+    indexes[column] = idx;
+  }
+  return indexes;
+}
+
+// Minutes come as "34" or "34:12"; DNP rows use "--" or are empty
+export function parseMinutes(value: unknown): number {
+  if (value === undefined || value === null) return 0;
+  const [mins, secs] = String(value).split(':');
+  const minutes = parseFloat(mins) || 0;
+  const seconds = secs ? parseFloat(secs) || 0 : 0;
+  return Math.round((minutes + seconds / 60) * 10) / 10;
+}
+
+// The stat group with the core scoring columns (usually the first)
+function findStatGroup(team: any): any | undefined {
+  const groups: any[] = team.statistics || [];
+  return groups.find(g => {
+    const idx = columnIndexes(g);
+    return idx.points >= 0 && idx.rebounds >= 0 && idx.assists >= 0;
+  });
+}
+
+const num = (stats: string[], i: number) => i >= 0 ? parseFloat(stats[i]) || 0 : 0;
+
+// "made-attempted" columns
+const made = (stats: string[], i: number) =>
+  i >= 0 && stats[i] ? parseFloat(String(stats[i]).split('-')[0]) || 0 : 0;
+const attempted = (stats: string[], i: number) =>
+  i >= 0 && stats[i] ? parseFloat(String(stats[i]).split('-')[1]) || 0 : 0;
+
+// Parse the box score from an ESPN summary payload
+// DNP players are included with zeroed stats so callers can decide how to rank them
+export function parseBoxScore(summary: any): BoxScoreLine[] {
+  const teams: any[] = summary?.boxscore?.players || [];
+  const lines: BoxScoreLine[] = [];
+
+  for (const team of teams) {
+    const teamAbbrev = team.team?.abbreviation || '';
+    const opponent = teams.find(t => t !== team);
+    const opponentAbbrev = opponent?.team?.abbreviation || '';
+
+    const statistics = findStatGroup(team);
+
+    if (!statistics?.athletes) {
+      if ((team.statistics || []).length > 0) {
+        console.log(`[KOTC Backtest] No PTS/REB/AST columns in box score for ${teamAbbrev}`);
+      }
+      continue;
+    }
+
+    const idx = columnIndexes(statistics);
+
+    for (const athlete of statistics.athletes) {
+      const playerId = athlete.athlete?.id;
+      const playerName = athlete.athlete?.displayName;
+      if (!playerId || !playerName) continue;
+
+      const stats: string[] = athlete.stats || [];
+      const minutes = parseMinutes(idx.minutes >= 0 ? stats[idx.minutes] : undefined);
+
+      // ESPN flags DNPs explicitly; an empty stat row means the same thing
+      const didNotPlay = athlete.didNotPlay === true || stats.length === 0;
+
+      lines.push({
+        player_id: String(playerId),
+        player_name: playerName,
+        team_abbrev: teamAbbrev,
+        opponent_abbrev: opponentAbbrev,
+        position: athlete.athlete?.position?.abbreviation || '',
+        starter: athlete.starter === true,
+        minutes: didNotPlay ? 0 : minutes,
+        did_not_play: didNotPlay,
+        dnp_reason: didNotPlay ? (athlete.reason || null) : null,
+        ejected: athlete.ejected === true,
+        stats: didNotPlay
+          ? { points: 0, rebounds: 0, assists: 0, steals: 0, blocks: 0, turnovers: 0, three_pointers: 0 }
+          : {
+              points: num(stats, idx.points),
+              rebounds: num(stats, idx.rebounds),
+              assists: num(stats, idx.assists),
+              steals: num(stats, idx.steals),
+              blocks: num(stats, idx.blocks),
+              turnovers: num(stats, idx.turnovers),
+              three_pointers: made(stats, idx.threes)
+            }
+      });
+    }
+  }
+
+  return lines;
+}
+
+// Team totals (possession estimate inputs) for both teams in an ESPN summary
+// Team turnovers not credited to a player are missed, which is within the noise
+export function parseTeamTotals(summary: any): TeamGameTotals[] {
+  const teams: any[] = summary?.boxscore?.players || [];
+  const totals: TeamGameTotals[] = [];
+
+  for (const team of teams) {
+    const statistics = findStatGroup(team);
+    if (!statistics?.athletes) continue;
+
+    const idx = columnIndexes(statistics);
+    const total = {
+      team_abbrev: team.team?.abbreviation || '',
+      opponent_abbrev: teams.find(t => t !== team)?.team?.abbreviation || '',
+      minutes: 0, points: 0, fga: 0, fta: 0, offensive_rebounds: 0, turnovers: 0, possessions: 0
+    };
+
+    for (const athlete of statistics.athletes) {
+      const stats: string[] = athlete.stats || [];
+      if (athlete.didNotPlay === true || stats.length === 0) continue;
+      total.minutes += parseMinutes(idx.minutes >= 0 ? stats[idx.minutes] : undefined);
+      total.points += num(stats, idx.points);
+      total.fga += attempted(stats, idx.field_goals);
+      total.fta += attempted(stats, idx.free_throws);
+      total.offensive_rebounds += num(stats, idx.offensive_rebounds);
+      total.turnovers += num(stats, idx.turnovers);
+    }
+
+    total.possessions = Math.round(
+      (total.fga - total.offensive_rebounds + total.turnovers + 0.44 * total.fta) * 10
+    ) / 10;
+    if (total.team_abbrev && total.possessions > 0) totals.push(total);
+  }
+
+  return totals;
+}
@@ -0,0 +1,43 @@
+// Ensemble Weight Storage
+// Every fit is appended to data/models/ensemble-weights.json as a new version;
+// the latest version is the one the ensemble model scores with. Fits run from
+// the command line (npm run fit:ensemble), not from the API.
+
+import { promises as fs } from 'fs';
+import path from 'path';
+import { EnsembleWeights, DEFAULT_ENSEMBLE_WEIGHTS } from './ensemble';
+
+const WEIGHTS_FILE = path.join(process.cwd(), 'data', 'models', 'ensemble-weights.json');
+
+// All saved versions, oldest first (empty before the first fit)
+export async function loadEnsembleVersions(): Promise<EnsembleWeights[]> {
+  try {
+    const raw = await fs.readFile(WEIGHTS_FILE, 'utf-8');
+    const data = JSON.parse(raw);
+    return Array.isArray(data?.versions) ? data.versions : [];
+  } catch {
+    return [];
+  }
+}
+
+// The latest fitted weights, or the built-in defaults before the first fit
+export async function loadActiveEnsembleWeights(): Promise<EnsembleWeights> {
+  const versions = await loadEnsembleVersions();
+  return versions[versions.length - 1] || DEFAULT_ENSEMBLE_WEIGHTS;
+}
+
+// Save a fit as the next version
+export async function saveEnsembleWeights(fit: Omit<EnsembleWeights, 'version'>): Promise<EnsembleWeights | null> {
+  const versions = await loadEnsembleVersions();
+  const weights: EnsembleWeights = { version: (versions[versions.length - 1]?.version ?? 0) + 1, ...fit };
+
+  try {
+    await fs.mkdir(path.dirname(WEIGHTS_FILE), { recursive: true });
+    await fs.writeFile(WEIGHTS_FILE, JSON.stringify({ versions: [...versions, weights] }, null, 2));
+    console.log(`[KOTC] Saved ensemble weights v${weights.version} (${weights.slates} slates)`);
+    return weights;
+  } catch (error) {
+    console.log('[KOTC] Could not save ensemble weights:', error);
+    return null;
+  }
+}
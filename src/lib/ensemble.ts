@@ -0,0 +1,227 @@
+// Ensemble Model
+// Blends the other registered models' scores. Each component score is
+// z-normalized with its training mean/SD, then weighted. Weights are fit on
+// stored backtest slates by maximizing the log-likelihood of the actual winner
+// under a softmax over the slate, so a model only earns weight if it helps pick
+// winners. Every fit is saved as a new version (see ensemble-store.ts).
+
+import { EnhancedPlayerData } from './espn-data';
+import { Prediction } from './prediction-model';
+import { HistoricalPrediction, ActualResult } from './backtest';
+import { getModel, ModelId, ModelContext } from './model-registry';
+
+export const ENSEMBLE_MODEL_ID: ModelId = 'ensemble';
+
+export interface EnsembleComponent {
+  model: ModelId;
+  weight: number;  // Weight on the z-normalized score (can be negative)
+  mean: number;    // Normalization stats of this model's score over training players
+  std: number;
+}
+
+export interface EnsembleWeights {
+  version: number;                    // 0 = built-in defaults, then one per fit
+  fitted_at: string | null;
+  method: 'default' | 'winner_log_likelihood';
+  slates: number;                     // Training slates used
+  date_range: { start: string; end: string } | null;
+  l2_penalty: number;
+  avg_log_loss: number | null;        // Mean -ln p(actual winner) on training slates
+  uniform_log_loss: number | null;    // Same with every player equally likely
+  components: EnsembleComponent[];
+}
+
+// One backtest slate prepared for fitting
+export interface EnsembleTrainingSlate {
+  date: string;
+  features: number[][];  // Raw component scores per player, in model id order
+  winner_index: number;  // Row of the player who actually finished #1
+}
+
+export interface EnsembleFitOptions {
+  l2Penalty?: number;
+  iterations?: number;
+  learningRate?: number;
+}
+
+// Used until the first fit: equal weights, with the rough spread of V1/V2
+// scores across a slate's rotation players as normalization
+export const DEFAULT_ENSEMBLE_WEIGHTS: EnsembleWeights = {
+  version: 0,
+  fitted_at: null,
+  method: 'default',
+  slates: 0,
+  date_range: null,
+  l2_penalty: 0,
+  avg_log_loss: null,
+  uniform_log_loss: null,
+  components: [
+    { model: 'v1', weight: 1, mean: 44, std: 15 },
+    { model: 'v2', weight: 1, mean: 51, std: 8 }
+  ]
+};
+
+const DEFAULT_L2_PENALTY = 0.01;
+const DEFAULT_ITERATIONS = 500;
+const DEFAULT_LEARNING_RATE = 0.5;
+
+// Ensemble score for one player (components that are no longer registered are skipped)
+// The weighted z-score is put back on the first component's scale (V1 points),
+// so it sits alongside other models' scores in salary estimates and the optimizer
+export function ensembleScore(player: EnhancedPlayerData, context: ModelContext): number {
+  const weights = context.ensemble_weights;
+  let weighted = 0;
+  let totalWeight = 0;
+  for (const c of weights.components) {
+    const model = getModel(c.model);
+    if (!model || c.model === ENSEMBLE_MODEL_ID) continue;
+    weighted += c.weight * (model.score(player, context) - c.mean) / (c.std || 1);
+    totalWeight += Math.abs(c.weight);
+  }
+
+  const reference = weights.components[0];
+  if (!reference || totalWeight === 0) return 0;
+  return reference.mean + reference.std * weighted / totalWeight;
+}
+
+// Blend component Prediction output (projected PRA, ceiling, play probability)
+// by positive weight, for format=prediction and the simulator. Sources are
+// sorted heaviest first, so key factors and stats come from the heaviest model
+// that predicted the player.
+export function predictEnsemble(players: EnhancedPlayerData[], context: ModelContext): Prediction[] {
+  const sources = context.ensemble_weights.components
+    .filter(c => c.weight > 0 && c.model !== ENSEMBLE_MODEL_ID && getModel(c.model)?.predict)
+    .sort((a, b) => b.weight - a.weight)
+    .map(c => ({
+      weight: c.weight,
+      byPlayer: new Map(getModel(c.model)!.predict!(players, context).map(p => [p.player_id, p]))
+    }));
+
+  if (sources.length === 0) return [];
+
+  const predictions: Prediction[] = [];
+  for (const player of players) {
+    const parts = sources
+      .map(s => ({ weight: s.weight, prediction: s.byPlayer.get(player.player_id) }))
+      .filter((p): p is { weight: number; prediction: Prediction } => !!p.prediction);
+    if (parts.length === 0) continue;
+
+    const total = parts.reduce((sum, p) => sum + p.weight, 0);
+    const blend = (value: (p: Prediction) => number, scale: number = 10) =>
+      Math.round(parts.reduce((sum, p) => sum + p.weight * value(p.prediction), 0) / total * scale) / scale;
+
+    predictions.push({
+      ...parts[0].prediction,
+      projected_pra: blend(p => p.projected_pra),
+      ceiling_pra: blend(p => p.ceiling_pra),
+      ceiling_score: blend(p => p.ceiling_score),
+      play_probability: blend(p => p.play_probability, 1000)
+    });
+  }
+
+  predictions.sort((a, b) => b.ceiling_score - a.ceiling_score);
+  return predictions;
+}
+
+// Turn a stored snapshot plus box scores into a training slate
+// Returns null when the actual winner wasn't in our predicted pool
+export function buildTrainingSlate(
+  predictions: HistoricalPrediction[],
+  actuals: ActualResult[],
+  modelIds: ModelId[]
+): EnsembleTrainingSlate | null {
+  const nameKey = (name: string) => name.toLowerCase().replace(/[^a-z]/g, '');
+  const winner = actuals.find(a => a.actual_rank === 1 && !a.did_not_play);
+  if (!winner) return null;
+
+  // Scores per player from every component model
+  const byPlayer = new Map<string, { name: string; scores: Record<ModelId, number> }>();
+  for (const p of predictions) {
+    if (!modelIds.includes(p.model_version)) continue;
+    const entry = byPlayer.get(p.player_id) || { name: p.player_name, scores: {} };
+    entry.scores[p.model_version] = p.score;
+    byPlayer.set(p.player_id, entry);
+  }
+
+  const features: number[][] = [];
+  let winnerIndex = -1;
+  byPlayer.forEach(entry => {
+    if (!modelIds.every(id => entry.scores[id] !== undefined)) return;
+    if (nameKey(entry.name) === nameKey(winner.player_name)) winnerIndex = features.length;
+    features.push(modelIds.map(id => entry.scores[id]));
+  });
+
+  if (winnerIndex < 0 || features.length < 2) return null;
+  return { date: predictions[0]?.date || winner.date, features, winner_index: winnerIndex };
+}
+
+// Fit weights by gradient ascent on the mean winner log-likelihood with an L2
+// penalty (the objective is concave, so this converges to the optimum)
+export function fitEnsembleWeights(
+  slates: EnsembleTrainingSlate[],
+  modelIds: ModelId[],
+  options: EnsembleFitOptions = {}
+): Omit<EnsembleWeights, 'version'> {
+  const l2Penalty = options.l2Penalty ?? DEFAULT_L2_PENALTY;
+  const iterations = options.iterations ?? DEFAULT_ITERATIONS;
+  const learningRate = options.learningRate ?? DEFAULT_LEARNING_RATE;
+  const k = modelIds.length;
+
+  // Normalization stats per component over every training player
+  const rows = slates.flatMap(s => s.features);
+  const means = modelIds.map((_, j) => rows.reduce((sum, r) => sum + r[j], 0) / (rows.length || 1));
+  const stds = modelIds.map((_, j) => {
+    const variance = rows.reduce((sum, r) => sum + (r[j] - means[j]) ** 2, 0) / (rows.length || 1);
+    return Math.sqrt(variance) || 1;
+  });
+  const normalized = slates.map(s => ({
+    z: s.features.map(r => r.map((v, j) => (v - means[j]) / stds[j])),
+    winner: s.winner_index
+  }));
+
+  // Mean log-likelihood of the winners and its gradient
+  const evaluate = (w: number[]) => {
+    let logLikelihood = 0;
+    const gradient = new Array(k).fill(0);
+    for (const slate of normalized) {
+      const logits = slate.z.map(z => z.reduce((sum, v, j) => sum + w[j] * v, 0));
+      const max = Math.max(...logits);
+      const exps = logits.map(l => Math.exp(l - max));
+      const total = exps.reduce((sum, e) => sum + e, 0);
+      logLikelihood += logits[slate.winner] - max - Math.log(total);
+      for (let j = 0; j < k; j++) {
+        const expected = slate.z.reduce((sum, z, i) => sum + z[j] * exps[i] / total, 0);
+        gradient[j] += slate.z[slate.winner][j] - expected;
+      }
+    }
+    const n = normalized.length || 1;
+    return { logLikelihood: logLikelihood / n, gradient: gradient.map(g => g / n) };
+  };
+
+  let weights = new Array(k).fill(1 / Math.max(k, 1));
+  for (let iter = 0; iter < iterations && normalized.length > 0; iter++) {
+    const { gradient } = evaluate(weights);
+    weights = weights.map((w, j) => w + learningRate * (gradient[j] - 2 * l2Penalty * w));
+  }
+
+  const dates = slates.map(s => s.date).sort();
+  const round = (n: number) => Math.round(n * 10000) / 10000;
+
+  return {
+    fitted_at: new Date().toISOString(),
+    method: 'winner_log_likelihood',
+    slates: slates.length,
+    date_range: dates.length > 0 ? { start: dates[0], end: dates[dates.length - 1] } : null,
+    l2_penalty: l2Penalty,
+    avg_log_loss: normalized.length > 0 ? round(-evaluate(weights).logLikelihood) : null,
+    uniform_log_loss: slates.length > 0
+      ? round(slates.reduce((sum, s) => sum + Math.log(s.features.length), 0) / slates.length)
+      : null,
+    components: modelIds.map((model, j) => ({
+      model,
+      weight: round(weights[j]),
+      mean: round(means[j]),
+      std: round(stds[j])
+    }))
+  };
+}
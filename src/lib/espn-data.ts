@@ -1,4 +1,16 @@
 // ESPN Data Fetching - Robust version with multiple fallbacks
+import { fetchPlayerGameLog, summarizeGameLog, emptyGameLogSummary, gameLogAsOf, GameLogEntry } from './game-logs';
+import { resolveSeasonStats, saveSeasonStatsCache, StatsProvenance } from './season-stats';
+import { selectRotation, DEFAULT_ROTATION_DEPTH } from './rotation';
+import { getSlateDate, getSlateWeekday, getSeasonYear, addDays, toESPNDate } from './slate-date';
+import { getDefensiveRating, getTeamPace, projectGamePossessions, normalizeTeamAbbrev, TeamMetricsTable } from './team-metrics';
+import { getPositionDefenseModifier, PositionDefenseTable } from './position-defense';
+import { loadTeamMetrics } from './team-metrics-store';
+import { loadRollingTeamMetrics, loadPositionDefense, loadRecentEjections, loadRecentStarts } from './team-form';
+import type { MinutesProjection } from './minutes';
+import { RosterLog, TeamRosterLogs } from './teammate-splits';
+import type { VacatedUsage } from './vacated-usage';
+
 export interface Game {
   id: string;
   home_team: string;
@@ -11,6 +23,7 @@ export interface Game {
   status: string;
   spread?: number;
   over_under?: number;
+  projected_possessions?: number; // Per team, from both paces and the total (set by fetchPlayersForGames)
 }
 
 export interface EnhancedPlayerData {
@@ -23,18 +36,41 @@ export interface EnhancedPlayerData {
   opponent_abbrev: string;
   game_time: string;
   is_home: boolean;
+  matchup: string;            // e.g. "DAL @ DEN"
+  headshot: string | null;
   
   // Stats
   ppg: number;
   rpg: number;
   apg: number;
   fgp: number;
+  stats_provenance: StatsProvenance; // Where each season stat came from
+  
+  // Game log (see game-logs.ts)
+  last_games_pra: number[];   // Last 10 games, oldest -> newest
+  last_games_minutes: number[]; // Same games as last_games_pra
+  pra_avg: number;
+  max_pra_last_10: number;
+  usage_rate: number;
+  mpg: number;
+  fouls_per_game: number;
+  foul_outs: number;          // Season games with 6+ fouls
+  recent_ejections?: number;  // Ejections in the last 60 days (box scores)
+  triple_doubles: number;
+  games_played: number;
+  
+  // Minutes projection (see minutes.ts; attached once injuries are known)
+  minutes_projection?: MinutesProjection;
+  vacated_usage?: VacatedUsage;  // Gains from OUT teammates (see vacated-usage.ts)
   
   // Context
   spread: number | null;
   over_under: number | null;
   opp_def_rating: number;
-  pace: number;
+  opponent_pace: number;
+  pace: number;                    // Player's own team pace
+  projected_possessions: number;   // Game-level projection (see projectGamePossessions)
+  position_modifier: number;       // PRA the opponent allows this position vs league (see position-defense.ts)
   
   // Injury info
   injury_status?: 'OUT' | 'DOUBTFUL' | 'QUESTIONABLE' | 'PROBABLE' | 'HEALTHY';
@@ -49,17 +85,17 @@ export interface EnhancedPlayerData {
   is_mock?: boolean;
 }
 
-// Back-to-back detection
-export async function detectBackToBack(games: Game[]): Promise<{ teamB2B: Set<string>, source: 'espn' | 'none' }> {
-  console.log('[KOTC] Checking for back-to-back games...');
+// Back-to-back detection (teams that played the day before the slate)
+export async function detectBackToBack(
+  games: Game[],
+  slateDate: string = getSlateDate()
+): Promise<{ teamB2B: Set<string>, source: 'espn' | 'none' }> {
+  console.log(`[KOTC] Checking for back-to-back games (slate ${slateDate})...`);
   
   const teamB2B = new Set<string>();
   
   try {
-    // Get yesterday's date
-    const yesterday = new Date();
-    yesterday.setDate(yesterday.getDate() - 1);
-    const yesterdayStr = yesterday.toISOString().split('T')[0].replace(/-/g, '');
+    const yesterdayStr = toESPNDate(addDays(slateDate, -1));
     
     const url = `https://site.api.espn.com/apis/site/v2/sports/basketball/nba/scoreboard?dates=${yesterdayStr}`;
     const response = await fetch(url, {
@@ -109,32 +145,17 @@ export async function detectBackToBack(games: Game[]): Promise<{ teamB2B: Set<st
   }
 }
 
-// Team defensive ratings (lower = better defense)
-const TEAM_DEF_RATINGS: Record<string, number> = {
-  'CLE': 105.2, 'OKC': 106.1, 'BOS': 106.8, 'HOU': 107.3, 'MEM': 108.0,
-  'ORL': 108.5, 'MIN': 108.9, 'NYK': 109.2, 'LAL': 109.5, 'DEN': 109.8,
-  'GSW': 110.1, 'MIA': 110.4, 'SAC': 110.7, 'PHX': 111.0, 'DAL': 111.3,
-  'IND': 111.6, 'MIL': 111.9, 'ATL': 112.2, 'PHI': 112.5, 'BKN': 112.8,
-  'LAC': 113.1, 'CHI': 113.4, 'TOR': 113.7, 'POR': 114.0, 'SAS': 114.3,
-  'NOP': 114.6, 'DET': 115.0, 'UTA': 115.5, 'WAS': 116.0, 'CHA': 117.0
-};
-
-const TEAM_PACE: Record<string, number> = {
-  'IND': 103.5, 'ATL': 102.8, 'SAC': 102.5, 'MIL': 102.0, 'DEN': 101.5,
-  'MIN': 101.0, 'UTA': 100.8, 'POR': 100.5, 'PHX': 100.2, 'LAL': 100.0,
-  'DAL': 99.8, 'BOS': 99.5, 'OKC': 99.2, 'GSW': 99.0, 'CHI': 98.8,
-  'TOR': 98.5, 'NOP': 98.2, 'SAS': 98.0, 'CHA': 97.8, 'WAS': 97.5,
-  'BKN': 97.2, 'DET': 97.0, 'PHI': 96.8, 'LAC': 96.5, 'HOU': 96.2,
-  'MIA': 96.0, 'NYK': 95.8, 'MEM': 95.5, 'ORL': 95.2, 'CLE': 95.0
-};
-
-// Fetch today's games from ESPN
-export async function fetchTodaysGames(): Promise<{ games: Game[], source: 'espn' | 'mock' }> {
-  console.log('[KOTC] Fetching today\'s games from ESPN...');
+// Fetch a slate's games from ESPN
+// With no date: today's Eastern slate, falling back to tomorrow if empty
+// With a date: exactly that slate (no fallback)
+export async function fetchTodaysGames(
+  date?: string
+): Promise<{ games: Game[], source: 'espn' | 'mock', date: string }> {
+  const slateDate = date || getSlateDate();
+  console.log(`[KOTC] Fetching games for ${slateDate} from ESPN...`);
   
   try {
-    const today = new Date();
-    const dateStr = today.toISOString().split('T')[0].replace(/-/g, '');
+    const dateStr = toESPNDate(slateDate);
     
     const url = `https://site.api.espn.com/apis/site/v2/sports/basketball/nba/scoreboard?dates=${dateStr}`;
     console.log('[KOTC] ESPN URL:', url);
@@ -154,11 +175,15 @@ export async function fetchTodaysGames(): Promise<{ games: Game[], source: 'espn
     
     console.log(`[KOTC] Found ${events.length} games from ESPN`);
     
+    if (events.length === 0 && date) {
+      console.log(`[KOTC] No games on ${slateDate}, using mock`);
+      return { games: getMockGames(), source: 'mock', date: slateDate };
+    }
+    
     if (events.length === 0) {
       // Try tomorrow's games
-      const tomorrow = new Date(today);
-      tomorrow.setDate(tomorrow.getDate() + 1);
-      const tomorrowStr = tomorrow.toISOString().split('T')[0].replace(/-/g, '');
+      const tomorrowDate = addDays(slateDate, 1);
+      const tomorrowStr = toESPNDate(tomorrowDate);
       
       const tomorrowUrl = `https://site.api.espn.com/apis/site/v2/sports/basketball/nba/scoreboard?dates=${tomorrowStr}`;
       const tomorrowResponse = await fetch(tomorrowUrl, {
@@ -172,18 +197,18 @@ export async function fetchTodaysGames(): Promise<{ games: Game[], source: 'espn
         
         if (tomorrowEvents.length > 0) {
           console.log(`[KOTC] Found ${tomorrowEvents.length} games for tomorrow`);
-          return { games: parseESPNGames(tomorrowEvents), source: 'espn' };
+          return { games: parseESPNGames(tomorrowEvents), source: 'espn', date: tomorrowDate };
         }
       }
       
       console.log('[KOTC] No games today or tomorrow, using mock');
-      return { games: getMockGames(), source: 'mock' };
+      return { games: getMockGames(), source: 'mock', date: slateDate };
     }
     
-    return { games: parseESPNGames(events), source: 'espn' };
+    return { games: parseESPNGames(events), source: 'espn', date: slateDate };
   } catch (error) {
     console.error('[KOTC] Error fetching ESPN games:', error);
-    return { games: getMockGames(), source: 'mock' };
+    return { games: getMockGames(), source: 'mock', date: slateDate };
   }
 }
 
@@ -221,11 +246,49 @@ function parseESPNGames(events: any[]): Game[] {
   });
 }
 
+export interface FetchPlayersOptions {
+  depth?: number; // Rotation players kept per team (by recent minutes)
+  // Point-in-time mode for replays: only games before this slate date are used,
+  // and stats come from the game log alone (season/roster endpoints are current)
+  asOf?: string;
+  // Slate the games belong to (defaults to asOf, then today's slate). Rolling
+  // team and position tables are built as of it, so previews of a future slate
+  // don't use today's
+  slateDate?: string;
+}
+
 // Fetch players for games - try multiple methods
-export async function fetchPlayersForGames(games: Game[]): Promise<{ players: EnhancedPlayerData[], source: 'espn' | 'mock' }> {
-  console.log(`[KOTC] Fetching players for ${games.length} games...`);
+export async function fetchPlayersForGames(
+  games: Game[],
+  options: FetchPlayersOptions = {}
+): Promise<{ players: EnhancedPlayerData[], source: 'espn' | 'mock', rosterLogs: TeamRosterLogs }> {
+  const depth = options.depth ?? DEFAULT_ROTATION_DEPTH;
+  const asOf = options.asOf;
+  const season = asOf ? getSeasonYear(asOf) : undefined;
+  console.log(`[KOTC] Fetching players for ${games.length} games (depth ${depth}${asOf ? `, as of ${asOf}` : ''})...`);
+  
+  // Team DRTG/pace (the models look these up by team): the season table,
+  // overlaid with each team's last 10 games before this slate, plus the
+  // PRA-allowed-by-position table from the same box scores
+  const slateDate = options.slateDate ?? asOf ?? getSlateDate();
+  const seasonMetrics = await loadTeamMetrics(season ?? getSeasonYear(slateDate));
+  const [teamMetrics, positionDefense, ejections, starts] = await Promise.all([
+    loadRollingTeamMetrics(slateDate, seasonMetrics),
+    loadPositionDefense(slateDate),
+    loadRecentEjections(slateDate),
+    loadRecentStarts(slateDate)
+  ]);
+  const tables: SlateTables = { team_metrics: teamMetrics, position_defense: positionDefense };
+  
+  // Game pace needs both teams' metrics, so it's projected once they're loaded
+  for (const game of games) {
+    game.projected_possessions = projectGamePossessions(
+      teamMetrics, game.home_team_abbrev, game.away_team_abbrev, game.over_under
+    );
+  }
   
   const allPlayers: EnhancedPlayerData[] = [];
+  const slateRosterLogs: TeamRosterLogs = new Map();
   const processedTeams = new Set<string>();
   let anyRealData = false;
   
@@ -254,8 +317,48 @@ export async function fetchPlayersForGames(games: Game[]): Promise<{ players: En
             anyRealData = true;
             console.log(`[KOTC] Got ${athletes.length} players for ${teamAbbrev}`);
             
-            for (const athlete of athletes.slice(0, 8)) { // Top 8 per team
-              const stats = athlete.statistics || {};
+            // Game logs for the full roster drive rotation selection
+            const rosterLogs: Array<GameLogEntry[] | null> = await Promise.all(
+              athletes.map(async (athlete: any) => {
+                if (!athlete.id) return null;
+                const log = await fetchPlayerGameLog(athlete.id, season);
+                return log && asOf ? gameLogAsOf(log, asOf) : log;
+              })
+            );
+            
+            // Every roster log is kept for teammate splits (an injured star
+            // drops out of the rotation but still matters to their teammates)
+            const roster: RosterLog[] = athletes
+              .map((athlete: any, i: number) => ({
+                player_id: String(athlete.id || ''),
+                name: athlete.displayName || athlete.fullName || 'Unknown',
+                log: rosterLogs[i] || []
+              }))
+              .filter((r: RosterLog) => r.player_id && r.log.length > 0);
+            slateRosterLogs.set(normalizeTeamAbbrev(teamAbbrev), roster);
+            
+            const rotation = selectRotation<any>(
+              athletes.map((athlete: any, i: number) => ({
+                athlete,
+                gameLog: rosterLogs[i],
+                seasonMpg: asOf ? undefined : parseFloat(athlete.statistics?.mpg) || undefined,
+                recentStarts: starts.get(String(athlete.id)) || 0
+              })),
+              depth
+            );
+            
+            const seasonStats = await Promise.all(
+              rotation.map(({ athlete, gameLog }) => asOf
+                ? resolveSeasonStats('', undefined, gameLog)
+                : resolveSeasonStats(athlete.id || '', athlete.statistics, gameLog)
+              )
+            );
+            
+            rotation.forEach(({ athlete, gameLog }, i) => {
+              const { stats_provenance, ...stats } = seasonStats[i];
+              const logSummary = gameLog && gameLog.length > 0
+                ? summarizeGameLog(gameLog)
+                : emptyGameLogSummary(stats.ppg + stats.rpg + stats.apg);
               
               allPlayers.push({
                 player_id: athlete.id || `${teamAbbrev}-${athlete.displayName}`,
@@ -267,17 +370,16 @@ export async function fetchPlayersForGames(games: Game[]): Promise<{ players: En
                 opponent_abbrev: opponentAbbrev,
                 game_time: game.game_time,
                 is_home: isHome,
-                ppg: parseFloat(stats.ppg) || Math.random() * 15 + 10,
-                rpg: parseFloat(stats.rpg) || Math.random() * 5 + 3,
-                apg: parseFloat(stats.apg) || Math.random() * 4 + 2,
-                fgp: parseFloat(stats.fgp) || Math.random() * 0.1 + 0.4,
-                spread: game.spread ?? null,
-                over_under: game.over_under ?? null,
-                opp_def_rating: TEAM_DEF_RATINGS[opponentAbbrev] || 110,
-                pace: TEAM_PACE[teamAbbrev] || 99,
+                matchup: formatMatchup(teamAbbrev, opponentAbbrev, isHome),
+                headshot: athlete.headshot?.href || null,
+                ...stats,
+                stats_provenance,
+                ...logSummary,
+                recent_ejections: ejections.get(String(athlete.id)) || 0,
+                ...matchupContext(tables, game, teamAbbrev, opponentAbbrev, athlete.position?.abbreviation || 'F'),
                 is_mock: false
               });
-            }
+            });
           }
         }
       } catch (error) {
@@ -286,18 +388,52 @@ export async function fetchPlayersForGames(games: Game[]): Promise<{ players: En
     }
   }
   
+  // One cache write for every season average fetched above
+  await saveSeasonStatsCache();
+  
   // If we didn't get any real player data, generate mock players for real games
   if (allPlayers.length === 0) {
     console.log('[KOTC] No ESPN player data, using mock players');
-    return { players: getMockPlayersForGames(games), source: 'mock' };
+    return { players: getMockPlayersForGames(games, tables), source: 'mock', rosterLogs: slateRosterLogs };
   }
   
   console.log(`[KOTC] Returning ${allPlayers.length} players (real data: ${anyRealData})`);
-  return { players: allPlayers, source: anyRealData ? 'espn' : 'mock' };
+  return { players: allPlayers, source: anyRealData ? 'espn' : 'mock', rosterLogs: slateRosterLogs };
+}
+
+function formatMatchup(teamAbbrev: string, opponentAbbrev: string, isHome: boolean): string {
+  return isHome ? `${teamAbbrev} vs ${opponentAbbrev}` : `${teamAbbrev} @ ${opponentAbbrev}`;
+}
+
+// Per-slate tables, built once per fetchPlayersForGames() call
+interface SlateTables {
+  team_metrics: TeamMetricsTable | null;
+  position_defense: PositionDefenseTable | null;
+}
+
+// Game and matchup context fields of EnhancedPlayerData, looked up in this
+// slate's tables (the models read these fields, never the tables)
+function matchupContext(
+  tables: SlateTables,
+  game: Game,
+  teamAbbrev: string,
+  opponentAbbrev: string,
+  position: string
+) {
+  const pace = getTeamPace(tables.team_metrics, teamAbbrev);
+  return {
+    spread: game.spread ?? null,
+    over_under: game.over_under ?? null,
+    opp_def_rating: getDefensiveRating(tables.team_metrics, opponentAbbrev),
+    opponent_pace: getTeamPace(tables.team_metrics, opponentAbbrev),
+    pace,
+    projected_possessions: game.projected_possessions ?? pace,
+    position_modifier: getPositionDefenseModifier(tables.position_defense, opponentAbbrev, position)
+  };
 }
 
 // Generate mock players for real ESPN games
-function getMockPlayersForGames(games: Game[]): EnhancedPlayerData[] {
+function getMockPlayersForGames(games: Game[], tables: SlateTables): EnhancedPlayerData[] {
   const mockPlayers: EnhancedPlayerData[] = [];
   
   // Star players by team
@@ -346,14 +482,15 @@ function getMockPlayersForGames(games: Game[]): EnhancedPlayerData[] {
           opponent_abbrev: opponentAbbrev,
           game_time: game.game_time,
           is_home: isHome,
+          matchup: formatMatchup(teamAbbrev, opponentAbbrev, isHome),
+          headshot: null,
           ppg: player.ppg,
           rpg: player.rpg,
           apg: player.apg,
           fgp: 0.45 + Math.random() * 0.1,
-          spread: game.spread ?? null,
-          over_under: game.over_under ?? null,
-          opp_def_rating: TEAM_DEF_RATINGS[opponentAbbrev] || 110,
-          pace: TEAM_PACE[teamAbbrev] || 99,
+          stats_provenance: { ppg: 'mock', rpg: 'mock', apg: 'mock', fgp: 'mock' },
+          ...emptyGameLogSummary(player.ppg + player.rpg + player.apg),
+          ...matchupContext(tables, game, teamAbbrev, opponentAbbrev, player.pos),
           is_mock: true
         });
       }
@@ -365,9 +502,10 @@ function getMockPlayersForGames(games: Game[]): EnhancedPlayerData[] {
 
 // Generate completely mock games when ESPN is down
 function getMockGames(): Game[] {
-  // Rotate matchups based on day
-  const day = new Date().getDay();
-  const dayOfMonth = new Date().getDate();
+  // Rotate matchups based on slate day
+  const slateDate = getSlateDate();
+  const day = getSlateWeekday(slateDate);
+  const dayOfMonth = parseInt(slateDate.split('-')[2], 10);
   
   const allMatchups = [
     { home: 'MIA', away: 'ORL', h: 'Miami Heat', a: 'Orlando Magic' },
@@ -0,0 +1,195 @@
+// Player Game Logs
+// Fetches per-athlete game logs from ESPN and derives last-10 PRA, minutes,
+// usage, foul and triple-double fields used by the V1/V2 prediction models
+
+import { getSlateDate } from './slate-date';
+
+export interface GameLogEntry {
+  event_id: string;
+  date: string;
+  opponent_abbrev: string;
+  is_home: boolean;
+  team_abbrev?: string;  // Player's team in that game (logs run across trades)
+  minutes: number;
+  points: number;
+  rebounds: number;
+  assists: number;
+  steals: number;
+  blocks: number;
+  turnovers: number;
+  fouls: number;
+  fgm: number;
+  fga: number;
+  fta: number;
+  pra: number;
+}
+
+export interface GameLogSummary {
+  last_games_pra: number[];   // Oldest -> newest, max 10 games
+  last_games_minutes: number[]; // Same games as last_games_pra
+  pra_avg: number;            // Season PRA per game
+  max_pra_last_10: number;
+  usage_rate: number;         // Estimated usage % (0 = unknown)
+  mpg: number;                // Season minutes per game (0 = unknown)
+  fouls_per_game: number;     // Personal fouls, last 10 games
+  foul_outs: number;          // Season games with 6+ fouls
+  triple_doubles: number;
+  games_played: number;
+}
+
+const LAST_N_GAMES = 10;
+
+// League-average team "plays" (FGA + 0.44*FTA + TOV) per 48 minutes
+// Used to estimate usage without team box score totals
+const LEAGUE_TEAM_PLAYS_PER_48 = 112;
+
+// Fetch a player's season game log from ESPN
+// `season` is the NBA season end year (2025 = 2024-25); defaults to current
+export async function fetchPlayerGameLog(playerId: string, season?: number): Promise<GameLogEntry[] | null> {
+  try {
+    const seasonQuery = season ? `?season=${season}` : '';
+    const url = `https://site.web.api.espn.com/apis/common/v3/sports/basketball/nba/athletes/${playerId}/gamelog${seasonQuery}`;
+    const response = await fetch(url, {
+      headers: { 'Accept': 'application/json' },
+      next: { revalidate: 3600 }
+    });
+
+    if (!response.ok) {
+      console.log(`[KOTC] Game log not available for ${playerId}:`, response.status);
+      return null;
+    }
+
+    const data = await response.json();
+    return parseGameLog(data);
+  } catch (error) {
+    console.log(`[KOTC] Error fetching game log for ${playerId}:`, error);
+    return null;
+  }
+}
+
+// Parse ESPN gamelog payload into entries sorted oldest -> newest
+export function parseGameLog(data: any): GameLogEntry[] {
+  const labels: string[] = data?.labels || [];
+  const eventMeta = data?.events || {};
+  const col = (label: string) => labels.indexOf(label);
+
+  const minIdx = col('MIN');
+  const fgIdx = col('FG');
+  const ftIdx = col('FT');
+  const rebIdx = col('REB');
+  const astIdx = col('AST');
+  const stlIdx = col('STL');
+  const blkIdx = col('BLK');
+  const toIdx = col('TO');
+  const pfIdx = col('PF');
+  const ptsIdx = col('PTS');
+
+  if (ptsIdx < 0 || rebIdx < 0 || astIdx < 0) return [];
+
+  const num = (stats: string[], idx: number) => idx >= 0 ? parseFloat(stats[idx]) || 0 : 0;
+  // "made-attempted" columns (e.g. FG "10-20")
+  const madeAttempted = (stats: string[], idx: number, part: 0 | 1) => {
+    if (idx < 0 || !stats[idx]) return 0;
+    return parseFloat(String(stats[idx]).split('-')[part]) || 0;
+  };
+
+  const entries: GameLogEntry[] = [];
+  const seen = new Set<string>();
+
+  for (const seasonType of data?.seasonTypes || []) {
+    // Only regular season and postseason count toward form
+    if (/preseason/i.test(seasonType.displayName || '')) continue;
+
+    for (const category of seasonType.categories || []) {
+      for (const event of category.events || []) {
+        const eventId = event.eventId;
+        const stats: string[] = event.stats || [];
+        if (!eventId || seen.has(eventId) || stats.length === 0) continue;
+        seen.add(eventId);
+
+        const meta = eventMeta[eventId] || {};
+        const points = num(stats, ptsIdx);
+        const rebounds = num(stats, rebIdx);
+        const assists = num(stats, astIdx);
+
+        entries.push({
+          event_id: eventId,
+          date: meta.gameDate || '',
+          opponent_abbrev: meta.opponent?.abbreviation || '',
+          is_home: meta.atVs !== '@',
+          team_abbrev: meta.team?.abbreviation || undefined,
+          minutes: num(stats, minIdx),
+          points,
+          rebounds,
+          assists,
+          steals: num(stats, stlIdx),
+          blocks: num(stats, blkIdx),
+          turnovers: num(stats, toIdx),
+          fouls: num(stats, pfIdx),
+          fgm: madeAttempted(stats, fgIdx, 0),
+          fga: madeAttempted(stats, fgIdx, 1),
+          fta: madeAttempted(stats, ftIdx, 1),
+          pra: points + rebounds + assists
+        });
+      }
+    }
+  }
+
+  return entries.sort((a, b) => a.date.localeCompare(b.date));
+}
+
+// Entries from slates strictly before `date` (point-in-time view for replays)
+export function gameLogAsOf(entries: GameLogEntry[], date: string): GameLogEntry[] {
+  return entries.filter(e => e.date && getSlateDate(new Date(e.date)) < date);
+}
+
+// Derive model inputs from a game log
+export function summarizeGameLog(entries: GameLogEntry[]): GameLogSummary {
+  const played = entries.filter(e => e.minutes > 0);
+
+  if (played.length === 0) {
+    return emptyGameLogSummary(0);
+  }
+
+  const recent = played.slice(-LAST_N_GAMES);
+  const lastGames = recent.map(e => e.pra);
+  const totalMinutes = played.reduce((sum, e) => sum + e.minutes, 0);
+  const totalPlays = played.reduce((sum, e) => sum + e.fga + 0.44 * e.fta + e.turnovers, 0);
+
+  const usageRate = totalMinutes > 0
+    ? (totalPlays / (totalMinutes / 48 * LEAGUE_TEAM_PLAYS_PER_48)) * 100
+    : 0;
+
+  const tripleDoubles = played.filter(e =>
+    [e.points, e.rebounds, e.assists, e.steals, e.blocks].filter(v => v >= 10).length >= 3
+  ).length;
+
+  return {
+    last_games_pra: lastGames,
+    last_games_minutes: recent.map(e => e.minutes),
+    pra_avg: Math.round(played.reduce((sum, e) => sum + e.pra, 0) / played.length * 10) / 10,
+    max_pra_last_10: Math.max(...lastGames),
+    usage_rate: Math.round(usageRate * 10) / 10,
+    mpg: Math.round(totalMinutes / played.length * 10) / 10,
+    fouls_per_game: Math.round(recent.reduce((sum, e) => sum + e.fouls, 0) / recent.length * 10) / 10,
+    foul_outs: played.filter(e => e.fouls >= 6).length,
+    triple_doubles: tripleDoubles,
+    games_played: played.length
+  };
+}
+
+// Summary for players without a game log (falls back to season PRA)
+export function emptyGameLogSummary(praAvg: number): GameLogSummary {
+  return {
+    last_games_pra: [],
+    last_games_minutes: [],
+    pra_avg: praAvg,
+    max_pra_last_10: praAvg,
+    usage_rate: 0,
+    mpg: 0,
+    fouls_per_game: 0,
+    foul_outs: 0,
+    triple_doubles: 0,
+    games_played: 0
+  };
+}
@@ -4,6 +4,8 @@
  * Contains all known KOTC winners and results for tracking accuracy.
  */
 
+import { getSlateDate, getSlateWeekday, addDays } from './slate-date';
+
 export interface KOTCResult {
   date: string;
   day_of_week: string;
@@ -336,28 +338,21 @@ function calculateStreak(predictions: ModelPrediction[]): string {
 }
 
 /**
- * Get upcoming KOTC Tuesdays
+ * Get upcoming KOTC Tuesdays (Eastern slate dates)
+ * Today's slate is included while it is still current (see SLATE_ROLLOVER_HOUR)
  */
-export function getUpcomingTuesdays(count: number = 4): string[] {
+export function getUpcomingTuesdays(count: number = 4, now: Date = new Date()): string[] {
   const dates: string[] = [];
-  const today = new Date();
-  const current = new Date(today);
-  
-  // Find next Tuesday
-  while (current.getDay() !== 2) {
-    current.setDate(current.getDate() + 1);
-  }
+  let current = getSlateDate(now);
   
-  // If today is Tuesday and before 11pm ET, include today
-  if (today.getDay() === 2 && today.getHours() < 23) {
-    dates.push(today.toISOString().split('T')[0]);
-    current.setDate(current.getDate() + 7);
+  // Find next Tuesday (or today if the current slate is a Tuesday)
+  while (getSlateWeekday(current) !== 2) {
+    current = addDays(current, 1);
   }
   
-  // Add upcoming Tuesdays
   while (dates.length < count) {
-    dates.push(current.toISOString().split('T')[0]);
-    current.setDate(current.getDate() + 7);
+    dates.push(current);
+    current = addDays(current, 7);
   }
   
   return dates;
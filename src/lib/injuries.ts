@@ -1,6 +1,8 @@
 // NBA Injury Tracking
 // Fetches injury data from ESPN and flags players
 
+import { getSlateDate } from './slate-date';
+
 export type InjuryStatus = 'OUT' | 'DOUBTFUL' | 'QUESTIONABLE' | 'PROBABLE' | 'HEALTHY';
 
 export interface InjuryInfo {
@@ -15,11 +17,18 @@ export interface InjuryInfo {
 }
 
 // Fetch injuries from ESPN
-export async function fetchInjuries(): Promise<Map<string, InjuryInfo>> {
-  console.log('[KOTC] Fetching NBA injuries...');
+// ESPN only publishes the current report, so past slates get no injury data
+// (today's report would be wrong for them); today and future slates use it as-is
+export async function fetchInjuries(slateDate: string = getSlateDate()): Promise<Map<string, InjuryInfo>> {
+  console.log(`[KOTC] Fetching NBA injuries (slate ${slateDate})...`);
   
   const injuries = new Map<string, InjuryInfo>();
   
+  if (slateDate < getSlateDate()) {
+    console.log('[KOTC] Past slate - current injury report not applicable');
+    return injuries;
+  }
+  
   try {
     // ESPN injuries endpoint
     const url = 'https://site.api.espn.com/apis/site/v2/sports/basketball/nba/injuries';
@@ -90,7 +99,7 @@ export async function fetchInjuries(): Promise<Map<string, InjuryInfo>> {
 }
 
 // Normalize player name for matching
-function normalizePlayerName(name: string): string {
+export function normalizePlayerName(name: string): string {
   return name
     .toLowerCase()
     .normalize('NFD')
@@ -118,26 +127,11 @@ export function getPlayerInjuryStatus(
   return null;
 }
 
-// Score adjustment based on injury status
-export function getInjuryScoreAdjustment(status: InjuryStatus): number {
-  switch (status) {
-    case 'OUT':
-      return -1000; // Effectively remove from rankings
-    case 'DOUBTFUL':
-      return -500; // Likely not playing
-    case 'QUESTIONABLE':
-      return -15; // Risky pick
-    case 'PROBABLE':
-      return -3; // Minor concern
-    case 'HEALTHY':
-    default:
-      return 0;
-  }
-}
-
-// Check if player should be excluded from predictions
+// Check if player should be excluded from predictions. Only OUT players are
+// dropped; DOUBTFUL and other listed players stay in the pool and are
+// discounted by their play probability (play-probability.ts).
 export function shouldExcludePlayer(status: InjuryStatus): boolean {
-  return status === 'OUT' || status === 'DOUBTFUL';
+  return status === 'OUT';
 }
 
 // Get display color for injury status
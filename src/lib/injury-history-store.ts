@@ -0,0 +1,87 @@
+// Injury History Storage
+// One file per slate in data/injuries/{date}.json, updated every time a live
+// injury report is fetched for that slate (see injury-history.ts)
+
+import { promises as fs } from 'fs';
+import path from 'path';
+import { InjuryInfo } from './injuries';
+import { InjuryHistory, applyInjuryReport, changeKind } from './injury-history';
+import { getSlateDate } from './slate-date';
+
+const INJURY_DIR = path.join(process.cwd(), 'data', 'injuries');
+
+// Pending write per slate date. Each record waits for the previous one so
+// concurrent requests don't drop each other's changes (in-process only).
+const pendingWrites = new Map<string, Promise<InjuryHistory | null>>();
+
+function historyFile(date: string): string {
+  return path.join(INJURY_DIR, `${date}.json`);
+}
+
+export async function loadInjuryHistory(date: string): Promise<InjuryHistory | null> {
+  try {
+    const raw = await fs.readFile(historyFile(date), 'utf-8');
+    const history: InjuryHistory = JSON.parse(raw);
+    return { ...history, changes: history.changes.map(c => c.kind ? c : { ...c, kind: changeKind(c) }) };
+  } catch {
+    return null;
+  }
+}
+
+// Diff a fetched report against the stored history and save it. Only the
+// current slate is recorded: ESPN's report is always today's, so storing it
+// under a past or future date would be wrong. Empty reports are skipped too:
+// fetchInjuries returns one on errors, and recording it would mark every
+// listed player as cleared.
+export async function recordInjuryReport(
+  date: string,
+  injuries: Map<string, InjuryInfo>,
+  now: Date = new Date()
+): Promise<InjuryHistory | null> {
+  if (date !== getSlateDate(now) || injuries.size === 0) {
+    return loadInjuryHistory(date);
+  }
+
+  const previous = pendingWrites.get(date) || Promise.resolve(null);
+  const write = previous.then(() => writeInjuryReport(date, injuries, now));
+  pendingWrites.set(date, write);
+  try {
+    return await write;
+  } finally {
+    if (pendingWrites.get(date) === write) pendingWrites.delete(date);
+  }
+}
+
+async function writeInjuryReport(
+  date: string,
+  injuries: Map<string, InjuryInfo>,
+  now: Date
+): Promise<InjuryHistory> {
+  const existing = await loadInjuryHistory(date);
+
+  const history = applyInjuryReport(existing, date, injuries, now);
+  const added = history.changes.length - (existing?.changes.length || 0);
+
+  try {
+    await fs.mkdir(INJURY_DIR, { recursive: true });
+    await fs.writeFile(historyFile(date), JSON.stringify(history, null, 2));
+    if (added > 0) console.log(`[KOTC] Recorded ${added} injury status changes for ${date}`);
+    return history;
+  } catch (error) {
+    console.log('[KOTC] Could not save injury history:', error);
+    return history;
+  }
+}
+
+// Slate dates with stored injury history, newest first
+export async function listInjuryHistoryDates(): Promise<string[]> {
+  try {
+    const files = await fs.readdir(INJURY_DIR);
+    return files
+      .filter(f => f.endsWith('.json'))
+      .map(f => f.slice(0, -'.json'.length))
+      .sort((a, b) => b.localeCompare(a));
+  } catch {
+    return [];
+  }
+}
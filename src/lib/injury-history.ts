@@ -0,0 +1,238 @@
+// Injury Report History
+// fetchInjuries() only sees ESPN's current report. Each report we fetch is
+// diffed against the last one stored for the slate (injury-history-store.ts),
+// keeping the latest status per player plus a timestamped change log: new
+// additions, status changes (QUESTIONABLE -> OUT), injury type changes and
+// players cleared. That lets the dashboard flag recent changes and lets us
+// count late scratches among our top picks after the fact.
+
+import { InjuryInfo, InjuryStatus, normalizePlayerName } from './injuries';
+import { HistoricalPrediction } from './backtest';
+
+export interface InjuryReportEntry {
+  player_id?: string;
+  player_name: string;
+  team_abbrev: string;
+  status: InjuryStatus;
+  injury_type: string;
+}
+
+// added = newly on the report, status = status changed, injury_type = same
+// status with a different injury, cleared = dropped off the report
+export type InjuryChangeKind = 'added' | 'status' | 'injury_type' | 'cleared';
+
+export interface InjuryChange {
+  kind: InjuryChangeKind;
+  player_key: string;            // player_id, else normalized name
+  player_id?: string;
+  player_name: string;
+  team_abbrev: string;
+  from: InjuryStatus | null;     // null = newly added to the report
+  to: InjuryStatus;              // HEALTHY = dropped off the report
+  from_injury_type: string | null;
+  injury_type: string;
+  at: string;                    // When we first saw the change
+}
+
+export interface InjuryHistory {
+  date: string;                  // Eastern slate date
+  first_fetched_at: string;
+  last_fetched_at: string;
+  fetches: number;
+  players: Record<string, InjuryReportEntry>;  // Latest report, keyed like player_key
+  changes: InjuryChange[];       // Oldest first
+}
+
+// Changes newer than this are flagged on the dashboard
+export const RECENT_CHANGE_HOURS = 1;
+
+// Statuses that count as a late scratch (OUT, or all but ruled out)
+const SCRATCH_STATUSES: InjuryStatus[] = ['OUT', 'DOUBTFUL'];
+
+export function isScratch(change: InjuryChange): boolean {
+  return SCRATCH_STATUSES.includes(change.to) && !(change.from && SCRATCH_STATUSES.includes(change.from));
+}
+
+// Kind of a change from its statuses (also fills in histories recorded
+// before changes had a kind)
+export function changeKind(change: Pick<InjuryChange, 'from' | 'to'>): InjuryChangeKind {
+  if (change.from === null) return 'added';
+  if (change.to === 'HEALTHY' && change.from !== 'HEALTHY') return 'cleared';
+  return change.from === change.to ? 'injury_type' : 'status';
+}
+
+function playerKey(info: { player_id?: string; player_name: string }): string {
+  return info.player_id || normalizePlayerName(info.player_name);
+}
+
+// One entry per player (fetchInjuries keys each player by both id and name)
+export function reportEntries(injuries: Map<string, InjuryInfo>): Record<string, InjuryReportEntry> {
+  const entries: Record<string, InjuryReportEntry> = {};
+  for (const info of Array.from(new Set(injuries.values()))) {
+    entries[playerKey(info)] = {
+      player_id: info.player_id || undefined,
+      player_name: info.player_name,
+      team_abbrev: info.team_abbrev,
+      status: info.status,
+      injury_type: info.injury_type
+    };
+  }
+  return entries;
+}
+
+// Injury map in fetchInjuries()'s shape (keyed by player id and normalized
+// name) from a stored report, for slates replayed after the fact
+export function reportInjuries(report: Record<string, InjuryReportEntry>): Map<string, InjuryInfo> {
+  const injuries = new Map<string, InjuryInfo>();
+  for (const entry of Object.values(report)) {
+    const info: InjuryInfo = { ...entry, team: entry.team_abbrev };
+    injuries.set(normalizePlayerName(entry.player_name), info);
+    if (entry.player_id) injuries.set(entry.player_id, info);
+  }
+  return injuries;
+}
+
+// Changes between two reports. Players missing from `current` were cleared.
+export function diffInjuryReports(
+  previous: Record<string, InjuryReportEntry>,
+  current: Record<string, InjuryReportEntry>,
+  at: string
+): InjuryChange[] {
+  const changes: InjuryChange[] = [];
+
+  for (const [key, entry] of Object.entries(current)) {
+    const before = previous[key];
+    if (before?.status === entry.status && before.injury_type === entry.injury_type) continue;
+    const from = before ? before.status : null;
+    changes.push({
+      kind: changeKind({ from, to: entry.status }),
+      player_key: key,
+      player_id: entry.player_id,
+      player_name: entry.player_name,
+      team_abbrev: entry.team_abbrev,
+      from,
+      to: entry.status,
+      from_injury_type: before ? before.injury_type : null,
+      injury_type: entry.injury_type,
+      at
+    });
+  }
+
+  for (const [key, before] of Object.entries(previous)) {
+    if (current[key] || before.status === 'HEALTHY') continue;
+    changes.push({
+      kind: 'cleared',
+      player_key: key,
+      player_id: before.player_id,
+      player_name: before.player_name,
+      team_abbrev: before.team_abbrev,
+      from: before.status,
+      to: 'HEALTHY',
+      from_injury_type: before.injury_type,
+      injury_type: before.injury_type,
+      at
+    });
+  }
+
+  return changes;
+}
+
+// Fold a fetched report into a slate's history
+export function applyInjuryReport(
+  history: InjuryHistory | null,
+  date: string,
+  injuries: Map<string, InjuryInfo>,
+  now: Date = new Date()
+): InjuryHistory {
+  const at = now.toISOString();
+  const current = reportEntries(injuries);
+
+  if (!history) {
+    // The first report is the baseline, not a list of changes
+    return { date, first_fetched_at: at, last_fetched_at: at, fetches: 1, players: current, changes: [] };
+  }
+
+  return {
+    ...history,
+    last_fetched_at: at,
+    fetches: history.fetches + 1,
+    players: current,
+    changes: [...history.changes, ...diffInjuryReports(history.players, current, at)]
+  };
+}
+
+// Changes at or after `since`
+export function changesSince(history: InjuryHistory, since: Date): InjuryChange[] {
+  return history.changes.filter(c => new Date(c.at) >= since);
+}
+
+// The report as it stood at `at`, rebuilt by undoing later changes
+export function reportAt(history: InjuryHistory, at: Date): Record<string, InjuryReportEntry> {
+  const report = { ...history.players };
+  for (const change of [...history.changes].reverse()) {
+    if (new Date(change.at) <= at) break;
+    if (change.from === null || change.from === 'HEALTHY') {
+      delete report[change.player_key];
+    } else {
+      report[change.player_key] = {
+        player_id: change.player_id,
+        player_name: change.player_name,
+        team_abbrev: change.team_abbrev,
+        status: change.from,
+        // Histories recorded before from_injury_type only have the new type
+        injury_type: change.from_injury_type ?? change.injury_type
+      };
+    }
+  }
+  return report;
+}
+
+// Latest change for a player (matched by id, then name), if any
+export function findPlayerChange(
+  changes: InjuryChange[],
+  playerId: string,
+  playerName: string
+): InjuryChange | undefined {
+  const name = normalizePlayerName(playerName);
+  return [...changes].reverse().find(c =>
+    (c.player_id && c.player_id === playerId) || normalizePlayerName(c.player_name) === name
+  );
+}
+
+export interface ScratchedPick {
+  player_id: string;
+  player_name: string;
+  team: string;
+  predicted_rank: number;
+  from: InjuryStatus | null;
+  to: InjuryStatus;
+  at: string;
+}
+
+// Top-N picks from a snapshot that were ruled OUT or DOUBTFUL after it was
+// taken (i.e. after we had already published them)
+export function findScratchedPicks(
+  history: InjuryHistory,
+  picks: HistoricalPrediction[],
+  generatedAt: string,
+  topN: number
+): ScratchedPick[] {
+  const later = changesSince(history, new Date(generatedAt)).filter(isScratch);
+  const scratched: ScratchedPick[] = [];
+
+  for (const pick of picks.filter(p => p.predicted_rank <= topN)) {
+    const change = findPlayerChange(later, pick.player_id, pick.player_name);
+    if (!change) continue;
+    scratched.push({
+      player_id: pick.player_id,
+      player_name: pick.player_name,
+      team: pick.team,
+      predicted_rank: pick.predicted_rank,
+      from: change.from,
+      to: change.to,
+      at: change.at
+    });
+  }
+
+  return scratched.sort((a, b) => a.predicted_rank - b.predicted_rank);
+}
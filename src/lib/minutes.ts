@@ -0,0 +1,192 @@
+// Minutes Projection
+// Minutes are the strongest single predictor of PRA, so both models start from
+// a per-player minutes estimate rather than season MPG:
+// - Baseline: last-10 minutes, weighted toward recent games, plus part of the
+//   last-3 trend (role changes show up there first)
+// - Back-to-back: stars' minutes get trimmed
+// - Spread: starters lose fourth-quarter minutes in expected blowouts, bench
+//   players pick some up
+// - Teammates ruled OUT: their minutes go to the rest of the rotation (from
+//   with/without splits when vacated-usage.ts has run, else by minutes share)
+// - Discipline: foul-outs and ejections cost minutes at their historical rate
+// Projected PRA is then minutes × the player's recent PRA per minute, plus any
+// extra production from OUT teammates' shots and assists.
+
+import { EnhancedPlayerData } from './espn-data';
+
+export interface MinutesProjection {
+  projected_minutes: number;
+  baseline_minutes: number;   // Recency-weighted last-10 minutes
+  pra_per_minute: number;     // Last-10 PRA / minutes
+  projected_pra: number;      // projected_minutes × pra_per_minute + usage_pra
+  usage_pra: number;          // Vacated-usage PRA beyond the extra minutes
+  adjustments: {              // Minutes added (+) or removed (-) by each factor
+    trend: number;
+    b2b: number;
+    blowout: number;
+    teammates_out: number;
+    discipline: number;
+  };
+  factors: string[];
+}
+
+// Used when a player has no game log or MPG
+const DEFAULT_MINUTES = 28;
+
+const MAX_MINUTES = 42;
+
+// Share of the last-3 vs last-10 difference carried into the projection
+const TREND_WEIGHT = 0.5;
+const MAX_TREND = 4;
+
+// Minutes trimmed on a back-to-back for heavy-minute players
+const B2B_MINUTES = 1.5;
+const B2B_MIN_BASELINE = 30;
+
+// Blowout share of minutes lost per point of spread beyond BLOWOUT_START
+const BLOWOUT_START = 6;
+const BLOWOUT_RATE = 0.01;
+const MAX_BLOWOUT_SHARE = 0.10;
+// Role cut-offs (also the simulator's blowout roles)
+export const STARTER_MINUTES = 24;
+export const BENCH_MINUTES = 18;
+
+// Share of an OUT teammate's minutes that stays in the listed rotation (the
+// rest goes to deep bench players we don't track)
+export const ROTATION_SHARE = 0.6;
+
+// Minutes lost in a foul-out or ejection, as a share of a normal game
+const FOUL_OUT_LOSS = 0.3;
+const EJECTION_LOSS = 0.5;
+
+const round = (v: number) => Math.round(v * 10) / 10;
+
+function weightedAverage(values: number[]): number {
+  const weights = values.map((_, i) => i + 1);
+  const total = weights.reduce((a, b) => a + b, 0);
+  return values.reduce((sum, v, i) => sum + v * weights[i], 0) / total;
+}
+
+function average(values: number[]): number {
+  return values.reduce((a, b) => a + b, 0) / values.length;
+}
+
+// Recent minutes before any game-specific adjustment
+function baselineMinutes(player: EnhancedPlayerData): number {
+  const minutes = player.last_games_minutes || [];
+  if (minutes.length > 0) return weightedAverage(minutes);
+  return player.mpg || DEFAULT_MINUTES;
+}
+
+function praPerMinute(player: EnhancedPlayerData): number {
+  const minutes = player.last_games_minutes || [];
+  const pra = player.last_games_pra || [];
+  if (minutes.length > 0 && minutes.length === pra.length) {
+    const total = minutes.reduce((a, b) => a + b, 0);
+    if (total > 0) return pra.reduce((a, b) => a + b, 0) / total;
+  }
+  return player.pra_avg / (player.mpg || DEFAULT_MINUTES);
+}
+
+// Project one player's minutes. `teammatesOutMinutes` is the share of OUT
+// teammates' minutes this player is expected to absorb (see attachMinutesProjections).
+export function projectMinutes(player: EnhancedPlayerData, teammatesOutMinutes: number = 0): MinutesProjection {
+  const baseline = baselineMinutes(player);
+  const factors: string[] = [];
+
+  // Trend: last 3 vs last 10
+  const recent = player.last_games_minutes || [];
+  let trend = 0;
+  if (recent.length >= 5) {
+    const diff = average(recent.slice(-3)) - average(recent);
+    trend = Math.max(-MAX_TREND, Math.min(MAX_TREND, diff * TREND_WEIGHT));
+    if (trend >= 2) factors.push(`Minutes trending up (+${trend.toFixed(1)})`);
+    else if (trend <= -2) factors.push(`Minutes trending down (${trend.toFixed(1)})`);
+  }
+
+  const b2b = player.is_b2b && baseline >= B2B_MIN_BASELINE ? -B2B_MINUTES : 0;
+
+  // Expected blowout: starters sit late, bench players get the garbage time
+  let blowout = 0;
+  const spread = player.spread;
+  if (spread !== null && spread !== undefined) {
+    const share = Math.min(Math.max(Math.abs(spread) - BLOWOUT_START, 0) * BLOWOUT_RATE, MAX_BLOWOUT_SHARE);
+    if (baseline >= STARTER_MINUTES) blowout = -baseline * share;
+    else if (baseline < BENCH_MINUTES) blowout = baseline * share / 2;
+    if (blowout <= -2) factors.push(`Blowout minutes risk (${blowout.toFixed(1)})`);
+  }
+
+  // Vacated usage (splits) replaces the minutes-share estimate when present
+  const vacated = player.vacated_usage;
+  const teammatesOut = vacated ? vacated.minutes : Math.max(teammatesOutMinutes, 0);
+  if (teammatesOut >= 2) factors.push(`+${teammatesOut.toFixed(1)} min (teammates out)`);
+
+  // Foul-outs per game this season, ejections per game over the recent window
+  const gamesPlayed = player.games_played || 0;
+  const foulOutRate = gamesPlayed > 0 ? (player.foul_outs || 0) / gamesPlayed : 0;
+  const ejectionRate = (player.recent_ejections || 0) / Math.max(gamesPlayed, 10);
+  const discipline = -baseline * (foulOutRate * FOUL_OUT_LOSS + ejectionRate * EJECTION_LOSS);
+  if (discipline <= -1) factors.push(`Foul/ejection risk (${discipline.toFixed(1)})`);
+
+  const projected = Math.max(0, Math.min(MAX_MINUTES, baseline + trend + b2b + blowout + teammatesOut + discipline));
+  const rate = praPerMinute(player);
+
+  // Extra shots and assists beyond what the extra minutes already produce
+  const usagePra = vacated ? vacated.pra - vacated.minutes * rate : 0;
+  if (vacated && vacated.pra >= 3) {
+    factors.unshift(`🚀 +${vacated.pra.toFixed(1)} PRA (${vacated.out_teammates.join(', ')} out)`);
+  }
+
+  return {
+    projected_minutes: round(projected),
+    baseline_minutes: round(baseline),
+    pra_per_minute: Math.round(rate * 1000) / 1000,
+    projected_pra: round(Math.max(projected * rate + usagePra, 0)),
+    usage_pra: round(usagePra),
+    adjustments: {
+      trend: round(trend),
+      b2b: round(b2b),
+      blowout: round(blowout),
+      teammates_out: round(teammatesOut),
+      discipline: round(discipline)
+    },
+    factors
+  };
+}
+
+// Projection attached by attachMinutesProjections, or computed without
+// teammate context for players that didn't go through it
+export function getMinutesProjection(player: EnhancedPlayerData): MinutesProjection {
+  return player.minutes_projection ?? projectMinutes(player);
+}
+
+// Projected minutes relative to season MPG, for rescaling per-game season
+// stats to tonight's role (1.0 when MPG is unknown)
+export function minutesScale(player: EnhancedPlayerData): number {
+  if (!player.mpg) return 1;
+  const scale = getMinutesProjection(player).projected_minutes / player.mpg;
+  return Math.max(0.5, Math.min(1.5, scale));
+}
+
+// Project minutes for a whole slate. Call after injuries are merged and before
+// OUT players are filtered: each team's OUT minutes are split across its
+// available rotation in proportion to their own minutes.
+export function attachMinutesProjections(players: EnhancedPlayerData[]): EnhancedPlayerData[] {
+  const isOut = (p: EnhancedPlayerData) => p.injury_status === 'OUT';
+
+  const outMinutes = new Map<string, number>();
+  const availableMinutes = new Map<string, number>();
+  for (const p of players) {
+    const map = isOut(p) ? outMinutes : availableMinutes;
+    map.set(p.team_abbrev, (map.get(p.team_abbrev) || 0) + baselineMinutes(p));
+  }
+
+  return players.map(p => {
+    // OUT players keep an if-they-play projection for views that include them
+    if (isOut(p)) return { ...p, minutes_projection: projectMinutes(p) };
+    const pool = (outMinutes.get(p.team_abbrev) || 0) * ROTATION_SHARE;
+    const teamAvailable = availableMinutes.get(p.team_abbrev) || 0;
+    const share = teamAvailable > 0 ? pool * baselineMinutes(p) / teamAvailable : 0;
+    return { ...p, minutes_projection: projectMinutes(p, share) };
+  });
+}
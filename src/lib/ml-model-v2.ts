@@ -7,7 +7,7 @@
  * Research-backed factors:
  * - Opponent DRTG: 3-5 PRA swing vs bad defenses
  * - Position-specific defense: 2-4 PRA additional swing
- * - Pace: High-pace opponents = more possessions = more stats
+ * - Pace: Projected game possessions (both teams + O/U) = more stats
  * - Spread: 12+ spread = ~33% minutes reduction (blowout risk)
  * - O/U: Proxy for expected game pace
  * - Underdog bonus: Stars on underdogs must carry more
@@ -16,36 +16,14 @@
  */
 
 import { EnhancedPlayerData } from './espn-data';
+import { getMinutesProjection } from './minutes';
+import { getPlayProbability, playProbabilityFactor } from './play-probability';
 import { Prediction } from './prediction-model';
+import type { ModelContext } from './model-registry';
 
-// 2024-25 NBA Team Defensive Ratings
-const TEAM_DEFENSIVE_RATINGS: Record<string, number> = {
-  'CLE': 105.2, 'OKC': 106.8, 'BOS': 107.5, 'MEM': 108.1, 'HOU': 108.5,
-  'NYK': 109.2, 'LAC': 109.8, 'ORL': 110.1, 'MIA': 110.5, 'DEN': 110.8,
-  'MIN': 111.0, 'GSW': 111.3, 'LAL': 111.5, 'MIL': 111.8, 'SAC': 112.0,
-  'PHX': 112.3, 'DAL': 112.5, 'IND': 112.8, 'CHI': 113.2, 'BKN': 113.5,
-  'ATL': 114.0, 'TOR': 114.5, 'POR': 115.0, 'SAS': 115.5, 'DET': 116.0,
-  'PHI': 116.2, 'CHA': 116.8, 'UTA': 117.2, 'WAS': 118.5, 'NOP': 118.8,
-};
-
-// 2024-25 NBA Team Pace
-const TEAM_PACE: Record<string, number> = {
-  'IND': 103.5, 'ATL': 102.8, 'MIL': 102.2, 'SAC': 101.8, 'NOP': 101.5,
-  'DEN': 101.2, 'UTA': 101.0, 'POR': 100.8, 'CHI': 100.5, 'PHX': 100.3,
-  'DAL': 100.0, 'LAL': 99.8, 'BOS': 99.5, 'CHA': 99.3, 'MIN': 99.0,
-  'TOR': 98.8, 'WAS': 98.5, 'BKN': 98.3, 'GSW': 98.0, 'DET': 97.8,
-  'HOU': 97.5, 'SAS': 97.2, 'PHI': 97.0, 'NYK': 96.8, 'LAC': 96.5,
-  'ORL': 96.2, 'MIA': 96.0, 'OKC': 95.8, 'MEM': 95.5, 'CLE': 95.2,
-};
-
-// Position-specific PRA allowed (V2 uses this more aggressively)
-const POSITION_DEFENSE_MODIFIER: Record<string, Record<string, number>> = {
-  'PG': { 'WAS': 1.12, 'NOP': 1.10, 'CHA': 1.08, 'UTA': 1.07, 'DET': 1.05, 'CLE': 0.92, 'OKC': 0.93, 'BOS': 0.94 },
-  'SG': { 'WAS': 1.10, 'NOP': 1.08, 'DET': 1.07, 'UTA': 1.06, 'CHA': 1.05, 'CLE': 0.92, 'BOS': 0.93, 'OKC': 0.94 },
-  'SF': { 'CHA': 1.12, 'WAS': 1.10, 'POR': 1.08, 'UTA': 1.07, 'NOP': 1.05, 'OKC': 0.92, 'BOS': 0.93, 'CLE': 0.94 },
-  'PF': { 'CHA': 1.10, 'NOP': 1.08, 'DET': 1.07, 'WAS': 1.06, 'UTA': 1.05, 'CLE': 0.92, 'OKC': 0.93, 'BOS': 0.94 },
-  'C': { 'CHA': 1.15, 'WAS': 1.12, 'NOP': 1.10, 'UTA': 1.08, 'DET': 1.06, 'CLE': 0.90, 'OKC': 0.92, 'BOS': 0.93 },
-};
+// V2 leans on position matchups harder than V1: the computed modifier's
+// distance from 1.0 is stretched by this factor
+const POSITION_DEFENSE_EMPHASIS = 1.5;
 
 function calculateBlowoutAdjustment(spread: number | null): {
   multiplier: number;
@@ -68,19 +46,18 @@ function calculateBlowoutAdjustment(spread: number | null): {
   return { multiplier: 1.0, risk: 'none', message: '' };
 }
 
-function calculateDefensiveAdjustment(oppAbbrev: string, position: string): {
+function calculateDefensiveAdjustment(player: EnhancedPlayerData): {
   multiplier: number;
   drtg: number;
   message: string;
   positionBonus: number;
 } {
-  const drtg = TEAM_DEFENSIVE_RATINGS[oppAbbrev] || 112;
+  const drtg = player.opp_def_rating;
   const diff = drtg - 112;
   
   // Position-specific modifier (V2 weights this heavily)
-  const pos = position?.toUpperCase() || 'SF';
-  const posModifiers = POSITION_DEFENSE_MODIFIER[pos] || {};
-  const positionBonus = posModifiers[oppAbbrev] || 1.0;
+  const pos = player.position?.toUpperCase() || 'SF';
+  const positionBonus = 1 + (player.position_modifier - 1) * POSITION_DEFENSE_EMPHASIS;
   
   let baseMultiplier = 1.0;
   let message = '';
@@ -101,12 +78,13 @@ function calculateDefensiveAdjustment(oppAbbrev: string, position: string): {
   return { multiplier, drtg, message, positionBonus };
 }
 
-function calculatePaceAdjustment(oppAbbrev: string): {
+// Game-level pace (both teams and the total), falling back to the opponent's
+function calculatePaceAdjustment(player: EnhancedPlayerData): {
   multiplier: number;
   pace: number;
   message: string;
 } {
-  const pace = TEAM_PACE[oppAbbrev] || 100;
+  const pace = player.projected_possessions ?? player.opponent_pace;
   const diff = pace - 100;
   if (diff >= 2.5) return { multiplier: 1.05, pace, message: `Fast pace (${pace.toFixed(0)})` };
   if (diff >= 1) return { multiplier: 1.02, pace, message: '' };
@@ -172,13 +150,10 @@ function calculateBasePlayerScore(player: EnhancedPlayerData): {
   return { score: Math.min(score, 85), avgPra, ceilingPra, hotStreak, coldStreak };
 }
 
-export function predictPlayerV2(player: EnhancedPlayerData): Prediction {
-  const oppAbbrev = player.opponent_abbrev || '';
-  const position = player.position || 'SF';
-  
+export function predictPlayerV2(player: EnhancedPlayerData, context: ModelContext): Prediction {
   const blowout = calculateBlowoutAdjustment(player.spread ?? null);
-  const defense = calculateDefensiveAdjustment(oppAbbrev, position);
-  const pace = calculatePaceAdjustment(oppAbbrev);
+  const defense = calculateDefensiveAdjustment(player);
+  const pace = calculatePaceAdjustment(player);
   const total = calculateTotalAdjustment(player.over_under ?? null);
   const underdog = calculateUnderdogBoost(player.spread ?? null, player.usage_rate ?? 20);
   const { score: baseScore, avgPra, ceilingPra, hotStreak, coldStreak } = calculateBasePlayerScore(player);
@@ -202,12 +177,26 @@ export function predictPlayerV2(player: EnhancedPlayerData): Prediction {
   // FINAL: 25% base stats + 75% context (V2 is HEAVILY context-driven)
   const totalCeilingScore = (baseScore * 0.25) + (contextScore * 0.75);
   
-  let projectedPra = avgPra * contextMultiplier;
-  projectedPra = Math.max(projectedPra, avgPra * 0.65); // V2 allows bigger drops
+  // Projected minutes × recent PRA per minute, including OUT teammates'
+  // minutes, shots and assists (minutes.ts, vacated-usage.ts)
+  const minutes = getMinutesProjection(player);
+  const vacated = player.vacated_usage;
+  const basePra = minutes.projected_pra;
+  
+  let projectedPra = basePra * contextMultiplier;
+  projectedPra = Math.max(projectedPra, basePra * 0.65); // V2 allows bigger drops
   const adjustedCeiling = ceilingPra * contextMultiplier;
   
+  // Injury report: expected PRA and the ranking score scale with the chance they play
+  const playProbability = getPlayProbability(context.play_probabilities, player.injury_status, player.injury_type);
+  
   // Key factors - V2 emphasizes context first
   const keyFactors: string[] = [];
+  const availability = playProbabilityFactor(player, playProbability);
+  if (availability) keyFactors.push(availability);
+  if (vacated && vacated.pra >= 3) {
+    keyFactors.push(`🚀 +${vacated.pra.toFixed(1)} PRA (${vacated.out_teammates.join(', ')} out)`);
+  }
   if (blowout.message) keyFactors.push(blowout.message);
   if (defense.message) keyFactors.push(defense.message);
   if (hotStreak) keyFactors.push('🔥 Hot last 3');
@@ -230,15 +219,16 @@ export function predictPlayerV2(player: EnhancedPlayerData): Prediction {
   
   return {
     player_id: player.player_id,
-    player_name: player.player_name,
+    player_name: player.name,
     team: player.team_abbrev,
     position: player.position,
     matchup: player.matchup || '',
     opponent: player.opponent_abbrev || '',
     headshot: player.headshot,
-    projected_pra: Math.round(projectedPra * 10) / 10,
+    projected_pra: Math.round(projectedPra * playProbability * 10) / 10,
     ceiling_pra: Math.round(adjustedCeiling * 10) / 10,
-    ceiling_score: Math.round(totalCeilingScore * 10) / 10,
+    ceiling_score: Math.round(totalCeilingScore * playProbability * 10) / 10,
+    play_probability: playProbability,
     component_scores: {
       recent_pra: Math.round(baseScore * 10) / 10,
       ceiling_factor: Math.round((ceilingPra / 60) * 100 * 10) / 10,
@@ -252,6 +242,8 @@ export function predictPlayerV2(player: EnhancedPlayerData): Prediction {
       std_dev_pra: Math.round(stdDev * 10) / 10,
       usage_rate: player.usage_rate,
       minutes_per_game: player.mpg,
+      projected_minutes: minutes.projected_minutes,
+      pra_per_minute: minutes.pra_per_minute,
       triple_doubles: player.triple_doubles,
       ppg: player.ppg,
       rpg: player.rpg,
@@ -262,45 +254,52 @@ export function predictPlayerV2(player: EnhancedPlayerData): Prediction {
       over_under: player.over_under ?? null,
       is_home: player.is_home || false,
       opponent_drtg: defense.drtg,
-      opponent_pace: pace.pace,
+      opponent_pace: player.opponent_pace,
+      projected_possessions: pace.pace,
     },
     key_factors: keyFactors.slice(0, 4),
     confidence,
     last_10_pra: player.last_games_pra || [],
+    injury_status: player.injury_status,
+    injury_type: player.injury_type,
+    vacated_usage: player.vacated_usage,
+    is_b2b: player.is_b2b,
+    opponent_b2b: player.opponent_b2b,
   };
 }
 
-export function predictAllPlayersV2(players: EnhancedPlayerData[]): Prediction[] {
-  const predictions = players.map(predictPlayerV2);
+export function predictAllPlayersV2(players: EnhancedPlayerData[], context: ModelContext): Prediction[] {
+  const predictions = players.map(p => predictPlayerV2(p, context));
   predictions.sort((a, b) => b.ceiling_score - a.ceiling_score);
   return predictions;
 }
 
-export function compareModels(v1: Prediction[], v2: Prediction[]): {
+// Compare two models' Prediction rankings (base first, e.g. v1 vs v2)
+export function compareModels(base: Prediction[], compare: Prediction[]): {
   agreement_rate: number;
   top_pick_matches: boolean;
   top_5_overlap: number;
-  major_differences: Array<{ player: string; v1_rank: number; v2_rank: number; reason: string }>;
+  major_differences: Array<{ player: string; base_rank: number; compare_rank: number; reason: string }>;
 } {
-  const v1Top5 = new Set(v1.slice(0, 5).map(p => p.player_id));
-  const v2Top5 = new Set(v2.slice(0, 5).map(p => p.player_id));
-  const overlap = Array.from(v1Top5).filter(id => v2Top5.has(id)).length;
+  const baseTop5 = new Set(base.slice(0, 5).map(p => p.player_id));
+  const compareTop5 = new Set(compare.slice(0, 5).map(p => p.player_id));
+  const overlap = Array.from(baseTop5).filter(id => compareTop5.has(id)).length;
   
-  const differences: Array<{ player: string; v1_rank: number; v2_rank: number; reason: string }> = [];
-  v1.slice(0, 15).forEach((p, i) => {
-    const v2Rank = v2.findIndex(v => v.player_id === p.player_id);
-    if (Math.abs(i - v2Rank) >= 5) {
-      const v2Player = v2.find(v => v.player_id === p.player_id);
-      let reason = v2Rank > i 
-        ? (v2Player?.key_factors.find(f => f.includes('⚠️')) || 'Game context penalty')
-        : (v2Player?.key_factors.find(f => f.includes('🎯')) || 'Game context boost');
-      differences.push({ player: p.player_name, v1_rank: i + 1, v2_rank: v2Rank + 1, reason });
+  const differences: Array<{ player: string; base_rank: number; compare_rank: number; reason: string }> = [];
+  base.slice(0, 15).forEach((p, i) => {
+    const compareRank = compare.findIndex(v => v.player_id === p.player_id);
+    if (Math.abs(i - compareRank) >= 5) {
+      const comparePlayer = compare.find(v => v.player_id === p.player_id);
+      let reason = compareRank > i 
+        ? (comparePlayer?.key_factors.find(f => f.includes('⚠️')) || 'Game context penalty')
+        : (comparePlayer?.key_factors.find(f => f.includes('🎯')) || 'Game context boost');
+      differences.push({ player: p.player_name, base_rank: i + 1, compare_rank: compareRank + 1, reason });
     }
   });
   
   return {
     agreement_rate: overlap / 5,
-    top_pick_matches: v1[0]?.player_id === v2[0]?.player_id,
+    top_pick_matches: base[0]?.player_id === compare[0]?.player_id,
     top_5_overlap: overlap,
     major_differences: differences.slice(0, 5),
   };
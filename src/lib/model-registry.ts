@@ -0,0 +1,98 @@
+// Model Registry
+// Every ranking model registers an id, description and a scoring function over
+// EnhancedPlayerData. Routes, snapshots, backtests and the optimizer look models
+// up here by id, so adding a model doesn't mean widening 'v1' | 'v2' unions.
+//
+// Built-in models are registered in models.ts, which re-exports this module;
+// import registry helpers from there so the built-ins are always loaded.
+
+import { EnhancedPlayerData } from './espn-data';
+import { Prediction } from './prediction-model';
+import { EnsembleWeights } from './ensemble';
+import { ScoringWeights } from './scoring-weights';
+import { PlayProbabilities } from './play-probability';
+
+export type ModelId = string;
+
+// Fitted inputs the models score with. Loaded from data/models/ once per request
+// by loadModelContext() (models.ts) and passed to every score/predict call, so
+// concurrent requests never see each other's tables.
+export interface ModelContext {
+  ensemble_weights: EnsembleWeights;
+  scoring_weights: ScoringWeights;
+  play_probabilities: PlayProbabilities;
+}
+
+export interface ModelDefinition {
+  id: ModelId;
+  name: string;
+  description: string;
+  // Ranking score for one player (higher = more likely to win KOTC)
+  score: (player: EnhancedPlayerData, context: ModelContext) => number;
+  // Optional full Prediction output (projected PRA, ceiling, key factors) for
+  // format=prediction and the simulator
+  predict?: (players: EnhancedPlayerData[], context: ModelContext) => Prediction[];
+}
+
+// Public description of a model (safe to send to the client)
+export interface ModelInfo {
+  id: ModelId;
+  name: string;
+  description: string;
+  has_predictions: boolean;
+}
+
+export const DEFAULT_MODEL_ID: ModelId = 'v1';
+
+const registry = new Map<ModelId, ModelDefinition>();
+
+export function registerModel(model: ModelDefinition): void {
+  if (registry.has(model.id)) {
+    console.log(`[KOTC] Replacing registered model "${model.id}"`);
+  }
+  registry.set(model.id, model);
+}
+
+export function getModel(id: ModelId): ModelDefinition | undefined {
+  return registry.get(id);
+}
+
+export function hasModel(id: ModelId): boolean {
+  return registry.has(id);
+}
+
+// Registered models in registration order
+export function listModels(): ModelDefinition[] {
+  return Array.from(registry.values());
+}
+
+export function listModelIds(): ModelId[] {
+  return Array.from(registry.keys());
+}
+
+export function describeModel(model: ModelDefinition): ModelInfo {
+  return {
+    id: model.id,
+    name: model.name,
+    description: model.description,
+    has_predictions: !!model.predict
+  };
+}
+
+// Parse a `model` query param into registered model ids
+// Accepts a single id, a comma-separated list, or 'all' ('both' kept for old links)
+// Unknown ids are dropped; falls back to the default model
+export function resolveModelIds(param: string | null | undefined): ModelId[] {
+  if (param === 'all' || param === 'both') return listModelIds();
+
+  const ids = (param || '')
+    .split(',')
+    .map(id => id.trim())
+    .filter(id => id && hasModel(id));
+
+  if (param && ids.length === 0) {
+    console.log(`[KOTC] Unknown model "${param}", using ${DEFAULT_MODEL_ID}`);
+  }
+
+  return ids.length > 0 ? Array.from(new Set(ids)) : [DEFAULT_MODEL_ID];
+}
@@ -0,0 +1,51 @@
+// Built-in Models
+// Registers the ranking models that ship with the app. New models register
+// here with an id, description and scoring function; every route, backtest
+// and the optimizer pick them up by id.
+
+import { registerModel, ModelContext } from './model-registry';
+import { scorePlayerV1, scorePlayerV2 } from './scoring';
+import { predictAllPlayers } from './prediction-model';
+import { predictAllPlayersV2 } from './ml-model-v2';
+import { ENSEMBLE_MODEL_ID, ensembleScore, predictEnsemble } from './ensemble';
+import { loadActiveEnsembleWeights } from './ensemble-store';
+import { loadScoringWeights } from './scoring-weights-store';
+import { loadPlayProbabilities } from './play-probability-store';
+
+// Everything the built-in models read from data/models/; call once per request
+// (or per replayed slate) and pass the result to rankPlayers()/predict()
+export async function loadModelContext(): Promise<ModelContext> {
+  const [ensemble_weights, scoring_weights, play_probabilities] = await Promise.all([
+    loadActiveEnsembleWeights(),
+    loadScoringWeights(),
+    loadPlayProbabilities()
+  ]);
+  return { ensemble_weights, scoring_weights, play_probabilities };
+}
+
+registerModel({
+  id: 'v1',
+  name: 'V1 (Stats-Focused)',
+  description: 'Season production first: 75% stats, 25% game context',
+  score: scorePlayerV1,
+  predict: predictAllPlayers
+});
+
+registerModel({
+  id: 'v2',
+  name: 'V2 (Context-Focused)',
+  description: 'Matchup, pace, spread and total first: 25% stats, 75% game context',
+  score: scorePlayerV2,
+  predict: predictAllPlayersV2
+});
+
+// Registered last so it can blend every model above
+registerModel({
+  id: ENSEMBLE_MODEL_ID,
+  name: 'Ensemble',
+  description: 'Normalized blend of the other models, weighted by fit to past KOTC winners (see /api/ensemble)',
+  score: ensembleScore,
+  predict: predictEnsemble
+});
+
+export * from './model-registry';
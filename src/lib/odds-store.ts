@@ -0,0 +1,47 @@
+// Market Odds Storage
+// Odds are entered manually (POST /api/odds) or dropped into data/odds/ as
+// {date}.json or {date}.csv, one row per player with American odds
+
+import { promises as fs } from 'fs';
+import path from 'path';
+import { OddsFile, MarketOdds, parseOddsCsv, parseOddsJson } from './odds';
+
+const ODDS_DIR = path.join(process.cwd(), 'data', 'odds');
+
+// Load a slate's odds (JSON takes precedence over CSV)
+export async function loadOdds(date: string): Promise<OddsFile | null> {
+  try {
+    const raw = await fs.readFile(path.join(ODDS_DIR, `${date}.json`), 'utf-8');
+    const data = JSON.parse(raw);
+    return {
+      date,
+      updated_at: data.updated_at || '',
+      source: data.source === 'manual' ? 'manual' : 'json',
+      odds: parseOddsJson(Array.isArray(data) ? data : data.odds)
+    };
+  } catch {
+    // Fall through to CSV
+  }
+
+  try {
+    const filePath = path.join(ODDS_DIR, `${date}.csv`);
+    const [raw, stat] = await Promise.all([fs.readFile(filePath, 'utf-8'), fs.stat(filePath)]);
+    return { date, updated_at: stat.mtime.toISOString(), source: 'csv', odds: parseOddsCsv(raw) };
+  } catch {
+    return null;
+  }
+}
+
+// Save manually entered odds for a slate (replaces any existing JSON file)
+export async function saveOdds(date: string, odds: MarketOdds[]): Promise<OddsFile | null> {
+  const file: OddsFile = { date, updated_at: new Date().toISOString(), source: 'manual', odds };
+  try {
+    await fs.mkdir(ODDS_DIR, { recursive: true });
+    await fs.writeFile(path.join(ODDS_DIR, `${date}.json`), JSON.stringify(file, null, 2));
+    console.log(`[KOTC] Saved ${odds.length} market odds for ${date}`);
+    return file;
+  } catch (error) {
+    console.log('[KOTC] Could not save market odds:', error);
+    return null;
+  }
+}
@@ -0,0 +1,156 @@
+// Market Odds & Expected Value
+// Compares sportsbook "top PRA" odds against our simulated win probabilities.
+// Pure math and parsing only, so the dashboard can import it; file storage
+// lives in odds-store.ts.
+
+export interface MarketOdds {
+  player_name: string;
+  player_id?: string;
+  american_odds: number;      // e.g. +450 or -120
+  book?: string;
+}
+
+export interface OddsFile {
+  date: string;               // Eastern slate date
+  updated_at: string;
+  source: 'json' | 'csv' | 'manual';
+  odds: MarketOdds[];
+}
+
+// Market odds with the bookmaker margin removed
+export interface PricedOdds extends MarketOdds {
+  implied_probability: number;  // Raw 1/decimal odds (includes vig)
+  fair_probability: number;     // Normalized so the listed field sums to 1
+}
+
+export interface BetEvaluation {
+  player_name: string;
+  american_odds: number;
+  fair_probability: number;
+  model_probability: number;
+  edge: number;               // model - fair probability
+  ev_per_5: number;           // Expected profit on a $5 bet
+  kelly_fraction: number;     // Full-Kelly share of bankroll (0 when no edge)
+}
+
+export const DEFAULT_STAKE = 5;
+
+// Decimal payout (stake included) for American odds
+export function americanToDecimal(american: number): number {
+  return american > 0 ? 1 + american / 100 : 1 + 100 / Math.abs(american);
+}
+
+export function americanToImpliedProbability(american: number): number {
+  return 1 / americanToDecimal(american);
+}
+
+// Proportional vig removal: scale implied probabilities so the field sums to 1
+// Books rarely list every player, so this assumes the listed field is complete
+export function priceOdds(odds: MarketOdds[]): PricedOdds[] {
+  const implied = odds.map(o => americanToImpliedProbability(o.american_odds));
+  const overround = implied.reduce((sum, p) => sum + p, 0);
+
+  return odds.map((o, i) => ({
+    ...o,
+    implied_probability: Math.round(implied[i] * 10000) / 10000,
+    fair_probability: overround > 0 ? Math.round(implied[i] / overround * 10000) / 10000 : 0
+  }));
+}
+
+// Edge, EV and Kelly stake for betting `stake` at `odds` given our probability
+export function evaluateBet(
+  odds: PricedOdds,
+  modelProbability: number,
+  stake: number = DEFAULT_STAKE
+): BetEvaluation {
+  const profitMultiple = americanToDecimal(odds.american_odds) - 1;
+  const ev = stake * (modelProbability * profitMultiple - (1 - modelProbability));
+  const kelly = profitMultiple > 0
+    ? (profitMultiple * modelProbability - (1 - modelProbability)) / profitMultiple
+    : 0;
+
+  return {
+    player_name: odds.player_name,
+    american_odds: odds.american_odds,
+    fair_probability: odds.fair_probability,
+    model_probability: modelProbability,
+    edge: Math.round((modelProbability - odds.fair_probability) * 10000) / 10000,
+    ev_per_5: Math.round(ev * 100) / 100,
+    kelly_fraction: Math.round(Math.max(kelly, 0) * 10000) / 10000
+  };
+}
+
+// Name key used to match odds rows to players (same normalization as backtests)
+export function oddsNameKey(name: string): string {
+  return name.toLowerCase().replace(/[^a-z]/g, '');
+}
+
+// Find a player's odds row by ESPN id, falling back to name
+export function findPlayerOdds(
+  odds: PricedOdds[],
+  playerId: string,
+  playerName: string
+): PricedOdds | undefined {
+  const key = oddsNameKey(playerName);
+  return odds.find(o => o.player_id === playerId) || odds.find(o => oddsNameKey(o.player_name) === key);
+}
+
+function parseAmericanOdds(value: unknown): number | null {
+  const odds = parseFloat(String(value ?? '').replace(/[^\d.+-]/g, ''));
+  // American odds are never between -100 and +100
+  if (isNaN(odds) || Math.abs(odds) < 100) return null;
+  return odds;
+}
+
+// CSV rows: player,odds[,book][,player_id] with an optional header line
+export function parseOddsCsv(csv: string): MarketOdds[] {
+  const rows = csv.split(/\r?\n/).map(line => line.trim()).filter(Boolean);
+  if (rows.length === 0) return [];
+
+  let columns = { player: 0, odds: 1, book: 2, player_id: 3 };
+  const header = rows[0].toLowerCase().split(',').map(c => c.trim());
+  const hasHeader = header.includes('player') || header.includes('odds');
+  if (hasHeader) {
+    columns = {
+      player: header.findIndex(c => c === 'player' || c === 'player_name' || c === 'name'),
+      odds: header.findIndex(c => c === 'odds' || c === 'american_odds'),
+      book: header.indexOf('book'),
+      player_id: header.indexOf('player_id')
+    };
+  }
+
+  const odds: MarketOdds[] = [];
+  for (const row of hasHeader ? rows.slice(1) : rows) {
+    const cells = row.split(',').map(c => c.trim());
+    const name = cells[columns.player];
+    const american = parseAmericanOdds(cells[columns.odds]);
+    if (!name || american === null) continue;
+
+    odds.push({
+      player_name: name,
+      american_odds: american,
+      book: columns.book >= 0 && cells[columns.book] ? cells[columns.book] : undefined,
+      player_id: columns.player_id >= 0 && cells[columns.player_id] ? cells[columns.player_id] : undefined
+    });
+  }
+  return odds;
+}
+
+// Validate odds from JSON (file or request body)
+export function parseOddsJson(rows: unknown): MarketOdds[] {
+  if (!Array.isArray(rows)) return [];
+
+  const odds: MarketOdds[] = [];
+  for (const row of rows) {
+    const name = row?.player_name || row?.player || row?.name;
+    const american = parseAmericanOdds(row?.american_odds ?? row?.odds);
+    if (!name || american === null) continue;
+    odds.push({
+      player_name: String(name),
+      american_odds: american,
+      book: row.book ? String(row.book) : undefined,
+      player_id: row.player_id ? String(row.player_id) : undefined
+    });
+  }
+  return odds;
+}
@@ -2,6 +2,7 @@
 // Builds optimal lineups based on predictions and salary constraints
 
 import { ScoredPlayer } from './scoring';
+import { ModelId, DEFAULT_MODEL_ID } from './model-registry';
 
 export interface DKPlayer extends ScoredPlayer {
   salary: number;
@@ -27,7 +28,7 @@ export interface OptimizationSettings {
   positions: string[];
   min_salary_per_player: number;
   max_players_per_team: number;
-  model_version: 'v1' | 'v2';
+  model_version: ModelId;
 }
 
 // Default KOTC settings (adjust based on actual DK KOTC format)
@@ -37,7 +38,7 @@ export const DEFAULT_KOTC_SETTINGS: OptimizationSettings = {
   positions: ['G', 'G', 'F', 'F', 'UTIL', 'UTIL'],
   min_salary_per_player: 3000,
   max_players_per_team: 3,
-  model_version: 'v1'
+  model_version: DEFAULT_MODEL_ID
 };
 
 // Position eligibility mapping
@@ -53,7 +54,7 @@ const POSITION_ELIGIBILITY: Record<string, string[]> = {
 
 // Estimate salary based on projected score (mock - real would come from DK API)
 export function estimateSalary(player: ScoredPlayer): number {
-  const score = Math.max(player.v1_score, player.v2_score);
+  const score = Math.max(0, ...Object.values(player.scores));
   
   // Top tier: $9000-$10000
   if (score >= 80) return 9000 + Math.floor((score - 80) * 50);
@@ -67,6 +68,11 @@ export function estimateSalary(player: ScoredPlayer): number {
   return 3000 + Math.floor(score * 14);
 }
 
+// A player's score under the model the lineup is optimized for
+export function modelScore(player: ScoredPlayer, model: ModelId): number {
+  return player.scores[model] ?? 0;
+}
+
 // Convert position to DK-eligible positions
 export function getDKPosition(position: string): string {
   const pos = position.toUpperCase();
@@ -106,8 +112,8 @@ export function buildLineup(
   
   // Sort players by value (score per $1000)
   const sortedPlayers = [...players].sort((a, b) => {
-    const scoreA = settings.model_version === 'v2' ? a.v2_score : a.v1_score;
-    const scoreB = settings.model_version === 'v2' ? b.v2_score : b.v1_score;
+    const scoreA = modelScore(a, settings.model_version);
+    const scoreB = modelScore(b, settings.model_version);
     const valueA = scoreA / (a.salary / 1000);
     const valueB = scoreB / (b.salary / 1000);
     return valueB - valueA;
@@ -141,10 +147,7 @@ export function buildLineup(
   // Calculate totals
   const projectedScore = slots.reduce((sum, slot) => {
     if (!slot.player) return sum;
-    const score = settings.model_version === 'v2' 
-      ? slot.player.v2_score 
-      : slot.player.v1_score;
-    return sum + score;
+    return sum + modelScore(slot.player, settings.model_version);
   }, 0);
   
   return {
@@ -168,9 +171,7 @@ export function generateLineups(
   // Generate variations by locking different top players
   const topPlayers = [...players]
     .sort((a, b) => {
-      const scoreA = settings.model_version === 'v2' ? a.v2_score : a.v1_score;
-      const scoreB = settings.model_version === 'v2' ? b.v2_score : b.v1_score;
-      return scoreB - scoreA;
+      return modelScore(b, settings.model_version) - modelScore(a, settings.model_version);
     })
     .slice(0, 20);
   
@@ -0,0 +1,39 @@
+// Play Probability Storage
+// Fitted play probabilities live in data/models/play-probability.json; without
+// that file play-probability.ts keeps its default rates
+
+import { promises as fs } from 'fs';
+import path from 'path';
+import { PlayProbabilities, DEFAULT_PLAY_PROBABILITIES } from './play-probability';
+
+const PROBABILITIES_FILE = path.join(process.cwd(), 'data', 'models', 'play-probability.json');
+
+// Load the fitted probabilities (or the defaults)
+export async function loadPlayProbabilities(): Promise<PlayProbabilities> {
+  let probabilities = DEFAULT_PLAY_PROBABILITIES;
+  try {
+    const data = JSON.parse(await fs.readFile(PROBABILITIES_FILE, 'utf-8'));
+    // Missing keys fall back to the defaults so older files keep working
+    probabilities = {
+      status: { ...DEFAULT_PLAY_PROBABILITIES.status, ...data.status },
+      category_shift: { ...DEFAULT_PLAY_PROBABILITIES.category_shift, ...data.category_shift },
+      fit: data.fit ?? null
+    };
+  } catch {
+    // No fitted probabilities yet
+  }
+  return probabilities;
+}
+
+// Save fitted probabilities
+export async function savePlayProbabilities(probabilities: PlayProbabilities): Promise<boolean> {
+  try {
+    await fs.mkdir(path.dirname(PROBABILITIES_FILE), { recursive: true });
+    await fs.writeFile(PROBABILITIES_FILE, JSON.stringify(probabilities, null, 2));
+    console.log(`[KOTC] Saved play probabilities (${probabilities.fit?.listings ?? 0} listings)`);
+    return true;
+  } catch (error) {
+    console.log('[KOTC] Could not save play probabilities:', error);
+    return false;
+  }
+}
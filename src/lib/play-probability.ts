@@ -0,0 +1,182 @@
+// Play Probability
+// The chance a player on the injury report actually plays. Rankings multiply
+// scores and expected PRA by it instead of subtracting a fixed penalty (which
+// meant nothing across models with different score scales), and the simulator
+// draws whether each player plays at all.
+// - Each status starts from a base rate (QUESTIONABLE plays about half the time)
+// - The injury type shifts it on the log-odds scale: rest days and personal
+//   reasons usually mean a night off, illnesses and hand/finger injuries are
+//   often played through
+// - Both are refit from stored injury reports against who actually logged
+//   minutes (`npm run fit:play-probability`), shrunk toward the defaults
+// The fitted table reaches the models through ModelContext (model-registry.ts).
+
+import { InjuryStatus, normalizePlayerName } from './injuries';
+import { InjuryReportEntry } from './injury-history';
+import { BoxScoreLine } from './box-scores';
+import { normalizeTeamAbbrev } from './team-metrics';
+
+export type InjuryCategory = 'rest' | 'illness' | 'personal' | 'head' | 'lower_body' | 'upper_body' | 'other';
+
+export interface PlayProbabilities {
+  status: Record<InjuryStatus, number>;        // P(plays) by status
+  category_shift: Record<InjuryCategory, number>;  // Log-odds shift by injury type
+  fit: {
+    fitted_at: string;
+    slates: number;
+    listings: number;
+    observed: Partial<Record<InjuryStatus, { listed: number; played: number }>>;
+  } | null;
+}
+
+// One injury-report listing at tip-off and whether the player logged minutes
+export interface PlayOutcome {
+  status: InjuryStatus;
+  injury_type: string;
+  played: boolean;
+}
+
+export const DEFAULT_PLAY_PROBABILITIES: PlayProbabilities = {
+  status: {
+    HEALTHY: 1,
+    PROBABLE: 0.93,
+    QUESTIONABLE: 0.55,
+    DOUBTFUL: 0.12,
+    OUT: 0
+  },
+  category_shift: {
+    rest: -0.8,
+    illness: 0.4,
+    personal: -0.4,
+    head: -0.6,
+    lower_body: -0.2,
+    upper_body: 0.3,
+    other: 0
+  },
+  fit: null
+};
+
+// Keywords matched against ESPN's injury type, first match wins
+const CATEGORY_KEYWORDS: Array<[InjuryCategory, string[]]> = [
+  ['rest', ['rest', 'load management']],
+  ['illness', ['illness', 'sick', 'flu', 'virus', 'covid']],
+  ['personal', ['personal', 'family', 'bereavement']],
+  ['head', ['concussion', 'head', 'face', 'eye', 'nose']],
+  ['lower_body', ['knee', 'ankle', 'foot', 'toe', 'hamstring', 'calf', 'achilles', 'groin', 'hip', 'quad', 'thigh', 'leg', 'shin']],
+  ['upper_body', ['hand', 'finger', 'thumb', 'wrist', 'elbow', 'shoulder', 'arm']]
+];
+
+// Statuses whose probability is uncertain enough to refine (HEALTHY/OUT are fixed)
+const UNCERTAIN_STATUSES: InjuryStatus[] = ['PROBABLE', 'QUESTIONABLE', 'DOUBTFUL'];
+
+// Key factors flag players below this chance of playing
+const FACTOR_THRESHOLD = 0.9;
+
+// Listings worth of prior weight the defaults get when refitting
+const PRIOR_LISTINGS = 20;
+
+const logit = (p: number) => Math.log(p / (1 - p));
+const sigmoid = (x: number) => 1 / (1 + Math.exp(-x));
+const clampProbability = (p: number) => Math.min(Math.max(p, 0.01), 0.99);
+
+export function injuryCategory(injuryType: string = ''): InjuryCategory {
+  const text = injuryType.toLowerCase();
+  for (const [category, keywords] of CATEGORY_KEYWORDS) {
+    if (keywords.some(k => text.includes(k))) return category;
+  }
+  return 'other';
+}
+
+function probabilityWith(
+  probabilities: PlayProbabilities,
+  status: InjuryStatus,
+  injuryType?: string,
+  shift: number = probabilities.category_shift[injuryCategory(injuryType)]
+): number {
+  const base = probabilities.status[status];
+  if (!UNCERTAIN_STATUSES.includes(status)) return base;
+  return sigmoid(logit(clampProbability(base)) + shift);
+}
+
+// P(plays) for an injury status and type
+export function getPlayProbability(
+  probabilities: PlayProbabilities,
+  status: InjuryStatus = 'HEALTHY',
+  injuryType?: string
+): number {
+  return Math.round(probabilityWith(probabilities, status, injuryType) * 1000) / 1000;
+}
+
+// Refit status rates and type shifts from observed outcomes. Each is a
+// Bayesian-style blend: PRIOR_LISTINGS pseudo-listings at the default value.
+export function fitPlayProbabilities(
+  outcomes: PlayOutcome[],
+  slates: number,
+  defaults: PlayProbabilities = DEFAULT_PLAY_PROBABILITIES
+): PlayProbabilities {
+  const observed: NonNullable<PlayProbabilities['fit']>['observed'] = {};
+  const status = { ...defaults.status };
+
+  for (const s of UNCERTAIN_STATUSES) {
+    const rows = outcomes.filter(o => o.status === s);
+    const played = rows.filter(o => o.played).length;
+    observed[s] = { listed: rows.length, played };
+    status[s] = Math.round((played + PRIOR_LISTINGS * defaults.status[s]) / (rows.length + PRIOR_LISTINGS) * 1000) / 1000;
+  }
+
+  // Type shifts: observed play rate vs what the fitted status rates alone expect
+  const fittedBase: PlayProbabilities = { ...defaults, status };
+  const categoryShift = { ...defaults.category_shift };
+  for (const category of Object.keys(categoryShift) as InjuryCategory[]) {
+    const rows = outcomes.filter(o => UNCERTAIN_STATUSES.includes(o.status) && injuryCategory(o.injury_type) === category);
+    if (rows.length === 0) continue;
+
+    const mean = (fn: (o: PlayOutcome) => number) => rows.reduce((sum, o) => sum + fn(o), 0) / rows.length;
+    const expectedUnshifted = mean(o => probabilityWith(fittedBase, o.status, o.injury_type, 0));
+    const expectedPrior = mean(o => probabilityWith(fittedBase, o.status, o.injury_type));
+    const played = rows.filter(o => o.played).length;
+
+    const rate = (played + PRIOR_LISTINGS * expectedPrior) / (rows.length + PRIOR_LISTINGS);
+    categoryShift[category] = Math.round((logit(clampProbability(rate)) - logit(clampProbability(expectedUnshifted))) * 100) / 100;
+  }
+
+  return {
+    status,
+    category_shift: categoryShift,
+    fit: { fitted_at: new Date().toISOString(), slates, listings: outcomes.length, observed }
+  };
+}
+
+// Outcomes for a slate's injury report at tip-off. Players whose team didn't
+// play that day are skipped; a listed player with no box score line or a DNP
+// didn't play.
+export function reportOutcomes(
+  report: Record<string, InjuryReportEntry>,
+  lines: BoxScoreLine[]
+): PlayOutcome[] {
+  const teamsPlayed = new Set(lines.map(l => normalizeTeamAbbrev(l.team_abbrev)));
+  const playedIds = new Set(lines.filter(l => l.minutes > 0).map(l => l.player_id));
+  const playedNames = new Set(lines.filter(l => l.minutes > 0).map(l => normalizePlayerName(l.player_name)));
+
+  const outcomes: PlayOutcome[] = [];
+  for (const entry of Object.values(report)) {
+    if (!UNCERTAIN_STATUSES.includes(entry.status)) continue;
+    if (!teamsPlayed.has(normalizeTeamAbbrev(entry.team_abbrev))) continue;
+    outcomes.push({
+      status: entry.status,
+      injury_type: entry.injury_type,
+      played: entry.player_id ? playedIds.has(entry.player_id) : playedNames.has(normalizePlayerName(entry.player_name))
+    });
+  }
+  return outcomes;
+}
+
+// Key factor for players meaningfully at risk of sitting
+export function playProbabilityFactor(
+  player: { injury_status?: InjuryStatus; injury_type?: string },
+  probability: number
+): string | null {
+  if (probability >= FACTOR_THRESHOLD) return null;
+  const type = player.injury_type && player.injury_type !== 'Unknown' ? `, ${player.injury_type}` : '';
+  return `⚠️ ${Math.round(probability * 100)}% to play (${player.injury_status}${type})`;
+}
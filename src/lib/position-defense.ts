@@ -0,0 +1,136 @@
+// Position Defense
+// PRA each team allows to opposing guards, forwards and centers, per minute
+// played, relative to the league. Computed from the same box scores as the
+// rolling team metrics (team-form.ts loads it for the slate) and shrunk toward
+// league average so a handful of big nights doesn't make a team a "crusher".
+// fetchPlayersForGames() copies getPositionDefenseModifier() onto each player
+// (position_modifier), which both models read.
+
+import { BoxScoreLine } from './box-scores';
+import { normalizeTeamAbbrev } from './team-metrics';
+
+export type PositionGroup = 'G' | 'F' | 'C';
+
+export const POSITION_GROUPS: PositionGroup[] = ['G', 'F', 'C'];
+
+// League-average minutes blended into every team/position cell; a guard group
+// plays ~96 minutes a game, so this is worth about five games of guard data
+export const SHRINKAGE_MINUTES = 500;
+
+// One team's production at one position group in one game
+export interface PositionGameTotals {
+  team_abbrev: string;       // The scorers' team
+  opponent_abbrev: string;   // The defense
+  position: PositionGroup;
+  minutes: number;
+  pra: number;
+}
+
+export interface PositionDefenseCell {
+  minutes: number;       // Opponent minutes behind the cell
+  pra_per_36: number;    // Raw PRA allowed per 36 minutes
+  modifier: number;      // Shrunk rate / league rate (1.0 = average)
+}
+
+export interface PositionDefenseTable {
+  season: number;
+  as_of: string;                          // Games before this slate
+  updated_at: string;
+  lookback_days: number;
+  shrinkage_minutes: number;
+  league: Record<PositionGroup, number>;  // League PRA per 36 minutes
+  teams: Record<string, Partial<Record<PositionGroup, PositionDefenseCell>>>;  // Keyed by defending team
+}
+
+// ESPN lists specific (PG, SF) and generic (G, F-C) positions; hybrids go by
+// their first listed position
+export function positionGroup(position: string | undefined): PositionGroup | null {
+  const pos = (position || '').toUpperCase();
+  if (pos === 'PG' || pos === 'SG' || pos.startsWith('G')) return 'G';
+  if (pos === 'SF' || pos === 'PF' || pos.startsWith('F')) return 'F';
+  if (pos.startsWith('C')) return 'C';
+  return null;
+}
+
+// Sum a game's player lines into per-team, per-position totals
+export function summarizePositionLines(lines: BoxScoreLine[]): PositionGameTotals[] {
+  const totals = new Map<string, PositionGameTotals>();
+
+  for (const line of lines) {
+    const group = positionGroup(line.position);
+    if (!group || line.did_not_play || line.minutes <= 0) continue;
+
+    const key = `${line.team_abbrev}|${group}`;
+    const total = totals.get(key) || {
+      team_abbrev: line.team_abbrev,
+      opponent_abbrev: line.opponent_abbrev,
+      position: group,
+      minutes: 0,
+      pra: 0
+    };
+    total.minutes += line.minutes;
+    total.pra += line.stats.points + line.stats.rebounds + line.stats.assists;
+    totals.set(key, total);
+  }
+
+  return Array.from(totals.values());
+}
+
+// League and per-defense PRA rates by position, each cell shrunk toward the
+// league rate by `shrinkage` minutes
+export function computePositionDefense(
+  games: PositionGameTotals[],
+  shrinkage: number = SHRINKAGE_MINUTES
+): Pick<PositionDefenseTable, 'league' | 'teams'> {
+  const round = (v: number, places: number) => Math.round(v * 10 ** places) / 10 ** places;
+
+  const leagueRate = {} as Record<PositionGroup, number>;
+  for (const group of POSITION_GROUPS) {
+    const rows = games.filter(g => g.position === group);
+    const minutes = rows.reduce((sum, g) => sum + g.minutes, 0);
+    leagueRate[group] = minutes > 0 ? rows.reduce((sum, g) => sum + g.pra, 0) / minutes : 0;
+  }
+
+  const allowed = new Map<string, { minutes: number; pra: number }>();
+  for (const g of games) {
+    const key = `${normalizeTeamAbbrev(g.opponent_abbrev)}|${g.position}`;
+    const cell = allowed.get(key) || { minutes: 0, pra: 0 };
+    cell.minutes += g.minutes;
+    cell.pra += g.pra;
+    allowed.set(key, cell);
+  }
+
+  const teams: PositionDefenseTable['teams'] = {};
+  allowed.forEach(({ minutes, pra }, key) => {
+    const [team, group] = key.split('|') as [string, PositionGroup];
+    const league = leagueRate[group];
+    if (!league || minutes <= 0) return;
+
+    const shrunk = (pra + shrinkage * league) / (minutes + shrinkage);
+    teams[team] = {
+      ...teams[team],
+      [group]: {
+        minutes: Math.round(minutes),
+        pra_per_36: round(pra / minutes * 36, 1),
+        modifier: round(shrunk / league, 3)
+      }
+    };
+  });
+
+  const league = {} as Record<PositionGroup, number>;
+  for (const group of POSITION_GROUPS) league[group] = round(leagueRate[group] * 36, 1);
+
+  return { league, teams };
+}
+
+// How much more (>1) or less (<1) PRA than average the opponent allows to this
+// position; 1.0 when there's no table or no data for the pairing
+export function getPositionDefenseModifier(
+  table: PositionDefenseTable | null,
+  oppAbbrev: string,
+  position: string | undefined
+): number {
+  const group = positionGroup(position);
+  if (!group) return 1.0;
+  return table?.teams[normalizeTeamAbbrev(oppAbbrev)]?.[group]?.modifier ?? 1.0;
+}
@@ -11,41 +11,9 @@
  */
 
 import { EnhancedPlayerData } from './espn-data';
-
-// 2024-25 NBA Team Defensive Ratings (points allowed per 100 possessions)
-// Lower = better defense. League average ~112
-const TEAM_DEFENSIVE_RATINGS: Record<string, number> = {
-  'CLE': 105.2, 'OKC': 106.8, 'BOS': 107.5, 'MEM': 108.1, 'HOU': 108.5,
-  'NYK': 109.2, 'LAC': 109.8, 'ORL': 110.1, 'MIA': 110.5, 'DEN': 110.8,
-  'MIN': 111.0, 'GSW': 111.3, 'LAL': 111.5, 'MIL': 111.8, 'SAC': 112.0,
-  'PHX': 112.3, 'DAL': 112.5, 'IND': 112.8, 'CHI': 113.2, 'BKN': 113.5,
-  'ATL': 114.0, 'TOR': 114.5, 'POR': 115.0, 'SAS': 115.5, 'DET': 116.0,
-  'PHI': 116.2, 'CHA': 116.8, 'UTA': 117.2, 'WAS': 118.5, 'NOP': 118.8,
-};
-
-// 2024-25 NBA Team Pace (possessions per 48 minutes)
-// Higher = faster pace = more stats. League average ~100
-const TEAM_PACE: Record<string, number> = {
-  'IND': 103.5, 'ATL': 102.8, 'MIL': 102.2, 'SAC': 101.8, 'NOP': 101.5,
-  'DEN': 101.2, 'UTA': 101.0, 'POR': 100.8, 'CHI': 100.5, 'PHX': 100.3,
-  'DAL': 100.0, 'LAL': 99.8, 'BOS': 99.5, 'CHA': 99.3, 'MIN': 99.0,
-  'TOR': 98.8, 'WAS': 98.5, 'BKN': 98.3, 'GSW': 98.0, 'DET': 97.8,
-  'HOU': 97.5, 'SAS': 97.2, 'PHI': 97.0, 'NYK': 96.8, 'LAC': 96.5,
-  'ORL': 96.2, 'MIA': 96.0, 'OKC': 95.8, 'MEM': 95.5, 'CLE': 95.2,
-};
-
-// Position-specific PRA allowed by opponent (guards vs bigs face different defenses)
-// Research: Position matchups create 2-4 PRA swings
-const POSITION_DEFENSE_MODIFIER: Record<string, Record<string, number>> = {
-  // Guards (PG/SG) - these teams are weak against guards
-  'PG': { 'WAS': 1.08, 'NOP': 1.07, 'CHA': 1.06, 'UTA': 1.05, 'CLE': 0.94, 'OKC': 0.95 },
-  'SG': { 'WAS': 1.07, 'NOP': 1.06, 'DET': 1.05, 'UTA': 1.05, 'CLE': 0.94, 'BOS': 0.95 },
-  // Forwards (SF/PF) - these teams are weak against wings
-  'SF': { 'CHA': 1.08, 'WAS': 1.07, 'POR': 1.06, 'UTA': 1.05, 'OKC': 0.94, 'BOS': 0.95 },
-  'PF': { 'CHA': 1.07, 'NOP': 1.06, 'DET': 1.05, 'WAS': 1.05, 'CLE': 0.94, 'OKC': 0.95 },
-  // Centers - these teams are weak against bigs
-  'C': { 'CHA': 1.10, 'WAS': 1.08, 'NOP': 1.07, 'UTA': 1.06, 'CLE': 0.93, 'OKC': 0.94 },
-};
+import { getMinutesProjection, MinutesProjection } from './minutes';
+import { getPlayProbability, playProbabilityFactor } from './play-probability';
+import type { ModelContext } from './model-registry';
 
 export interface Prediction {
   player_id: string;
@@ -56,9 +24,10 @@ export interface Prediction {
   opponent: string;
   headshot: string | null;
   
-  projected_pra: number;
-  ceiling_pra: number;
-  ceiling_score: number;
+  projected_pra: number;      // Expected PRA, already multiplied by play_probability
+  ceiling_pra: number;        // If they play
+  ceiling_score: number;      // Ranking score, multiplied by play_probability
+  play_probability: number;   // Chance they play (play-probability.ts)
   
   component_scores: {
     recent_pra: number;
@@ -74,6 +43,8 @@ export interface Prediction {
     std_dev_pra: number;
     usage_rate: number;
     minutes_per_game: number;
+    projected_minutes?: number;  // Tonight's minutes projection (minutes.ts)
+    pra_per_minute?: number;
     triple_doubles: number;
     ppg: number;
     rpg: number;
@@ -86,11 +57,19 @@ export interface Prediction {
     is_home: boolean;
     opponent_drtg?: number;
     opponent_pace?: number;
+    projected_possessions?: number;  // Game pace from both teams and the total
   };
   
   key_factors: string[];
   confidence: 'High' | 'Medium' | 'Low';
   last_10_pra: number[];
+  
+  // Availability context carried over from the player data
+  injury_status?: EnhancedPlayerData['injury_status'];
+  injury_type?: string;
+  vacated_usage?: EnhancedPlayerData['vacated_usage'];
+  is_b2b?: boolean;
+  opponent_b2b?: boolean;
 }
 
 /**
@@ -167,14 +146,14 @@ function calculateCeilingFactor(
 
 /**
  * Calculate Volume Score (15% weight)
- * Minutes and usage rate - research shows minutes is #1 predictor
+ * Projected minutes and usage rate - research shows minutes is #1 predictor
  */
-function calculateVolumeScore(player: EnhancedPlayerData): number {
+function calculateVolumeScore(player: EnhancedPlayerData, minutes: MinutesProjection): number {
   const usageRate = player.usage_rate || 20;
-  const mpg = player.mpg || 28;
+  const projectedMinutes = minutes.projected_minutes;
   
   // Minutes is the strongest predictor per research
-  const minutesScore = Math.min((mpg / 36) * 60, 60);
+  const minutesScore = Math.min((projectedMinutes / 36) * 60, 60);
   
   // Usage adds upside
   const usageScore = Math.min((usageRate / 30) * 40, 40);
@@ -182,8 +161,8 @@ function calculateVolumeScore(player: EnhancedPlayerData): number {
   let score = minutesScore + usageScore;
   
   // Elite thresholds
-  if (mpg >= 36 && usageRate >= 30) score += 10;
-  else if (mpg >= 35 && usageRate >= 28) score += 5;
+  if (projectedMinutes >= 36 && usageRate >= 30) score += 10;
+  else if (projectedMinutes >= 35 && usageRate >= 28) score += 5;
   
   return Math.min(score, 100);
 }
@@ -198,19 +177,20 @@ function calculateMatchupScore(player: EnhancedPlayerData): {
   factors: string[];
   oppDrtg: number;
   oppPace: number;
+  gamePace: number;
   positionMod: number;
 } {
   let score = 50;
   const factors: string[] = [];
   
-  const oppAbbrev = player.opponent_abbrev || '';
-  const oppDrtg = TEAM_DEFENSIVE_RATINGS[oppAbbrev] || 112;
-  const oppPace = TEAM_PACE[oppAbbrev] || 100;
+  const oppDrtg = player.opp_def_rating;
+  const oppPace = player.opponent_pace;
+  const gamePace = player.projected_possessions ?? oppPace;
   
   // Position-specific defense modifier (research: guards vs bigs face different defenses)
+  // Computed PRA allowed to this position vs league average (position-defense.ts)
   const position = player.position?.toUpperCase() || 'SF';
-  const posModifiers = POSITION_DEFENSE_MODIFIER[position] || {};
-  const positionMod = posModifiers[oppAbbrev] || 1.0;
+  const positionMod = player.position_modifier;
   
   // Opponent Defensive Rating (research: 3-5 PRA bump vs bad defenses)
   if (oppDrtg >= 117) {
@@ -238,15 +218,15 @@ function calculateMatchupScore(player: EnhancedPlayerData): {
     factors.push(`Tough ${position} D`);
   }
   
-  // Opponent Pace (research: high pace = more possessions = more stats)
-  if (oppPace >= 102) {
+  // Game pace, both teams plus the total (research: high pace = more possessions = more stats)
+  if (gamePace >= 102) {
     score += 10;
-    factors.push(`Fast pace (${oppPace.toFixed(0)})`);
-  } else if (oppPace >= 100) {
+    factors.push(`Fast pace (${gamePace.toFixed(0)})`);
+  } else if (gamePace >= 100) {
     score += 5;
-  } else if (oppPace <= 96) {
+  } else if (gamePace <= 96) {
     score -= 6;
-    factors.push(`Slow pace (${oppPace.toFixed(0)})`);
+    factors.push(`Slow pace (${gamePace.toFixed(0)})`);
   }
   
   return { 
@@ -254,6 +234,7 @@ function calculateMatchupScore(player: EnhancedPlayerData): {
     factors,
     oppDrtg,
     oppPace,
+    gamePace,
     positionMod,
   };
 }
@@ -314,11 +295,12 @@ function calculateEnvironmentScore(player: EnhancedPlayerData): {
  * Generate prediction for a single player - V1 STATS-FOCUSED
  * 60% player skill/stats, 40% game context
  */
-export function predictPlayer(player: EnhancedPlayerData): Prediction {
+export function predictPlayer(player: EnhancedPlayerData, context: ModelContext): Prediction {
   const { score: recentScore, avgPra, stdDev, maxPra, hotStreak, coldStreak } = calculateRecentPraScore(player);
   const { score: ceilingScore, ceilingPra } = calculateCeilingFactor(player, avgPra, stdDev, maxPra);
-  const volumeScore = calculateVolumeScore(player);
-  const { score: matchupScore, factors: matchupFactors, oppDrtg, oppPace, positionMod } = calculateMatchupScore(player);
+  const minutes = getMinutesProjection(player);
+  const volumeScore = calculateVolumeScore(player, minutes);
+  const { score: matchupScore, factors: matchupFactors, oppDrtg, oppPace, gamePace, positionMod } = calculateMatchupScore(player);
   const { score: envScore, factors: envFactors } = calculateEnvironmentScore(player);
   
   // V1 Weights: STATS-FOCUSED (75% stats, 25% context)
@@ -331,18 +313,27 @@ export function predictPlayer(player: EnhancedPlayerData): Prediction {
     (envScore * 0.10);          // Game environment (CONTEXT)
   
   // Calculate projected PRA with lighter matchup adjustment for V1
-  // V1 trusts the player's baseline more
+  // V1 trusts the player's baseline more: projected minutes × recent PRA per minute
+  const basePra = minutes.projected_pra;
   const matchupMultiplier = 1 + ((oppDrtg - 112) / 150) * positionMod; // Softer adjustment
-  let projectedPra = avgPra * matchupMultiplier * (totalCeilingScore / 60);
-  projectedPra = Math.max(projectedPra, avgPra * 0.88);
+  let projectedPra = basePra * matchupMultiplier * (totalCeilingScore / 60);
+  projectedPra = Math.max(projectedPra, basePra * 0.88);
+  
+  // Injury report: expected PRA and the ranking score scale with the chance they play
+  const playProbability = getPlayProbability(context.play_probabilities, player.injury_status, player.injury_type);
   
   // Build key factors - V1 emphasizes player factors first
   const keyFactors: string[] = [];
   
+  const availability = playProbabilityFactor(player, playProbability);
+  if (availability) keyFactors.push(availability);
+  
   // Hot/cold streak indicators
   if (hotStreak) keyFactors.push('🔥 Hot streak');
   if (coldStreak) keyFactors.push('❄️ Cold streak');
   
+  keyFactors.push(...minutes.factors.slice(0, 1));
+  
   if (player.usage_rate >= 30) {
     keyFactors.push(`Elite usage (${player.usage_rate}%)`);
   }
@@ -365,16 +356,17 @@ export function predictPlayer(player: EnhancedPlayerData): Prediction {
   
   return {
     player_id: player.player_id,
-    player_name: player.player_name,
+    player_name: player.name,
     team: player.team_abbrev,
     position: player.position,
     matchup: player.matchup || '',
     opponent: player.opponent_abbrev || '',
     headshot: player.headshot,
     
-    projected_pra: Math.round(projectedPra * 10) / 10,
+    projected_pra: Math.round(projectedPra * playProbability * 10) / 10,
     ceiling_pra: Math.round(ceilingPra * 10) / 10,
-    ceiling_score: Math.round(totalCeilingScore * 10) / 10,
+    ceiling_score: Math.round(totalCeilingScore * playProbability * 10) / 10,
+    play_probability: playProbability,
     
     component_scores: {
       recent_pra: Math.round(recentScore * 10) / 10,
@@ -390,6 +382,8 @@ export function predictPlayer(player: EnhancedPlayerData): Prediction {
       std_dev_pra: Math.round(stdDev * 10) / 10,
       usage_rate: player.usage_rate,
       minutes_per_game: player.mpg,
+      projected_minutes: minutes.projected_minutes,
+      pra_per_minute: minutes.pra_per_minute,
       triple_doubles: player.triple_doubles,
       ppg: player.ppg,
       rpg: player.rpg,
@@ -402,19 +396,25 @@ export function predictPlayer(player: EnhancedPlayerData): Prediction {
       is_home: player.is_home || false,
       opponent_drtg: oppDrtg,
       opponent_pace: oppPace,
+      projected_possessions: gamePace,
     },
     
     key_factors: keyFactors.slice(0, 4),
     confidence,
     last_10_pra: player.last_games_pra || [],
+    injury_status: player.injury_status,
+    injury_type: player.injury_type,
+    vacated_usage: player.vacated_usage,
+    is_b2b: player.is_b2b,
+    opponent_b2b: player.opponent_b2b,
   };
 }
 
 /**
  * Generate predictions for all players and rank them
  */
-export function predictAllPlayers(players: EnhancedPlayerData[]): Prediction[] {
-  const predictions = players.map(predictPlayer);
+export function predictAllPlayers(players: EnhancedPlayerData[], context: ModelContext): Prediction[] {
+  const predictions = players.map(p => predictPlayer(p, context));
   predictions.sort((a, b) => b.ceiling_score - a.ceiling_score);
   return predictions;
 }
@@ -0,0 +1,42 @@
+// Query Parameter Parsing
+// Numeric query parameters for the API routes. Each parser returns `fallback`
+// when the parameter is missing and null when it is present but invalid, so
+// routes can answer 400 instead of running on NaN.
+
+const UNSIGNED_INTEGER = /^\d+$/;
+const SIGNED_INTEGER = /^-?\d+$/;
+const DECIMAL = /^\d+(\.\d+)?$|^\.\d+$/;
+
+const isMissing = (value: string | null): value is null | '' => value === null || value.trim() === '';
+
+// 1, 2, 3, ...
+export function parsePositiveInt<T extends number | undefined>(value: string | null, fallback: T): number | T | null {
+  if (isMissing(value)) return fallback;
+  if (!UNSIGNED_INTEGER.test(value.trim())) return null;
+  const n = parseInt(value, 10);
+  return n > 0 && Number.isSafeInteger(n) ? n : null;
+}
+
+// Any integer (e.g. random seeds)
+export function parseInteger<T extends number | undefined>(value: string | null, fallback: T): number | T | null {
+  if (isMissing(value)) return fallback;
+  if (!SIGNED_INTEGER.test(value.trim())) return null;
+  const n = parseInt(value, 10);
+  return Number.isSafeInteger(n) ? n : null;
+}
+
+// 0 or more, decimals allowed (e.g. penalties); `positive` also rejects 0
+export function parseNumber<T extends number | undefined>(
+  value: string | null,
+  fallback: T,
+  { positive = false }: { positive?: boolean } = {}
+): number | T | null {
+  if (isMissing(value)) return fallback;
+  if (!DECIMAL.test(value.trim())) return null;
+  const n = parseFloat(value);
+  return positive && n === 0 ? null : n;
+}
+
+export function invalidParamMessage(name: string, value: string | null, expected: string): string {
+  return `Invalid ${name} "${value}" (expected ${expected})`;
+}
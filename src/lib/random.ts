@@ -0,0 +1,24 @@
+// Seeded Random Numbers
+// Deterministic PRNG and samplers so bootstraps and simulations are
+// reproducible between runs (Math.random can't be seeded)
+
+export type RandomSource = () => number;
+
+// mulberry32: small, fast 32-bit PRNG returning floats in [0, 1)
+export function createRandom(seed: number): RandomSource {
+  let a = seed >>> 0;
+  return () => {
+    a = (a + 0x6D2B79F5) >>> 0;
+    let t = a;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+}
+
+// Standard normal sample (Box-Muller)
+export function sampleNormal(random: RandomSource): number {
+  const u1 = random() || Number.MIN_VALUE;
+  const u2 = random();
+  return Math.sqrt(-2 * Math.log(u1)) * Math.cos(2 * Math.PI * u2);
+}
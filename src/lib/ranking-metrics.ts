@@ -0,0 +1,159 @@
+// Ranking Quality Metrics
+// Scores a predicted ranking against the actual finish. KOTC is winner-take-all,
+// so besides overall ordering (NDCG, Spearman) we track how the actual winner
+// was rated and how much probability the model put on them.
+
+import { createRandom } from './random';
+
+export interface RankedOutcome {
+  predicted_rank: number;
+  actual_rank: number;
+  actual_points: number;
+  win_probability: number;  // Model's probability this player finishes #1
+}
+
+export interface RankingMetrics {
+  winner_rank: number;      // Our predicted rank for the actual winner (pool size + 1 if unranked)
+  ndcg_at_10: number;       // 0-1, gain = actual points
+  spearman: number;         // -1 to 1 over matched players
+  winner_log_loss: number;  // -ln(p(actual winner)), lower is better
+  winner_brier: number;     // Multi-class Brier over the pool, lower is better
+  avg_rank_error: number;   // Mean |predicted - actual| rank
+}
+
+export type RankingMetricName = keyof RankingMetrics;
+
+export const RANKING_METRIC_NAMES: RankingMetricName[] = [
+  'winner_rank', 'ndcg_at_10', 'spearman', 'winner_log_loss', 'winner_brier', 'avg_rank_error'
+];
+
+// Metrics where a higher value is better (the rest are errors/losses)
+export const HIGHER_IS_BETTER: Record<RankingMetricName, boolean> = {
+  winner_rank: false,
+  ndcg_at_10: true,
+  spearman: true,
+  winner_log_loss: false,
+  winner_brier: false,
+  avg_rank_error: false
+};
+
+export interface ConfidenceInterval {
+  mean: number;
+  ci_low: number;
+  ci_high: number;
+}
+
+const NDCG_K = 10;
+
+// Probabilities are clipped so one confident miss doesn't make log-loss infinite
+const MIN_PROBABILITY = 1e-4;
+
+// Softmax sharpness applied to z-scored model scores when a model doesn't
+// provide its own win probabilities
+const WIN_PROB_SHARPNESS = 1.5;
+
+// Turn raw model scores into win probabilities (sum to 1)
+export function scoresToWinProbabilities(scores: number[]): number[] {
+  if (scores.length === 0) return [];
+
+  const mean = scores.reduce((sum, s) => sum + s, 0) / scores.length;
+  const variance = scores.reduce((sum, s) => sum + (s - mean) ** 2, 0) / scores.length;
+  const std = Math.sqrt(variance) || 1;
+
+  const exps = scores.map(s => Math.exp(((s - mean) / std) * WIN_PROB_SHARPNESS));
+  const total = exps.reduce((sum, e) => sum + e, 0);
+  return exps.map(e => e / total);
+}
+
+// NDCG@k with actual points as gain; the ideal ordering uses the whole slate
+export function ndcgAtK(outcomes: RankedOutcome[], allActualPoints: number[], k: number = NDCG_K): number {
+  const dcg = (gains: number[]) =>
+    gains.slice(0, k).reduce((sum, g, i) => sum + Math.max(0, g) / Math.log2(i + 2), 0);
+
+  const predictedGains = [...outcomes]
+    .sort((a, b) => a.predicted_rank - b.predicted_rank)
+    .map(o => o.actual_points);
+  const idealGains = [...allActualPoints].sort((a, b) => b - a);
+
+  const ideal = dcg(idealGains);
+  return ideal > 0 ? dcg(predictedGains) / ideal : 0;
+}
+
+// Spearman rank correlation (ranks are re-numbered within the matched set)
+export function spearman(outcomes: RankedOutcome[]): number {
+  const n = outcomes.length;
+  if (n < 2) return 0;
+
+  const rerank = (values: number[]) => {
+    const order = values.map((v, i) => [v, i]).sort((a, b) => a[0] - b[0]);
+    const ranks = new Array<number>(n);
+    order.forEach(([, i], r) => ranks[i] = r + 1);
+    return ranks;
+  };
+
+  const predicted = rerank(outcomes.map(o => o.predicted_rank));
+  const actual = rerank(outcomes.map(o => o.actual_rank));
+  const sumSquared = predicted.reduce((sum, r, i) => sum + (r - actual[i]) ** 2, 0);
+
+  return 1 - (6 * sumSquared) / (n * (n * n - 1));
+}
+
+// All metrics for one model on one slate
+// `outcomes` are the model's predictions matched to box scores; `allActualPoints`
+// covers every player who appeared, so unpredicted winners still count against us.
+// Null when nothing matched: zeros would be perfect scores for the error metrics,
+// so callers leave the slate out of that model's summary instead.
+export function computeRankingMetrics(outcomes: RankedOutcome[], allActualPoints: number[]): RankingMetrics | null {
+  if (outcomes.length === 0) return null;
+
+  const winner = outcomes.find(o => o.actual_rank === 1);
+  const winnerProbability = Math.max(winner?.win_probability ?? 0, MIN_PROBABILITY);
+
+  const brier = outcomes.reduce((sum, o) => {
+    const won = o === winner ? 1 : 0;
+    return sum + (o.win_probability - won) ** 2;
+  }, 0) + (winner ? 0 : 1); // An unpredicted winner is a full miss on that class
+
+  const rankError = outcomes.reduce((sum, o) => sum + Math.abs(o.predicted_rank - o.actual_rank), 0);
+
+  return {
+    winner_rank: winner ? winner.predicted_rank : outcomes.length + 1,
+    ndcg_at_10: ndcgAtK(outcomes, allActualPoints),
+    spearman: spearman(outcomes),
+    winner_log_loss: -Math.log(winnerProbability),
+    winner_brier: brier,
+    avg_rank_error: rankError / outcomes.length
+  };
+}
+
+// Percentile bootstrap CI for the mean of per-slate values
+export function bootstrapMean(
+  values: number[],
+  iterations: number = 1000,
+  confidence: number = 0.95,
+  seed: number = 42
+): ConfidenceInterval {
+  const n = values.length;
+  if (n === 0) return { mean: 0, ci_low: 0, ci_high: 0 };
+
+  const mean = values.reduce((sum, v) => sum + v, 0) / n;
+  if (n === 1) return { mean, ci_low: mean, ci_high: mean };
+
+  const random = createRandom(seed);
+  const means: number[] = [];
+  for (let b = 0; b < iterations; b++) {
+    let total = 0;
+    for (let i = 0; i < n; i++) {
+      total += values[Math.floor(random() * n)];
+    }
+    means.push(total / n);
+  }
+  means.sort((a, b) => a - b);
+
+  const tail = (1 - confidence) / 2;
+  return {
+    mean,
+    ci_low: means[Math.floor(tail * (iterations - 1))],
+    ci_high: means[Math.ceil((1 - tail) * (iterations - 1))]
+  };
+}
@@ -0,0 +1,137 @@
+// Point-in-Time Replay Backtester
+// Rebuilds a past slate's EnhancedPlayerData from data available before tip-off
+// and re-runs the current models against it, so model changes can be evaluated
+// across a whole season without waiting for live slates.
+//
+// Availability comes from the injury report we stored for the slate
+// (injury-history-store.ts) as it stood at the first tip: OUT players are
+// dropped, everyone else stays in the pool with their status, so late
+// scratches count against the models just as they would live.
+//
+// Known limitations:
+// - Rosters are today's (ESPN has no historical roster endpoint); players who
+//   were traded keep their current team and drop out if they didn't play for it
+// - Slates without a stored injury report fall back to who actually played
+//   that night. That is look-ahead (a perfect final injury report), so those
+//   slates are flagged `availability: 'actual_minutes'` and score better than
+//   any live prediction could
+
+import { fetchTodaysGames, fetchPlayersForGames, detectBackToBack, EnhancedPlayerData } from './espn-data';
+import { getPlayerInjuryStatus, shouldExcludePlayer } from './injuries';
+import { reportAt, reportInjuries } from './injury-history';
+import { loadInjuryHistory } from './injury-history-store';
+import { applyVacatedUsage } from './vacated-usage';
+import { fetchHistoricalBoxScores, compareResults, BacktestResult, ActualResult, ScoringSystem, DEFAULT_SCORING } from './backtest';
+import { rankPlayers } from './scoring';
+import { listModels, listModelIds, loadModelContext, ModelId } from './models';
+import { hasUnknownCoreStats } from './season-stats';
+import { attachMinutesProjections } from './minutes';
+import { buildSnapshotRows, rankingRows, predictionRows, SnapshotRow } from './snapshots';
+
+// Where a replayed pool's availability came from: the injury report stored
+// before tip-off, or (look-ahead) who actually logged minutes
+export type ReplayAvailability = 'injury_report' | 'actual_minutes';
+
+export const ACTUAL_MINUTES_WARNING =
+  'Some slates have no stored injury report; their pool is limited to players who actually played (look-ahead), which flatters the models';
+
+export interface ReplayResult {
+  date: string;
+  games_count: number;
+  players_count: number;
+  availability: ReplayAvailability;
+  score: BacktestResult;       // Every registered model's score ranking
+  prediction: BacktestResult;  // Models with full Prediction output
+}
+
+export interface ReplayOptions {
+  depth?: number;
+  scoring?: ScoringSystem; // Defaults to PRA
+}
+
+// Reconstruct the candidate pool for a past slate as of tip-off
+export async function buildPlayersAsOf(
+  date: string,
+  actuals: ActualResult[],
+  options: ReplayOptions = {}
+): Promise<{ players: EnhancedPlayerData[], games_count: number, availability: ReplayAvailability } | null> {
+  const { games, source: gamesSource } = await fetchTodaysGames(date);
+  if (gamesSource !== 'espn' || games.length === 0) return null;
+
+  const [playersResult, b2bResult, history] = await Promise.all([
+    fetchPlayersForGames(games, { depth: options.depth, asOf: date }),
+    detectBackToBack(games, date),
+    loadInjuryHistory(date)
+  ]);
+
+  if (playersResult.source !== 'espn') return null;
+
+  const { teamB2B } = b2bResult;
+  const withB2B = playersResult.players
+    .filter(p => !hasUnknownCoreStats(p.stats_provenance))
+    .map(p => ({
+      ...p,
+      is_b2b: teamB2B.has(p.team_abbrev),
+      opponent_b2b: teamB2B.has(p.opponent_abbrev)
+    }));
+
+  if (history) {
+    // The report as of the first tip, exactly what a live run would have seen
+    const tipTimes = games.map(g => new Date(g.game_time).getTime()).filter(t => !isNaN(t));
+    const firstTip = tipTimes.length > 0 ? new Date(Math.min(...tipTimes)) : new Date(history.last_fetched_at);
+    const injuries = reportInjuries(reportAt(history, firstTip));
+
+    const players = applyVacatedUsage(withB2B.map(p => {
+      const injury = getPlayerInjuryStatus(p.name, p.player_id, injuries);
+      return { ...p, injury_status: injury?.status || 'HEALTHY' as const, injury_type: injury?.injury_type };
+    }), injuries, playersResult.rosterLogs)
+      .filter(p => !shouldExcludePlayer(p.injury_status || 'HEALTHY'));
+
+    return { players, games_count: games.length, availability: 'injury_report' };
+  }
+
+  // No stored report: fall back to who played (players who sat are simply
+  // not in the pool), with minutes projected without teammate absences
+  const played = new Set(
+    actuals
+      .filter(a => !a.did_not_play && a.minutes > 0)
+      .map(a => a.player_id)
+  );
+  const players = attachMinutesProjections(withB2B
+    .filter(p => played.has(p.player_id))
+    .map(p => ({ ...p, injury_status: 'HEALTHY' as const })));
+
+  return { players, games_count: games.length, availability: 'actual_minutes' };
+}
+
+// Replay one slate through every model and score against the box scores
+export async function replaySlate(date: string, options: ReplayOptions = {}): Promise<ReplayResult | null> {
+  console.log(`[KOTC Replay] Replaying ${date}`);
+
+  const scoring = options.scoring || DEFAULT_SCORING;
+  const actuals = await fetchHistoricalBoxScores(date, scoring);
+  if (actuals.length === 0) return null;
+
+  const slate = await buildPlayersAsOf(date, actuals, options);
+  if (!slate || slate.players.length === 0) return null;
+  const { players } = slate;
+
+  const context = await loadModelContext();
+  const { rankings } = rankPlayers(players, listModelIds(), context);
+  const predictionsByModel: Record<ModelId, SnapshotRow[]> = {};
+  for (const model of listModels()) {
+    if (model.predict) predictionsByModel[model.id] = predictionRows(model.predict(players, context));
+  }
+
+  const scoreRows = buildSnapshotRows(date, rankingRows(rankings));
+  const predictionRowsAll = buildSnapshotRows(date, predictionsByModel);
+
+  return {
+    date,
+    games_count: slate.games_count,
+    players_count: players.length,
+    availability: slate.availability,
+    score: compareResults(scoreRows, actuals, scoring),
+    prediction: compareResults(predictionRowsAll, actuals, scoring)
+  };
+}
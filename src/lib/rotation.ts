@@ -0,0 +1,88 @@
+// Rotation Selection
+// Picks each team's KOTC candidate pool by recent minutes instead of roster order,
+// with recent starts breaking near-ties
+
+import { GameLogEntry } from './game-logs';
+
+export const DEFAULT_ROTATION_DEPTH = 8;
+
+// Team games used for the "recent minutes" window
+const RECENT_GAMES = 5;
+
+export interface RotationCandidate<T> {
+  athlete: T;
+  gameLog: GameLogEntry[] | null;
+  seasonMpg?: number;    // Fallback when no game log is available
+  recentStarts?: number; // Starts in recent box scores (team-form.ts)
+}
+
+export interface RotationPick<T> extends RotationCandidate<T> {
+  rotation_minutes: number;
+  rotation_source: 'recent' | 'season' | 'none';
+}
+
+// The team's last `n` games, newest first, from its players' logs. ESPN game
+// logs only list games a player appeared in, so the team's schedule is the
+// union of every roster player's games (logs are already cut at the slate in
+// replays).
+export function recentTeamGames(logs: Array<GameLogEntry[] | null>, n: number = RECENT_GAMES): string[] {
+  const dates = new Map<string, string>();
+  for (const entry of logs.flatMap(log => log || [])) {
+    if (!dates.has(entry.event_id)) dates.set(entry.event_id, entry.date);
+  }
+  return Array.from(dates.entries())
+    .sort((a, b) => b[1].localeCompare(a[1]))
+    .slice(0, n)
+    .map(([eventId]) => eventId);
+}
+
+// Minutes signal for one athlete: average over the team's recent games (a game
+// missing from their log counts as 0, so a player out for weeks drops out),
+// else their own last games, else season MPG, else 0
+export function getRotationMinutes(
+  gameLog: GameLogEntry[] | null,
+  seasonMpg?: number,
+  teamGames: string[] = []
+): {
+  minutes: number;
+  source: RotationPick<unknown>['rotation_source'];
+} {
+  if (gameLog && gameLog.length > 0) {
+    const recent = teamGames.length > 0
+      ? gameLog.filter(e => teamGames.includes(e.event_id))
+      : gameLog.slice(-RECENT_GAMES);
+    const games = teamGames.length > 0 ? teamGames.length : recent.length;
+    const minutes = recent.reduce((sum, e) => sum + e.minutes, 0) / games;
+    return { minutes, source: 'recent' };
+  }
+
+  if (seasonMpg && seasonMpg > 0) {
+    return { minutes: seasonMpg, source: 'season' };
+  }
+
+  return { minutes: 0, source: 'none' };
+}
+
+// Rank candidates by minutes (to the whole minute), then recent starts, and
+// keep the top `depth`. Remaining ties (and players with no minutes data) keep
+// roster order.
+export function selectRotation<T>(
+  candidates: RotationCandidate<T>[],
+  depth: number = DEFAULT_ROTATION_DEPTH
+): RotationPick<T>[] {
+  const teamGames = recentTeamGames(candidates.map(c => c.gameLog));
+  const ranked = candidates.map((c, i) => {
+    const { minutes, source } = getRotationMinutes(c.gameLog, c.seasonMpg, teamGames);
+    return { ...c, rotation_minutes: minutes, rotation_source: source, order: i };
+  });
+
+  ranked.sort((a, b) =>
+    Math.round(b.rotation_minutes) - Math.round(a.rotation_minutes) ||
+    (b.recentStarts ?? 0) - (a.recentStarts ?? 0) ||
+    a.order - b.order
+  );
+
+  // Guard against NaN from unvalidated callers, which would otherwise keep nobody
+  const keep = Number.isFinite(depth) ? Math.max(Math.floor(depth), 0) : DEFAULT_ROTATION_DEPTH;
+  return ranked.slice(0, keep).map(({ order, ...pick }) => pick);
+}
@@ -0,0 +1,40 @@
+// Scoring Weights Storage
+// Fitted stats/context coefficients live in data/models/scoring-weights.json;
+// without that file scoring.ts keeps its hand-set defaults. Fits run from the
+// command line (npm run fit:scoring-weights), not from the API.
+
+import { promises as fs } from 'fs';
+import path from 'path';
+import { ScoringWeights, DEFAULT_SCORING_WEIGHTS } from './scoring-weights';
+
+const WEIGHTS_FILE = path.join(process.cwd(), 'data', 'models', 'scoring-weights.json');
+
+// The fitted weights, or the defaults before the first fit
+export async function loadScoringWeights(): Promise<ScoringWeights> {
+  let weights = DEFAULT_SCORING_WEIGHTS;
+  try {
+    const data = JSON.parse(await fs.readFile(WEIGHTS_FILE, 'utf-8'));
+    // Missing keys fall back to the defaults so older files keep working
+    weights = {
+      stats: { ...DEFAULT_SCORING_WEIGHTS.stats, ...data.stats },
+      context: { ...DEFAULT_SCORING_WEIGHTS.context, ...data.context },
+      fit: data.fit ?? null
+    };
+  } catch {
+    // No fitted weights yet
+  }
+  return weights;
+}
+
+// Save fitted weights
+export async function saveScoringWeights(weights: ScoringWeights): Promise<boolean> {
+  try {
+    await fs.mkdir(path.dirname(WEIGHTS_FILE), { recursive: true });
+    await fs.writeFile(WEIGHTS_FILE, JSON.stringify(weights, null, 2));
+    console.log(`[KOTC] Saved scoring weights (${weights.fit?.rows ?? 0} player-games)`);
+    return true;
+  } catch (error) {
+    console.log('[KOTC] Could not save scoring weights:', error);
+    return false;
+  }
+}
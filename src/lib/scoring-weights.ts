@@ -0,0 +1,277 @@
+// Scoring Weights
+// Coefficients for the stats and context scores in scoring.ts. The defaults are
+// the original hand-set constants; fitScoringWeights() learns them from past
+// slates by ridge regression of actual PRA on V1's and V2's blended scores, and
+// the result is saved to data/models/scoring-weights.json (see
+// scoring-weights-store.ts).
+
+import { EnhancedPlayerData } from './espn-data';
+import { isStatKnown } from './season-stats';
+import { minutesScale } from './minutes';
+
+export interface StatsWeights {
+  points: number;       // Per ppg
+  rebounds: number;     // Per rpg
+  assists: number;      // Per apg
+  fg_above_50: number;  // FG% > .500 (skipped when FG% has no source)
+  fg_above_55: number;  // Additional bonus for FG% > .550
+}
+
+export interface ContextWeights {
+  base: number;
+  defense: number;         // Per point of opponent DRTG above 110
+  pace: number;            // Per possession above 99
+  home: number;
+  b2b: number;             // Player's team on a back-to-back
+  opponent_b2b: number;
+  big_favorite: number;    // Spread < -5
+  small_favorite: number;  // Spread -5 to 0
+  big_underdog: number;    // Spread > 5
+  high_total: number;      // Over/under > 230
+  mid_total: number;       // Over/under 220-230
+  low_total: number;       // Over/under < 210
+}
+
+export interface ScoringWeights {
+  stats: StatsWeights;
+  context: ContextWeights;
+  fit: {
+    fitted_at: string;
+    slates: number;
+    rows: number;                              // Player-games used
+    date_range: { start: string; end: string };
+    l2_penalty: number;
+    r_squared: Record<BlendedModel, number>;   // In-sample fit of each model's score to actual PRA
+  } | null;                                    // null = hand-set defaults
+}
+
+// Stats/context blend of each model's score (scoring.ts)
+export interface ScoreBlend {
+  stats: number;
+  context: number;
+}
+
+export const SCORE_BLENDS: Record<'v1' | 'v2', ScoreBlend> = {
+  v1: { stats: 0.75, context: 0.25 },  // Stats-focused
+  v2: { stats: 0.25, context: 0.75 }   // Context-focused: matchups, pace, game environment
+};
+
+export type BlendedModel = keyof typeof SCORE_BLENDS;
+
+// One player-game for fitting
+export interface ScoringTrainingRow {
+  date: string;
+  player: EnhancedPlayerData;
+  actual_pra: number;
+}
+
+export const DEFAULT_SCORING_WEIGHTS: ScoringWeights = {
+  stats: {
+    points: 2.5,
+    rebounds: 1.2,
+    assists: 1.0,
+    fg_above_50: 5,
+    fg_above_55: 5
+  },
+  context: {
+    base: 50,
+    defense: 1.5,
+    pace: 1.2,
+    home: 3,
+    b2b: -8,
+    opponent_b2b: 6,
+    big_favorite: 4,
+    small_favorite: 2,
+    big_underdog: -3,
+    high_total: 6,
+    mid_total: 3,
+    low_total: -3
+  },
+  fit: null
+};
+
+const DEFAULT_L2_PENALTY = 0.01;
+
+type StatsFeature = keyof StatsWeights;
+type ContextFeature = Exclude<keyof ContextWeights, 'base'>;
+
+const STATS_FEATURES: StatsFeature[] = ['points', 'rebounds', 'assists', 'fg_above_50', 'fg_above_55'];
+const CONTEXT_FEATURES: ContextFeature[] = [
+  'defense', 'pace', 'home', 'b2b', 'opponent_b2b',
+  'big_favorite', 'small_favorite', 'big_underdog', 'high_total', 'mid_total', 'low_total'
+];
+
+// Feature values the stats score multiplies by its weights
+// Season per-game counts are rescaled to tonight's projected minutes
+export function statsFeatures(p: EnhancedPlayerData): Record<StatsFeature, number> {
+  const fgKnown = isStatKnown(p.stats_provenance, 'fgp');
+  const scale = minutesScale(p);
+  return {
+    points: p.ppg * scale,
+    rebounds: p.rpg * scale,
+    assists: p.apg * scale,
+    fg_above_50: fgKnown && p.fgp > 0.5 ? 1 : 0,
+    fg_above_55: fgKnown && p.fgp > 0.55 ? 1 : 0
+  };
+}
+
+// Feature values the context score multiplies by its weights (on top of base)
+export function contextFeatures(p: EnhancedPlayerData): Record<ContextFeature, number> {
+  const spread = p.spread;
+  const total = p.over_under;
+  return {
+    defense: p.opp_def_rating - 110,  // Higher opp DRTG = weaker D
+    pace: (p.projected_possessions ?? p.pace) - 99,  // More possessions in the game
+    home: p.is_home ? 1 : 0,
+    b2b: p.is_b2b ? 1 : 0,
+    opponent_b2b: p.opponent_b2b ? 1 : 0,
+    big_favorite: spread !== null && spread < -5 ? 1 : 0,
+    small_favorite: spread !== null && spread >= -5 && spread < 0 ? 1 : 0,
+    big_underdog: spread !== null && spread > 5 ? 1 : 0,
+    high_total: total !== null && total > 230 ? 1 : 0,
+    mid_total: total !== null && total > 220 && total <= 230 ? 1 : 0,
+    low_total: total !== null && total < 210 ? 1 : 0
+  };
+}
+
+export function weightedStatsScore(p: EnhancedPlayerData, weights: StatsWeights): number {
+  const features = statsFeatures(p);
+  return STATS_FEATURES.reduce((sum, f) => sum + weights[f] * features[f], 0);
+}
+
+export function weightedContextScore(p: EnhancedPlayerData, weights: ContextWeights): number {
+  const features = contextFeatures(p);
+  return CONTEXT_FEATURES.reduce((sum, f) => sum + weights[f] * features[f], weights.base);
+}
+
+// A model's score before play probability
+export function blendedScore(p: EnhancedPlayerData, weights: ScoringWeights, model: BlendedModel): number {
+  const blend = SCORE_BLENDS[model];
+  return weightedStatsScore(p, weights.stats) * blend.stats + weightedContextScore(p, weights.context) * blend.context;
+}
+
+// Solve A x = b by Gaussian elimination with partial pivoting
+// Unknowns a singular system can't pin down are left at 0
+export function solveLinearSystem(a: number[][], b: number[]): number[] {
+  const n = b.length;
+  const m = a.map((row, i) => [...row, b[i]]);
+
+  for (let col = 0; col < n; col++) {
+    let pivot = col;
+    for (let row = col + 1; row < n; row++) {
+      if (Math.abs(m[row][col]) > Math.abs(m[pivot][col])) pivot = row;
+    }
+    [m[col], m[pivot]] = [m[pivot], m[col]];
+    if (Math.abs(m[col][col]) < 1e-12) continue;
+
+    for (let row = col + 1; row < n; row++) {
+      const factor = m[row][col] / m[col][col];
+      for (let k = col; k <= n; k++) m[row][k] -= factor * m[col][k];
+    }
+  }
+
+  const x = new Array(n).fill(0);
+  for (let row = n - 1; row >= 0; row--) {
+    if (Math.abs(m[row][row]) < 1e-12) continue;
+    let sum = m[row][n];
+    for (let k = row + 1; k < n; k++) sum -= m[row][k] * x[k];
+    x[row] = sum / m[row][row];
+  }
+  return x;
+}
+
+// Ridge regression of actual PRA on the scores as the models compute them. Each
+// player-game enters once per model in SCORE_BLENDS, with its stats features
+// multiplied by that model's stats share and its context features and intercept
+// (context.base) by its context share, so the shared table fits V1's and V2's
+// blended scores directly: the stats and context scores each end up estimating
+// PRA and the blend only decides which to lean on. Feature columns are scaled
+// by their SD so one penalty fits all (the intercept isn't penalized); a feature
+// that never varies in the sample (e.g. no B2B games) keeps its default weight.
+export function fitScoringWeights(
+  rows: ScoringTrainingRow[],
+  l2Penalty: number = DEFAULT_L2_PENALTY
+): ScoringWeights {
+  const defaults = DEFAULT_SCORING_WEIGHTS;
+  const features = rows.map(r => ({ stats: statsFeatures(r.player), context: contextFeatures(r.player) }));
+
+  interface Column {
+    kind: keyof ScoreBlend;
+    feature: StatsFeature | ContextFeature;
+    values: number[];
+    sd: number;
+    fallback: number;
+  }
+  const sd = (values: number[]) => {
+    const mean = values.reduce((sum, v) => sum + v, 0) / (values.length || 1);
+    return Math.sqrt(values.reduce((sum, v) => sum + (v - mean) ** 2, 0) / (values.length || 1));
+  };
+  const columns: Column[] = [
+    ...STATS_FEATURES.map(f => {
+      const values = features.map(x => x.stats[f]);
+      return { kind: 'stats' as const, feature: f, values, sd: sd(values), fallback: defaults.stats[f] };
+    }),
+    ...CONTEXT_FEATURES.map(f => {
+      const values = features.map(x => x.context[f]);
+      return { kind: 'context' as const, feature: f, values, sd: sd(values), fallback: defaults.context[f] };
+    })
+  ];
+
+  // Only features that vary enter the regression; the rest are taken out of the target
+  const active = columns.filter(c => c.sd > 1e-9);
+  const fixed = columns.filter(c => c.sd <= 1e-9);
+
+  // Design rows: [intercept, active features / SD], one per player-game and model
+  const design: number[][] = [];
+  const target: number[] = [];
+  rows.forEach((r, i) => {
+    for (const blend of Object.values(SCORE_BLENDS)) {
+      design.push([blend.context, ...active.map(c => blend[c.kind] * c.values[i] / c.sd)]);
+      target.push(r.actual_pra - fixed.reduce((sum, c) => sum + blend[c.kind] * c.fallback * c.values[i], 0));
+    }
+  });
+
+  const k = active.length + 1;
+  const xtx = Array.from({ length: k }, (_, a) => Array.from({ length: k }, (_, b) =>
+    design.reduce((sum, row) => sum + row[a] * row[b], 0) + (a === b && a > 0 ? l2Penalty * design.length : 0)
+  ));
+  const xty = Array.from({ length: k }, (_, a) => design.reduce((sum, row, i) => sum + row[a] * target[i], 0));
+  const solution = solveLinearSystem(xtx, xty);
+
+  const round = (v: number) => Math.round(v * 1000) / 1000;
+  const stats = { ...defaults.stats };
+  const context = { ...defaults.context };
+  if (rows.length > 0) context.base = round(solution[0]);
+  active.forEach((c, a) => {
+    const weight = round(solution[a + 1] / c.sd);
+    if (c.kind === 'stats') stats[c.feature as StatsFeature] = weight;
+    else context[c.feature as ContextFeature] = weight;
+  });
+
+  const weights: ScoringWeights = { stats, context, fit: null };
+  const dates = Array.from(new Set(rows.map(r => r.date))).sort();
+
+  return {
+    ...weights,
+    fit: {
+      fitted_at: new Date().toISOString(),
+      slates: dates.length,
+      rows: rows.length,
+      date_range: { start: dates[0] || '', end: dates[dates.length - 1] || '' },
+      l2_penalty: l2Penalty,
+      r_squared: {
+        v1: blendRSquared(rows, weights, 'v1'),
+        v2: blendRSquared(rows, weights, 'v2')
+      }
+    }
+  };
+}
+
+// In-sample R² of one model's blended score (as scoring.ts computes it, before
+// play probability) against actual PRA
+function blendRSquared(rows: ScoringTrainingRow[], weights: ScoringWeights, model: BlendedModel): number {
+  const mean = rows.reduce((sum, r) => sum + r.actual_pra, 0) / (rows.length || 1);
+  const ssTotal = rows.reduce((sum, r) => sum + (r.actual_pra - mean) ** 2, 0);
+  const ssResidual = rows.reduce((sum, r) => sum + (r.actual_pra - blendedScore(r.player, weights, model)) ** 2, 0);
+  return ssTotal > 0 ? Math.round((1 - ssResidual / ssTotal) * 1000) / 1000 : 0;
+}
@@ -1,177 +1,112 @@
 // King of the Court Scoring Models
 import { EnhancedPlayerData } from './espn-data';
-import { getInjuryScoreAdjustment, shouldExcludePlayer, InjuryStatus } from './injuries';
+import { ScoringWeights, blendedScore, weightedStatsScore, weightedContextScore } from './scoring-weights';
+import { getModel, ModelId, ModelContext } from './model-registry';
+import { getMinutesProjection } from './minutes';
+import { getPlayProbability } from './play-probability';
 
 export interface ScoredPlayer extends EnhancedPlayerData {
-  v1_score: number;
-  v2_score: number;
-  stats_score: number;
+  scores: Record<ModelId, number>;  // Score per registered model
+  ranks: Record<ModelId, number>;   // 1-based rank per model
+  stats_score: number;        // Season stats rescaled to projected minutes
   context_score: number;
-  injury_adjustment: number;
-  rank_v1?: number;
-  rank_v2?: number;
-  rank_change?: number;
+  projected_minutes: number;
+  pra_per_minute: number;
+  play_probability: number;  // Chance they play (play-probability.ts); scores are multiplied by it
 }
 
 // V1: Stats-focused (75% stats, 25% context)
 // V2: Context-focused (25% stats, 75% context) - prioritizes matchups, pace, game environment
+// (blends in SCORE_BLENDS, which the scoring weights are fitted against)
 
-export function scorePlayersV1(players: EnhancedPlayerData[]): ScoredPlayer[] {
-  return players.map(p => {
-    const statsScore = calculateStatsScore(p);
-    const contextScore = calculateContextScore(p);
-    const injuryAdj = getInjuryScoreAdjustment(p.injury_status || 'HEALTHY');
-    
-    // V1: Heavy stats weighting
-    const v1Score = (statsScore * 0.75) + (contextScore * 0.25) + injuryAdj;
-    
-    return {
-      ...p,
-      v1_score: v1Score,
-      v2_score: 0, // Will be filled by V2
-      stats_score: statsScore,
-      context_score: contextScore,
-      injury_adjustment: injuryAdj
-    };
-  });
+export function scorePlayerV1(p: EnhancedPlayerData, context: ModelContext): number {
+  const weights = context.scoring_weights;
+  const playProbability = getPlayProbability(context.play_probabilities, p.injury_status, p.injury_type);
+  return blendedScore(p, weights, 'v1') * playProbability;
 }
 
-export function scorePlayersV2(players: EnhancedPlayerData[]): ScoredPlayer[] {
-  return players.map(p => {
-    const statsScore = calculateStatsScore(p);
-    const contextScore = calculateContextScore(p);
-    const injuryAdj = getInjuryScoreAdjustment(p.injury_status || 'HEALTHY');
-    
-    // V2: Heavy context weighting
-    const v2Score = (statsScore * 0.25) + (contextScore * 0.75) + injuryAdj;
-    
-    return {
-      ...p,
-      v1_score: 0, // Will be filled by V1
-      v2_score: v2Score,
-      stats_score: statsScore,
-      context_score: contextScore,
-      injury_adjustment: injuryAdj
-    };
-  });
+export function scorePlayerV2(p: EnhancedPlayerData, context: ModelContext): number {
+  const weights = context.scoring_weights;
+  const playProbability = getPlayProbability(context.play_probabilities, p.injury_status, p.injury_type);
+  return blendedScore(p, weights, 'v2') * playProbability;
 }
 
-function calculateStatsScore(p: EnhancedPlayerData): number {
-  // Points dominate in KOTC
-  const pointsScore = p.ppg * 2.5;
-  
-  // Rebounds and assists matter but less
-  const reboundsScore = p.rpg * 1.2;
-  const assistsScore = p.apg * 1.0;
-  
-  // Efficiency bonus
-  const efficiencyBonus = (p.fgp > 0.5 ? 5 : 0) + (p.fgp > 0.55 ? 5 : 0);
-  
-  return pointsScore + reboundsScore + assistsScore + efficiencyBonus;
+// Coefficients come from scoring-weights.ts (fitted config, or the hand-set defaults)
+function calculateStatsScore(p: EnhancedPlayerData, weights: ScoringWeights): number {
+  return weightedStatsScore(p, weights.stats);
 }
 
-function calculateContextScore(p: EnhancedPlayerData): number {
-  let score = 50; // Base score
-  
-  // Defensive matchup (higher opp_def_rating = weaker D = better for player)
-  const defenseBonus = (p.opp_def_rating - 110) * 1.5;
-  score += defenseBonus;
-  
-  // Pace impact (higher pace = more possessions)
-  const paceBonus = (p.pace - 99) * 1.2;
-  score += paceBonus;
-  
-  // Home court advantage
-  if (p.is_home) {
-    score += 3;
-  }
-  
-  // Back-to-back adjustments
-  if (p.is_b2b) {
-    score -= 8; // Player's team fatigued
-  }
-  if (p.opponent_b2b) {
-    score += 6; // Opponent fatigued = advantage
-  }
-  
-  // Spread context
-  if (p.spread !== null) {
-    if (p.spread < -5) {
-      score += 4; // Big favorite
-    } else if (p.spread < 0) {
-      score += 2; // Small favorite
-    } else if (p.spread > 5) {
-      score -= 3; // Big underdog
-    }
-  }
-  
-  // Over/under context
-  if (p.over_under !== null) {
-    if (p.over_under > 230) {
-      score += 6;
-    } else if (p.over_under > 220) {
-      score += 3;
-    } else if (p.over_under < 210) {
-      score -= 3;
-    }
-  }
-  
-  return score;
+function calculateContextScore(p: EnhancedPlayerData, weights: ScoringWeights): number {
+  return weightedContextScore(p, weights.context);
 }
 
+export interface RankedPlayers {
+  rankings: Record<ModelId, ScoredPlayer[]>;  // Each model's ranking, best first
+  comparison: ModelComparison | null;         // First two models, when more than one ran
+}
+
+// Score players with each requested model (ids from the model registry)
 export function rankPlayers(
   players: EnhancedPlayerData[],
-  modelVersion: 'v1' | 'v2' | 'both' = 'both'
-): { v1: ScoredPlayer[], v2: ScoredPlayer[], comparison: ModelComparison } {
-  const v1Scored = scorePlayersV1(players);
-  const v2Scored = scorePlayersV2(players);
-  
-  // Merge scores
-  const merged = v1Scored.map((p, i) => ({
-    ...p,
-    v2_score: v2Scored[i].v2_score
-  }));
-  
-  // Sort by V1
-  const v1Ranked = [...merged].sort((a, b) => b.v1_score - a.v1_score);
-  v1Ranked.forEach((p, i) => p.rank_v1 = i + 1);
-  
-  // Sort by V2
-  const v2Ranked = [...merged].sort((a, b) => b.v2_score - a.v2_score);
-  v2Ranked.forEach((p, i) => p.rank_v2 = i + 1);
-  
-  // Calculate rank changes
-  const rankedMap = new Map<string, ScoredPlayer>();
-  v1Ranked.forEach(p => {
-    const v2Player = v2Ranked.find(v2 => v2.player_id === p.player_id);
-    p.rank_change = (p.rank_v1 || 0) - (v2Player?.rank_v2 || 0);
-    rankedMap.set(p.player_id, p);
+  modelIds: ModelId[],
+  context: ModelContext
+): RankedPlayers {
+  const models = modelIds
+    .map(id => getModel(id))
+    .filter((m): m is NonNullable<typeof m> => !!m);
+  
+  const scored: ScoredPlayer[] = players.map(p => {
+    const scores: Record<ModelId, number> = {};
+    for (const model of models) {
+      scores[model.id] = model.score(p, context);
+    }
+    const minutes = getMinutesProjection(p);
+    return {
+      ...p,
+      scores,
+      ranks: {},
+      stats_score: calculateStatsScore(p, context.scoring_weights),
+      context_score: calculateContextScore(p, context.scoring_weights),
+      projected_minutes: minutes.projected_minutes,
+      pra_per_minute: minutes.pra_per_minute,
+      play_probability: getPlayProbability(context.play_probabilities, p.injury_status, p.injury_type)
+    };
   });
   
-  // Create comparison stats
-  const comparison = generateComparison(v1Ranked, v2Ranked);
+  const rankings: Record<ModelId, ScoredPlayer[]> = {};
+  for (const model of models) {
+    const ranked = [...scored].sort((a, b) => b.scores[model.id] - a.scores[model.id]);
+    ranked.forEach((p, i) => p.ranks[model.id] = i + 1);
+    rankings[model.id] = ranked;
+  }
   
-  return { v1: v1Ranked, v2: v2Ranked, comparison };
+  const comparison = models.length >= 2
+    ? generateComparison(rankings[models[0].id], models[0].id, models[1].id)
+    : null;
+  
+  return { rankings, comparison };
 }
 
 export interface ModelComparison {
+  base_model: ModelId;
+  compare_model: ModelId;
   total_players: number;
   rank_changes: number;
-  biggest_riser: { name: string; change: number } | null;
+  biggest_riser: { name: string; change: number } | null;   // Ranked higher by compare_model
   biggest_faller: { name: string; change: number } | null;
   top5_overlap: number;
   avg_rank_change: number;
 }
 
-function generateComparison(v1: ScoredPlayer[], v2: ScoredPlayer[]): ModelComparison {
-  const rankChanges = v1.filter(p => p.rank_change !== 0).length;
-  
+function generateComparison(base: ScoredPlayer[], baseId: ModelId, compareId: ModelId): ModelComparison {
+  let rankChanges = 0;
   let biggestRiser: { name: string; change: number } | null = null;
   let biggestFaller: { name: string; change: number } | null = null;
   let totalChange = 0;
   
-  for (const p of v1) {
-    const change = p.rank_change || 0;
+  for (const p of base) {
+    const change = (p.ranks[baseId] || 0) - (p.ranks[compareId] || 0);
+    if (change !== 0) rankChanges++;
     totalChange += Math.abs(change);
     
     if (change > 0 && (!biggestRiser || change > biggestRiser.change)) {
@@ -183,16 +118,18 @@ function generateComparison(v1: ScoredPlayer[], v2: ScoredPlayer[]): ModelCompar
   }
   
   // Check top 5 overlap
-  const v1Top5 = new Set(v1.slice(0, 5).map(p => p.player_id));
-  const v2Top5 = new Set(v2.slice(0, 5).map(p => p.player_id));
-  const top5Overlap = Array.from(v1Top5).filter(id => v2Top5.has(id)).length;
+  const baseTop5 = new Set(base.filter(p => p.ranks[baseId] <= 5).map(p => p.player_id));
+  const compareTop5 = new Set(base.filter(p => p.ranks[compareId] <= 5).map(p => p.player_id));
+  const top5Overlap = Array.from(baseTop5).filter(id => compareTop5.has(id)).length;
   
   return {
-    total_players: v1.length,
+    base_model: baseId,
+    compare_model: compareId,
+    total_players: base.length,
     rank_changes: rankChanges,
     biggest_riser: biggestRiser,
     biggest_faller: biggestFaller,
     top5_overlap: top5Overlap,
-    avg_rank_change: v1.length > 0 ? totalChange / v1.length : 0
+    avg_rank_change: base.length > 0 ? totalChange / base.length : 0
   };
 }
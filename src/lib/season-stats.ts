@@ -0,0 +1,229 @@
+// Season Averages Lookup
+// Resolves ppg/rpg/apg/fgp per athlete from ESPN, with a file-backed cache
+// fallback and a provenance marker per field (never invents numbers). ESPN
+// season averages update the in-memory cache; saveSeasonStatsCache() writes
+// it once per slate.
+
+import { promises as fs } from 'fs';
+import path from 'path';
+import type { GameLogEntry } from './game-logs';
+
+export type StatProvenance =
+  | 'espn_roster'   // Roster payload statistics
+  | 'espn_season'   // ESPN athlete season averages
+  | 'game_log'      // Derived from the athlete game log
+  | 'cache'         // Last known good value from the local cache
+  | 'mock'          // Curated mock data
+  | 'unknown';      // No source available (value is 0)
+
+export type SeasonStatField = 'ppg' | 'rpg' | 'apg' | 'fgp';
+
+export type StatsProvenance = Record<SeasonStatField, StatProvenance>;
+
+export interface SeasonAverages {
+  ppg: number;
+  rpg: number;
+  apg: number;
+  fgp: number; // 0-1
+}
+
+export interface ResolvedSeasonStats extends SeasonAverages {
+  stats_provenance: StatsProvenance;
+}
+
+interface CacheEntry extends Partial<SeasonAverages> {
+  updated_at: string;
+}
+
+const STAT_FIELDS: SeasonStatField[] = ['ppg', 'rpg', 'apg', 'fgp'];
+const CACHE_FILE = path.join(process.cwd(), 'data', 'cache', 'season-stats.json');
+
+let memoryCache: Record<string, CacheEntry> | null = null;
+let cacheDirty = false;
+let pendingWrite: Promise<void> = Promise.resolve();
+
+// Fetch current-season averages from ESPN athlete stats endpoint
+export async function fetchSeasonAverages(playerId: string): Promise<Partial<SeasonAverages> | null> {
+  try {
+    const url = `https://site.web.api.espn.com/apis/common/v3/sports/basketball/nba/athletes/${playerId}/stats`;
+    const response = await fetch(url, {
+      headers: { 'Accept': 'application/json' },
+      next: { revalidate: 21600 } // Cache 6 hours
+    });
+
+    if (!response.ok) {
+      console.log(`[KOTC] Season stats not available for ${playerId}:`, response.status);
+      return null;
+    }
+
+    const data = await response.json();
+    return parseSeasonAverages(data);
+  } catch (error) {
+    console.log(`[KOTC] Error fetching season stats for ${playerId}:`, error);
+    return null;
+  }
+}
+
+// Parse the "averages" category, keyed by label, using the latest season row
+export function parseSeasonAverages(data: any): Partial<SeasonAverages> | null {
+  const categories = data?.categories || [];
+  const averages = categories.find((c: any) => c.name === 'averages') || categories[0];
+  const labels: string[] = averages?.labels || [];
+  const rows = averages?.statistics || [];
+  const latest = rows[rows.length - 1];
+
+  if (!latest?.stats || labels.length === 0) return null;
+
+  const value = (label: string): number | undefined => {
+    const idx = labels.indexOf(label);
+    if (idx < 0) return undefined;
+    const parsed = parseFloat(latest.stats[idx]);
+    return isNaN(parsed) ? undefined : parsed;
+  };
+
+  const fgPct = value('FG%');
+  const result: Partial<SeasonAverages> = {
+    ppg: value('PTS'),
+    rpg: value('REB'),
+    apg: value('AST'),
+    fgp: fgPct !== undefined ? fgPct / 100 : undefined
+  };
+
+  return STAT_FIELDS.some(f => result[f] !== undefined) ? result : null;
+}
+
+// Season averages derived from a game log (games with minutes only)
+export function averagesFromGameLog(entries: GameLogEntry[]): Partial<SeasonAverages> | null {
+  const played = entries.filter(e => e.minutes > 0);
+  if (played.length === 0) return null;
+
+  const avg = (fn: (e: GameLogEntry) => number) =>
+    Math.round(played.reduce((sum, e) => sum + fn(e), 0) / played.length * 10) / 10;
+
+  const fgm = played.reduce((sum, e) => sum + e.fgm, 0);
+  const fga = played.reduce((sum, e) => sum + e.fga, 0);
+  
+  return {
+    ppg: avg(e => e.points),
+    rpg: avg(e => e.rebounds),
+    apg: avg(e => e.assists),
+    fgp: fga > 0 ? Math.round(fgm / fga * 1000) / 1000 : undefined
+  };
+}
+
+// Parse roster `statistics` block (only present on some roster payloads)
+export function averagesFromRoster(stats: any): Partial<SeasonAverages> {
+  const num = (v: any) => {
+    const parsed = parseFloat(v);
+    return isNaN(parsed) || parsed === 0 ? undefined : parsed;
+  };
+  return {
+    ppg: num(stats?.ppg),
+    rpg: num(stats?.rpg),
+    apg: num(stats?.apg),
+    fgp: num(stats?.fgp)
+  };
+}
+
+// Resolve each field from the first source that has it:
+// roster -> ESPN season averages -> game log -> local cache -> unknown
+export async function resolveSeasonStats(
+  playerId: string,
+  rosterStats: any,
+  gameLog: GameLogEntry[] | null
+): Promise<ResolvedSeasonStats> {
+  const resolved: ResolvedSeasonStats = {
+    ppg: 0,
+    rpg: 0,
+    apg: 0,
+    fgp: 0,
+    stats_provenance: { ppg: 'unknown', rpg: 'unknown', apg: 'unknown', fgp: 'unknown' }
+  };
+
+  const fill = (source: Partial<SeasonAverages> | null, provenance: StatProvenance) => {
+    if (!source) return;
+    for (const field of STAT_FIELDS) {
+      const v = source[field];
+      if (resolved.stats_provenance[field] === 'unknown' && v !== undefined) {
+        resolved[field] = v;
+        resolved.stats_provenance[field] = provenance;
+      }
+    }
+  };
+
+  fill(averagesFromRoster(rosterStats), 'espn_roster');
+
+  if (hasUnknownFields(resolved.stats_provenance) && playerId) {
+    const season = await fetchSeasonAverages(playerId);
+    fill(season, 'espn_season');
+    if (season) await rememberAverages(playerId, season);
+  }
+
+  if (hasUnknownFields(resolved.stats_provenance) && gameLog) {
+    fill(averagesFromGameLog(gameLog), 'game_log');
+  }
+
+  if (hasUnknownFields(resolved.stats_provenance) && playerId) {
+    fill(await readCachedAverages(playerId), 'cache');
+  }
+
+  return resolved;
+}
+
+function hasUnknownFields(provenance: StatsProvenance): boolean {
+  return STAT_FIELDS.some(f => provenance[f] === 'unknown');
+}
+
+// True when any of the core counting stats (ppg/rpg/apg) has no source
+export function hasUnknownCoreStats(provenance?: StatsProvenance): boolean {
+  if (!provenance) return false;
+  return provenance.ppg === 'unknown' || provenance.rpg === 'unknown' || provenance.apg === 'unknown';
+}
+
+export function isStatKnown(provenance: StatsProvenance | undefined, field: SeasonStatField): boolean {
+  return !provenance || provenance[field] !== 'unknown';
+}
+
+async function loadCache(): Promise<Record<string, CacheEntry>> {
+  if (memoryCache) return memoryCache;
+  try {
+    const raw = await fs.readFile(CACHE_FILE, 'utf-8');
+    memoryCache = JSON.parse(raw);
+  } catch {
+    memoryCache = {};
+  }
+  return memoryCache!;
+}
+
+async function readCachedAverages(playerId: string): Promise<Partial<SeasonAverages> | null> {
+  const cache = await loadCache();
+  const entry = cache[playerId];
+  if (!entry) return null;
+  const { updated_at, ...averages } = entry;
+  return averages;
+}
+
+async function rememberAverages(playerId: string, averages: Partial<SeasonAverages>): Promise<void> {
+  const cache = await loadCache();
+  const known = Object.fromEntries(Object.entries(averages).filter(([, v]) => v !== undefined));
+  cache[playerId] = { ...cache[playerId], ...known, updated_at: new Date().toISOString() };
+  cacheDirty = true;
+}
+
+// Write the cache if any averages changed since the last save. Called once
+// per slate by fetchPlayersForGames().
+export async function saveSeasonStatsCache(): Promise<void> {
+  // Serialize writes - overlapping requests can both save
+  pendingWrite = pendingWrite.then(async () => {
+    if (!cacheDirty || !memoryCache) return;
+    cacheDirty = false;
+    try {
+      await fs.mkdir(path.dirname(CACHE_FILE), { recursive: true });
+      await fs.writeFile(CACHE_FILE, JSON.stringify(memoryCache, null, 2));
+    } catch (error) {
+      // Read-only filesystems (e.g. serverless) keep the in-memory copy only
+      console.log('[KOTC] Could not write season stats cache:', error);
+    }
+  });
+  await pendingWrite;
+}
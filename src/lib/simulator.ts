@@ -0,0 +1,257 @@
+// Monte Carlo Slate Simulator
+// KOTC pays the single highest PRA on the slate, so point projections alone
+// don't tell us who to play. This samples every player's PRA many times and
+// counts how often each one finishes #1 / top 3.
+//
+// Each iteration:
+// - Every game draws a shared pace/scoring shock (teammates and opponents
+//   move together in shootouts and rock fights), sized from its O/U and
+//   projected possessions
+// - Every game draws a final margin around its spread; lopsided margins cut
+//   starters' production for both teams and hand bench players garbage time
+//   (roles from projected minutes, as in minutes.ts)
+// - Every player on the injury report draws whether they play at all (their
+//   model play_probability); if they do, their own PRA around the projection
+//   scaled back up to what they'd produce when playing
+// Game-level factors are normalized to mean 1 so the simulated mean stays at
+// the model's projected PRA; they only add correlation and downside skew.
+
+import { Prediction } from './prediction-model';
+import { createRandom, sampleNormal, RandomSource } from './random';
+import { STARTER_MINUTES, BENCH_MINUTES } from './minutes';
+
+export interface SimulatedPlayer {
+  player_id: string;
+  player_name: string;
+  team: string;
+  opponent: string;
+  projected_pra: number;
+  std_dev_pra: number;
+  play_probability: number;
+  win_probability: number;    // P(highest PRA on the slate)
+  top3_probability: number;
+  expected_rank: number;
+  mean_pra: number;           // Mean simulated PRA
+}
+
+export interface SimulationOptions {
+  iterations?: number;
+  seed?: number;
+}
+
+export interface SimulationResult {
+  iterations: number;
+  seed: number;
+  players: SimulatedPlayer[]; // Sorted by win probability
+}
+
+export const DEFAULT_ITERATIONS = 10000;
+export const MAX_ITERATIONS = 50000;
+const DEFAULT_SEED = 20240101;
+
+// NBA game totals miss the posted O/U by ~17 points (~7.5% of a 225 total) at
+// league-average pace. Scoring variance adds up per possession, so the miss
+// grows with sqrt(possessions) while the total grows linearly: faster, higher
+// totals swing less in relative terms.
+const GAME_TOTAL_MISS = 17;
+const LEAGUE_GAME_TOTAL = 225;
+const LEAGUE_POSSESSIONS = 100;   // Per team
+const MIN_GAME_TOTAL_SD = 0.05;
+const MAX_GAME_TOTAL_SD = 0.11;
+
+// Final margins land within ~12 points of the spread (1 SD)
+const MARGIN_SD = 12;
+
+// Starters start sitting once the margin passes ~15; each extra point costs
+// about 1.5% of their production, capped at 30%. Bench players gain half that
+// share (their garbage-time minutes come at lower production).
+const BLOWOUT_THRESHOLD = 15;
+const BLOWOUT_COST_PER_POINT = 0.015;
+const MAX_BLOWOUT_COST = 0.30;
+const BENCH_BLOWOUT_GAIN = 0.5;
+
+// Fallback spread for players with no game log variance
+const MIN_STD_DEV_SHARE = 0.25;
+const MIN_STD_DEV = 4;
+
+// Starters lose production in blowouts, bench players pick some up, and the
+// rest of the rotation plays through
+type BlowoutRole = 'starter' | 'rotation' | 'bench';
+
+export function blowoutRole(projectedMinutes: number): BlowoutRole {
+  if (projectedMinutes >= STARTER_MINUTES) return 'starter';
+  if (projectedMinutes < BENCH_MINUTES) return 'bench';
+  return 'rotation';
+}
+
+// Share of starters' production lost at a final margin
+function blowoutCost(margin: number): number {
+  const excess = Math.abs(margin) - BLOWOUT_THRESHOLD;
+  if (excess <= 0) return 0;
+  return Math.min(excess * BLOWOUT_COST_PER_POINT, MAX_BLOWOUT_COST);
+}
+
+function blowoutMultiplier(role: BlowoutRole, cost: number): number {
+  if (role === 'starter') return 1 - cost;
+  if (role === 'bench') return 1 + cost * BENCH_BLOWOUT_GAIN;
+  return 1;
+}
+
+// E[blowoutCost] for margin ~ N(spread, MARGIN_SD), by numeric integration
+function expectedBlowoutCost(spread: number): number {
+  let total = 0;
+  let weight = 0;
+  for (let z = -4; z <= 4; z += 0.05) {
+    const w = Math.exp(-z * z / 2);
+    total += w * blowoutCost(spread + z * MARGIN_SD);
+    weight += w;
+  }
+  return total / weight;
+}
+
+// Shared game shock SD as a share of the game's scoring
+export function gameTotalSd(overUnder?: number | null, possessions?: number | null): number {
+  const pace = possessions && possessions > 0 ? possessions : LEAGUE_POSSESSIONS;
+  const total = overUnder && overUnder > 0 ? overUnder : LEAGUE_GAME_TOTAL * pace / LEAGUE_POSSESSIONS;
+  const sd = GAME_TOTAL_MISS * Math.sqrt(pace / LEAGUE_POSSESSIONS) / total;
+  return Math.min(Math.max(sd, MIN_GAME_TOTAL_SD), MAX_GAME_TOTAL_SD);
+}
+
+function gameKey(team: string, opponent: string): string {
+  return [team, opponent].sort().join('-');
+}
+
+interface SimGame {
+  spread: number;
+  total_sd: number;       // Shared scoring shock, share of the total
+  expected_cost: number;  // Mean starters' blowout cost
+}
+
+interface SimPlayer {
+  prediction: Prediction;
+  game: number;
+  role: BlowoutRole;
+  expected_blowout: number;  // Mean blowout multiplier for the role
+  play_probability: number;
+  mean: number;           // PRA when they play
+  std_dev: number;        // Total spread from the model
+  individual_sd: number;  // Spread left after the shared game shock
+}
+
+// One game outcome per iteration, shared by every player in it
+interface GameDraw {
+  shock: number;  // Scoring multiplier, mean 1
+  cost: number;   // Starters' blowout cost at the drawn margin
+}
+
+function drawGame(game: SimGame, random: RandomSource): GameDraw {
+  const totalShock = 1 + game.total_sd * sampleNormal(random);
+  const margin = game.spread + MARGIN_SD * sampleNormal(random);
+  return { shock: Math.max(0, totalShock), cost: blowoutCost(margin) };
+}
+
+// A player's game factor, normalized so the role's mean blowout effect is 1
+function playerGameMultiplier(player: SimPlayer, draw: GameDraw): number {
+  return draw.shock * blowoutMultiplier(player.role, draw.cost) / player.expected_blowout;
+}
+
+// Simulate a slate from one model's predictions
+export function simulateSlate(predictions: Prediction[], options: SimulationOptions = {}): SimulationResult {
+  const iterations = Math.min(Math.max(Math.floor(options.iterations || DEFAULT_ITERATIONS), 1), MAX_ITERATIONS);
+  const seed = options.seed ?? DEFAULT_SEED;
+  const random = createRandom(seed);
+
+  // Group players into games
+  const gameIndex = new Map<string, number>();
+  const games: SimGame[] = [];
+  const players: SimPlayer[] = predictions.map(prediction => {
+    const key = gameKey(prediction.team, prediction.opponent);
+    if (!gameIndex.has(key)) {
+      const { spread: rawSpread, over_under, projected_possessions } = prediction.game_context;
+      const spread = Math.abs(rawSpread ?? 0);
+      gameIndex.set(key, games.length);
+      games.push({
+        spread,
+        total_sd: gameTotalSd(over_under, projected_possessions),
+        expected_cost: expectedBlowoutCost(spread)
+      });
+    }
+    const game = gameIndex.get(key)!;
+    const role = blowoutRole(prediction.stats.projected_minutes ?? prediction.stats.minutes_per_game);
+
+    // projected_pra is an expectation over playing and sitting
+    const playProbability = prediction.play_probability;
+    const mean = playProbability > 0 ? Math.max(prediction.projected_pra, 0) / playProbability : 0;
+    const stdDev = prediction.stats.std_dev_pra > 0
+      ? prediction.stats.std_dev_pra
+      : Math.max(mean * MIN_STD_DEV_SHARE, MIN_STD_DEV);
+
+    // Part of a player's variance is the shared game shock; only the rest is individual
+    const sharedSd = mean * games[game].total_sd;
+    const individualSd = Math.sqrt(Math.max(stdDev ** 2 - sharedSd ** 2, (stdDev / 2) ** 2));
+
+    return {
+      prediction,
+      game,
+      role,
+      expected_blowout: blowoutMultiplier(role, games[game].expected_cost),
+      play_probability: playProbability,
+      mean,
+      std_dev: stdDev,
+      individual_sd: individualSd
+    };
+  });
+
+  const n = players.length;
+  const wins = new Array<number>(n).fill(0);
+  const top3 = new Array<number>(n).fill(0);
+  const rankTotals = new Array<number>(n).fill(0);
+  const praTotals = new Array<number>(n).fill(0);
+
+  const samples = new Array<number>(n);
+  const order = players.map((_, i) => i);
+  const gameDraws = new Array<GameDraw>(games.length);
+
+  for (let iter = 0; iter < iterations; iter++) {
+    for (let g = 0; g < games.length; g++) {
+      gameDraws[g] = drawGame(games[g], random);
+    }
+
+    for (let i = 0; i < n; i++) {
+      const p = players[i];
+      const plays = p.play_probability >= 1 || random() < p.play_probability;
+      const pra = plays ? (p.mean + p.individual_sd * sampleNormal(random)) * playerGameMultiplier(p, gameDraws[p.game]) : 0;
+      samples[i] = Math.max(pra, 0);
+      praTotals[i] += samples[i];
+    }
+
+    order.sort((a, b) => samples[b] - samples[a]);
+    for (let r = 0; r < n; r++) {
+      const i = order[r];
+      rankTotals[i] += r + 1;
+      if (r < 3) top3[i]++;
+    }
+    if (n > 0) wins[order[0]]++;
+  }
+
+  const round = (v: number, digits: number) => Math.round(v * 10 ** digits) / 10 ** digits;
+
+  const simulated: SimulatedPlayer[] = players.map((p, i) => ({
+    player_id: p.prediction.player_id,
+    player_name: p.prediction.player_name,
+    team: p.prediction.team,
+    opponent: p.prediction.opponent,
+    projected_pra: p.prediction.projected_pra,
+    std_dev_pra: round(p.std_dev, 1),
+    play_probability: p.play_probability,
+    win_probability: round(wins[i] / iterations, 4),
+    top3_probability: round(top3[i] / iterations, 4),
+    expected_rank: round(rankTotals[i] / iterations, 1),
+    mean_pra: round(praTotals[i] / iterations, 1)
+  }));
+
+  simulated.sort((a, b) => b.win_probability - a.win_probability || a.expected_rank - b.expected_rank);
+
+  console.log(`[KOTC] Simulated ${n} players x ${iterations} iterations`);
+  return { iterations, seed, players: simulated };
+}
@@ -0,0 +1,92 @@
+// NBA Slate Dates
+// Slate days are defined in US/Eastern time (how ESPN and DraftKings date games).
+// Every fetcher, the backtest date loop and the Tuesday calculator go through here
+// so nothing depends on UTC (`toISOString`) or the server's local timezone.
+
+export const SLATE_TIME_ZONE = 'America/New_York';
+
+// Late West Coast games end ~1:30am ET, so the slate day rolls over at 4am ET
+// rather than at midnight
+export const SLATE_ROLLOVER_HOUR = 4;
+
+const DATE_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+
+const easternFormatter = new Intl.DateTimeFormat('en-US', {
+  timeZone: SLATE_TIME_ZONE,
+  year: 'numeric',
+  month: '2-digit',
+  day: '2-digit',
+  hour: '2-digit',
+  hourCycle: 'h23'
+});
+
+// Wall-clock date and hour in Eastern time (DST handled by Intl)
+export function getEasternParts(now: Date = new Date()): { date: string; hour: number } {
+  const parts: Record<string, string> = {};
+  for (const part of easternFormatter.formatToParts(now)) {
+    parts[part.type] = part.value;
+  }
+  return {
+    date: `${parts.year}-${parts.month}-${parts.day}`,
+    hour: parseInt(parts.hour, 10)
+  };
+}
+
+// Slate date (YYYY-MM-DD) for an instant
+// Before the rollover hour, the previous night's slate is still current
+export function getSlateDate(now: Date = new Date()): string {
+  const { date, hour } = getEasternParts(now);
+  return hour < SLATE_ROLLOVER_HOUR ? addDays(date, -1) : date;
+}
+
+// Calendar arithmetic on YYYY-MM-DD strings (timezone independent)
+export function addDays(date: string, days: number): string {
+  const d = new Date(`${date}T12:00:00Z`);
+  d.setUTCDate(d.getUTCDate() + days);
+  return d.toISOString().split('T')[0];
+}
+
+// Day of week for a slate date (0 = Sunday)
+export function getSlateWeekday(date: string): number {
+  return new Date(`${date}T12:00:00Z`).getUTCDay();
+}
+
+// Slate dates from `start` going back `days` days, excluding `start` itself
+export function getPreviousSlateDates(start: string, days: number): string[] {
+  const dates: string[] = [];
+  for (let i = 1; i <= days; i++) {
+    dates.push(addDays(start, -i));
+  }
+  return dates;
+}
+
+// Inclusive list of slate dates from `start` to `end`
+export function getSlateDateRange(start: string, end: string): string[] {
+  const dates: string[] = [];
+  for (let d = start; d <= end; d = addDays(d, 1)) {
+    dates.push(d);
+  }
+  return dates;
+}
+
+// NBA season end year for a slate date (Oct-Dec belong to the next year's season)
+export function getSeasonYear(date: string): number {
+  const [year, month] = date.split('-').map(Number);
+  return month >= 10 ? year + 1 : year;
+}
+
+// ESPN scoreboard `dates` param format (YYYYMMDD)
+export function toESPNDate(date: string): string {
+  return date.replace(/-/g, '');
+}
+
+export function isValidSlateDate(date: string): boolean {
+  if (!DATE_PATTERN.test(date)) return false;
+  const d = new Date(`${date}T12:00:00Z`);
+  return !isNaN(d.getTime()) && d.toISOString().startsWith(date);
+}
+
+// Display a slate date without shifting it into the viewer's timezone
+export function formatSlateDate(date: string, options: Intl.DateTimeFormatOptions): string {
+  return new Date(`${date}T12:00:00Z`).toLocaleDateString('en-US', { ...options, timeZone: 'UTC' });
+}
@@ -0,0 +1,149 @@
+// Prediction Snapshots
+// Persists each model's ranked output of /api/predictions per slate so backtests
+// compare what we actually predicted (before tip-off) against box scores
+
+import { promises as fs } from 'fs';
+import path from 'path';
+import { HistoricalPrediction } from './backtest';
+import { ScoredPlayer } from './scoring';
+import { Prediction } from './prediction-model';
+import { ModelId } from './model-registry';
+import { getSlateDate } from './slate-date';
+
+export interface PredictionSnapshot {
+  date: string;             // Eastern slate date
+  format: 'score' | 'prediction';
+  generated_at: string;
+  first_tip: string | null; // Snapshot is locked once this passes
+  predictions: HistoricalPrediction[];
+}
+
+// Minimal ranked-row shape shared by ScoredPlayer and Prediction
+export interface SnapshotRow {
+  player_id: string;
+  player_name: string;
+  team: string;
+  opponent: string;
+  score: number;
+}
+
+const SNAPSHOT_DIR = path.join(process.cwd(), 'data', 'snapshots');
+
+function snapshotFile(date: string, format: PredictionSnapshot['format']): string {
+  return path.join(SNAPSHOT_DIR, `${date}.${format}.json`);
+}
+
+export function scoredPlayerRows(ranked: ScoredPlayer[], model: ModelId): SnapshotRow[] {
+  return ranked.map(p => ({
+    player_id: p.player_id,
+    player_name: p.name,
+    team: p.team_abbrev,
+    opponent: p.opponent_abbrev,
+    score: p.scores[model] ?? 0
+  }));
+}
+
+// Snapshot rows for every model in a rankPlayers() result
+export function rankingRows(rankings: Record<ModelId, ScoredPlayer[]>): Record<ModelId, SnapshotRow[]> {
+  const rows: Record<ModelId, SnapshotRow[]> = {};
+  for (const [model, ranked] of Object.entries(rankings)) {
+    rows[model] = scoredPlayerRows(ranked, model);
+  }
+  return rows;
+}
+
+export function predictionRows(ranked: Prediction[]): SnapshotRow[] {
+  return ranked.map(p => ({
+    player_id: p.player_id,
+    player_name: p.player_name,
+    team: p.team,
+    opponent: p.opponent,
+    score: p.ceiling_score
+  }));
+}
+
+// Build HistoricalPrediction rows for every model from their ranked lists
+export function buildSnapshotRows(date: string, rowsByModel: Record<ModelId, SnapshotRow[]>): HistoricalPrediction[] {
+  return Object.entries(rowsByModel).flatMap(([model, ranked]) =>
+    ranked.map((p, i) => ({
+      date,
+      player_id: p.player_id,
+      player_name: p.player_name,
+      team: p.team,
+      opponent: p.opponent,
+      predicted_rank: i + 1,
+      model_version: model,
+      score: p.score
+    }))
+  );
+}
+
+// Snapshots saved before the model registry stored v1_score/v2_score on every row
+function upgradeLegacyRow(row: any): HistoricalPrediction {
+  if (typeof row.score === 'number') return row;
+  const { v1_score, v2_score, ...rest } = row;
+  return { ...rest, score: (row.model_version === 'v2' ? v2_score : v1_score) ?? 0 };
+}
+
+export async function loadSnapshot(
+  date: string,
+  format: PredictionSnapshot['format'] = 'score'
+): Promise<PredictionSnapshot | null> {
+  try {
+    const raw = await fs.readFile(snapshotFile(date, format), 'utf-8');
+    const snapshot: PredictionSnapshot = JSON.parse(raw);
+    return { ...snapshot, predictions: (snapshot.predictions || []).map(upgradeLegacyRow) };
+  } catch {
+    return null;
+  }
+}
+
+// A slate's snapshot is locked once its first game tips or the slate is over.
+// Checked against both the stored snapshot and the incoming one, so a first
+// save after tip-off (or for a past date) can't record post-tip predictions.
+export function isSnapshotLocked(
+  snapshot: Pick<PredictionSnapshot, 'date' | 'first_tip'>,
+  now: Date = new Date()
+): boolean {
+  if (snapshot.date < getSlateDate(now)) return true;
+  return !!snapshot.first_tip && now >= new Date(snapshot.first_tip);
+}
+
+// Save a slate snapshot; later requests overwrite it until the first game tips
+export async function saveSnapshot(
+  snapshot: Omit<PredictionSnapshot, 'generated_at'>,
+  now: Date = new Date()
+): Promise<boolean> {
+  if (isSnapshotLocked(snapshot, now)) {
+    return false; // Locked - games have started
+  }
+  const existing = await loadSnapshot(snapshot.date, snapshot.format);
+  if (existing && isSnapshotLocked(existing, now)) {
+    return false;
+  }
+
+  try {
+    await fs.mkdir(SNAPSHOT_DIR, { recursive: true });
+    const full: PredictionSnapshot = { ...snapshot, generated_at: now.toISOString() };
+    await fs.writeFile(snapshotFile(snapshot.date, snapshot.format), JSON.stringify(full, null, 2));
+    console.log(`[KOTC] Saved ${snapshot.format} snapshot for ${snapshot.date} (${snapshot.predictions.length} rows)`);
+    return true;
+  } catch (error) {
+    console.log('[KOTC] Could not save prediction snapshot:', error);
+    return false;
+  }
+}
+
+// Slate dates with a stored snapshot, newest first
+export async function listSnapshotDates(format: PredictionSnapshot['format'] = 'score'): Promise<string[]> {
+  try {
+    const files = await fs.readdir(SNAPSHOT_DIR);
+    const suffix = `.${format}.json`;
+    return files
+      .filter(f => f.endsWith(suffix))
+      .map(f => f.slice(0, -suffix.length))
+      .sort((a, b) => b.localeCompare(a));
+  } catch {
+    return [];
+  }
+}
@@ -0,0 +1,269 @@
+// Rolling Team Form
+// Team DRTG and pace over each team's last N games, computed from the same ESPN
+// box scores the backtester pulls. Until a team has N games the numbers are
+// blended toward its season-table value. fetchPlayersForGames() scores with the
+// result, so context and matchup adjustments follow current form (trades,
+// injuries) rather than full-season averages. The same box scores feed
+// the PRA-allowed-by-position table (position-defense.ts) and the recent
+// starts rotation.ts breaks ties with.
+
+import { promises as fs } from 'fs';
+import path from 'path';
+import { fetchFinalGameSummaries } from './backtest';
+import { parseBoxScore, parseTeamTotals, TeamGameTotals } from './box-scores';
+import { getSlateDate, getPreviousSlateDates, getSeasonYear, addDays } from './slate-date';
+import {
+  TeamMetrics,
+  TeamMetricsTable,
+  normalizeTeamAbbrev,
+  leagueAverageMetrics
+} from './team-metrics';
+import {
+  PositionDefenseTable,
+  PositionGameTotals,
+  SHRINKAGE_MINUTES,
+  summarizePositionLines,
+  computePositionDefense
+} from './position-defense';
+
+export const ROLLING_GAMES = 10;
+
+// Calendar days searched for each team's last N games
+const LOOKBACK_DAYS = 30;
+
+// Position defense needs more games per cell, so it looks further back
+export const POSITION_LOOKBACK_DAYS = 60;
+
+// Completed slates never change, so their totals are cached on disk. The disk
+// cache is best-effort: on read-only (serverless) filesystems writes just fail
+// and the in-memory cache below carries the process.
+const CACHE_DIR = path.join(process.cwd(), 'data', 'cache', 'team-games');
+
+// Yesterday's slate may still have games going final, so it's only reused briefly
+const RECENT_SLATE_TTL_MS = 10 * 60 * 1000;
+
+interface SlateGames {
+  teams: TeamGameTotals[];
+  positions: PositionGameTotals[];
+  ejected: string[];  // Player ids ejected on the slate
+  starters: string[]; // Player ids who started on the slate
+}
+
+interface DatedTeamGame extends TeamGameTotals {
+  date: string;
+}
+
+// One load per slate date, shared by the three loaders below and by concurrent
+// requests; completed slates are kept, yesterday's expires after the TTL
+const memoryCache = new Map<string, { totals: Promise<SlateGames | null>; expires: number }>();
+
+// Slates before yesterday are certainly over (late games may still be live yesterday)
+function isSlateFinal(date: string): boolean {
+  return date < addDays(getSlateDate(), -1);
+}
+
+// Team and per-position totals (plus ejections) for every final game on a
+// slate (null if ESPN couldn't be reached)
+function loadSlateGames(date: string): Promise<SlateGames | null> {
+  const entry = memoryCache.get(date);
+  if (entry && entry.expires > Date.now()) return entry.totals;
+
+  const totals = readSlateGames(date);
+  memoryCache.set(date, { totals, expires: Infinity });
+  totals.then(result => {
+    if (memoryCache.get(date)?.totals !== totals) return;
+    if (!result) {
+      memoryCache.delete(date);  // Retry ESPN next time
+    } else if (!isSlateFinal(date)) {
+      memoryCache.set(date, { totals, expires: Date.now() + RECENT_SLATE_TTL_MS });
+    }
+  }, () => {
+    if (memoryCache.get(date)?.totals === totals) memoryCache.delete(date);
+  });
+  return totals;
+}
+
+async function readSlateGames(date: string): Promise<SlateGames | null> {
+  const file = path.join(CACHE_DIR, `${date}.json`);
+  try {
+    const cached = JSON.parse(await fs.readFile(file, 'utf-8'));
+    // Older cache files lack some fields; those are refetched
+    if (cached?.teams && cached?.positions && cached?.ejected && cached?.starters) return cached;
+  } catch {
+    // Not cached yet
+  }
+
+  const summaries = await fetchFinalGameSummaries(date);
+  if (!summaries) return null;
+  const lines = summaries.map(parseBoxScore);
+  const totals: SlateGames = {
+    teams: summaries.flatMap(parseTeamTotals),
+    positions: lines.flatMap(summarizePositionLines),
+    ejected: lines.flat().filter(l => l.ejected).map(l => l.player_id),
+    starters: lines.flat().filter(l => l.starter).map(l => l.player_id)
+  };
+
+  if (isSlateFinal(date)) {
+    try {
+      await fs.mkdir(CACHE_DIR, { recursive: true });
+      await fs.writeFile(file, JSON.stringify(totals));
+    } catch (error) {
+      console.log('[KOTC] Could not write team games cache:', error);
+    }
+  }
+
+  return totals;
+}
+
+// Rolling metrics from dated team games, blended toward `base` for teams with
+// fewer than `n` games
+export function computeRollingTeamMetrics(
+  games: DatedTeamGame[],
+  base: TeamMetricsTable | null,
+  n: number = ROLLING_GAMES
+): Record<string, TeamMetrics> {
+  // Opponent totals for the same game
+  const byGame = new Map<string, DatedTeamGame>();
+  for (const g of games) byGame.set(`${g.date}|${normalizeTeamAbbrev(g.team_abbrev)}`, g);
+
+  const byTeam = new Map<string, DatedTeamGame[]>();
+  for (const g of games) {
+    const team = normalizeTeamAbbrev(g.team_abbrev);
+    byTeam.set(team, [...(byTeam.get(team) || []), g]);
+  }
+
+  const fallback = leagueAverageMetrics(base);
+  const teams: Record<string, TeamMetrics> = { ...(base?.teams || {}) };
+
+  byTeam.forEach((teamGames, team) => {
+    let possessions = 0;
+    let pointsAllowed = 0;
+    let paceTotal = 0;
+    let count = 0;
+
+    for (const g of teamGames.sort((a, b) => b.date.localeCompare(a.date)).slice(0, n)) {
+      const opponent = byGame.get(`${g.date}|${normalizeTeamAbbrev(g.opponent_abbrev)}`);
+      if (!opponent) continue;
+      // Both teams have (nearly) the same possessions; average the two estimates
+      const gamePossessions = (g.possessions + opponent.possessions) / 2;
+      possessions += gamePossessions;
+      pointsAllowed += opponent.points;
+      paceTotal += gamePossessions * 48 / ((g.minutes || 240) / 5);
+      count++;
+    }
+
+    if (count === 0 || possessions === 0) return;
+
+    const seasonValue = base?.teams[team] || fallback;
+    const weight = Math.min(count / n, 1);
+    const round = (v: number) => Math.round(v * 10) / 10;
+    teams[team] = {
+      ...seasonValue,
+      def_rating: round(weight * (100 * pointsAllowed / possessions) + (1 - weight) * seasonValue.def_rating),
+      pace: round(weight * (paceTotal / count) + (1 - weight) * seasonValue.pace),
+      games: count
+    };
+  });
+
+  return teams;
+}
+
+// Build the rolling table as of a slate (games strictly before it, same season).
+// Teams without recent games keep their season-table values.
+export async function loadRollingTeamMetrics(
+  date: string,
+  base: TeamMetricsTable | null,
+  n: number = ROLLING_GAMES
+): Promise<TeamMetricsTable | null> {
+  const season = getSeasonYear(date);
+  const dates = getPreviousSlateDates(date, LOOKBACK_DAYS).filter(d => getSeasonYear(d) === season);
+
+  const perDate = await Promise.all(dates.map(async d => {
+    const totals = await loadSlateGames(d);
+    return (totals?.teams || []).map(t => ({ ...t, date: d }));
+  }));
+  const games = perDate.flat();
+
+  if (games.length === 0) {
+    console.log(`[KOTC] No recent box scores before ${date}, using season team metrics`);
+    return base;
+  }
+
+  const table: TeamMetricsTable = {
+    season,
+    updated_at: new Date().toISOString(),
+    source: 'rolling',
+    rolling_games: n,
+    as_of: date,
+    teams: computeRollingTeamMetrics(games, base, n)
+  };
+
+  console.log(`[KOTC] Rolling team metrics from ${games.length / 2} games before ${date}`);
+  return table;
+}
+
+// Build the PRA-allowed-by-position table as of a slate (games strictly before
+// it, same season). With no games it's null, so the models fall back to
+// neutral modifiers.
+export async function loadPositionDefense(
+  date: string,
+  lookbackDays: number = POSITION_LOOKBACK_DAYS
+): Promise<PositionDefenseTable | null> {
+  const season = getSeasonYear(date);
+  const dates = getPreviousSlateDates(date, lookbackDays).filter(d => getSeasonYear(d) === season);
+
+  const perDate = await Promise.all(dates.map(loadSlateGames));
+  const games = perDate.flatMap(totals => totals?.positions || []);
+
+  if (games.length === 0) {
+    console.log(`[KOTC] No recent box scores before ${date}, position defense is neutral`);
+    return null;
+  }
+
+  const table: PositionDefenseTable = {
+    season,
+    as_of: date,
+    updated_at: new Date().toISOString(),
+    lookback_days: lookbackDays,
+    shrinkage_minutes: SHRINKAGE_MINUTES,
+    ...computePositionDefense(games)
+  };
+
+  console.log(`[KOTC] Position defense from ${dates.length} slates before ${date}`);
+  return table;
+}
+
+// Ejections per player over the same window as position defense (feeds the
+// minutes projection's discipline risk)
+export function loadRecentEjections(
+  date: string,
+  lookbackDays: number = POSITION_LOOKBACK_DAYS
+): Promise<Map<string, number>> {
+  return countPlayerIds(date, lookbackDays, totals => totals.ejected);
+}
+
+// Starts per player over the rolling-form window (rotation tie-break)
+export function loadRecentStarts(
+  date: string,
+  lookbackDays: number = LOOKBACK_DAYS
+): Promise<Map<string, number>> {
+  return countPlayerIds(date, lookbackDays, totals => totals.starters);
+}
+
+// Slates each player id appears on in `pick`, over slates before `date` in
+// the same season
+async function countPlayerIds(
+  date: string,
+  lookbackDays: number,
+  pick: (totals: SlateGames) => string[]
+): Promise<Map<string, number>> {
+  const season = getSeasonYear(date);
+  const dates = getPreviousSlateDates(date, lookbackDays).filter(d => getSeasonYear(d) === season);
+  const perDate = await Promise.all(dates.map(loadSlateGames));
+
+  const counts = new Map<string, number>();
+  for (const id of perDate.flatMap(totals => totals ? pick(totals) : [])) {
+    counts.set(id, (counts.get(id) || 0) + 1);
+  }
+  return counts;
+}
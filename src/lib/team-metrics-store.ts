@@ -0,0 +1,65 @@
+// Team Metrics Storage
+// One JSON table per season in data/team-metrics/ ({season}.json). A season
+// without its own file uses the latest earlier season until it's refreshed
+// (npm run refresh:team-metrics).
+
+import { promises as fs } from 'fs';
+import path from 'path';
+import { TeamMetricsTable } from './team-metrics';
+
+const METRICS_DIR = path.join(process.cwd(), 'data', 'team-metrics');
+
+// Tables already read this process, by requested season
+const cache = new Map<number, TeamMetricsTable | null>();
+
+async function readTable(season: number): Promise<TeamMetricsTable | null> {
+  try {
+    const raw = await fs.readFile(path.join(METRICS_DIR, `${season}.json`), 'utf-8');
+    const data = JSON.parse(raw);
+    return data?.teams ? { ...data, season } : null;
+  } catch {
+    return null;
+  }
+}
+
+// Seasons with a saved table, newest first
+export async function listTeamMetricsSeasons(): Promise<number[]> {
+  try {
+    const files = await fs.readdir(METRICS_DIR);
+    return files
+      .map(f => f.match(/^(\d{4})\.json$/)?.[1])
+      .filter((s): s is string => !!s)
+      .map(Number)
+      .sort((a, b) => b - a);
+  } catch {
+    return [];
+  }
+}
+
+// Load a season's table (or the latest earlier one)
+export async function loadTeamMetrics(season: number): Promise<TeamMetricsTable | null> {
+  if (!cache.has(season)) {
+    let table = await readTable(season);
+    if (!table) {
+      const fallback = (await listTeamMetricsSeasons()).find(s => s < season);
+      table = fallback ? await readTable(fallback) : null;
+      console.log(`[KOTC] No team metrics for ${season}${table ? `, using ${table.season}` : ''}`);
+    }
+    cache.set(season, table);
+  }
+
+  return cache.get(season) ?? null;
+}
+
+export async function saveTeamMetrics(table: TeamMetricsTable): Promise<boolean> {
+  try {
+    await fs.mkdir(METRICS_DIR, { recursive: true });
+    await fs.writeFile(path.join(METRICS_DIR, `${table.season}.json`), JSON.stringify(table, null, 2));
+    cache.clear();
+    console.log(`[KOTC] Saved team metrics for ${table.season} (${Object.keys(table.teams).length} teams)`);
+    return true;
+  } catch (error) {
+    console.log('[KOTC] Could not save team metrics:', error);
+    return false;
+  }
+}
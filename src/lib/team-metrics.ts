@@ -0,0 +1,168 @@
+// Team Metrics
+// One source for team defensive rating and pace, keyed by season. Tables live in
+// data/team-metrics/{season}.json (see team-metrics-store.ts) and can be rebuilt
+// from ESPN team stats with refreshTeamMetrics(). fetchPlayersForGames() loads the
+// slate's season, overlays rolling last-N-game form (team-form.ts) and copies
+// each player's DRTG/pace lookups onto their EnhancedPlayerData, so the models
+// never read a table directly.
+
+export interface TeamMetrics {
+  def_rating: number;   // Points allowed per 100 possessions (lower = better defense)
+  off_rating?: number;  // Points scored per 100 possessions
+  pace: number;         // Possessions per 48 minutes
+  games?: number;       // Recent games behind rolling values (see team-form.ts)
+}
+
+export interface TeamMetricsTable {
+  season: number;                      // NBA season end year (2025 = 2024-25)
+  updated_at: string;
+  source: 'espn' | 'bundled' | 'rolling';
+  rolling_games?: number;              // Rolling tables: last-N window
+  as_of?: string;                      // Rolling tables: games before this slate
+  teams: Record<string, TeamMetrics>;  // Keyed by 3-letter team code (see normalizeTeamAbbrev)
+}
+
+// ESPN scoreboards use short forms for some teams; tables use the 3-letter codes
+const TEAM_ABBREV_ALIASES: Record<string, string> = {
+  'GS': 'GSW', 'NY': 'NYK', 'NO': 'NOP', 'SA': 'SAS', 'UTAH': 'UTA', 'WSH': 'WAS'
+};
+
+export function normalizeTeamAbbrev(abbrev: string): string {
+  return TEAM_ABBREV_ALIASES[abbrev] || abbrev;
+}
+
+// Used when no table is loaded at all
+const FALLBACK_METRICS: TeamMetrics = { def_rating: 112, pace: 100 };
+
+// A refresh with fewer teams than this is treated as a failed fetch
+const MIN_TEAMS = 25;
+
+// League average of a table (fallback for teams it doesn't list)
+export function leagueAverageMetrics(table: TeamMetricsTable | null): TeamMetrics {
+  const teams = table ? Object.values(table.teams) : [];
+  if (teams.length === 0) return FALLBACK_METRICS;
+  return {
+    def_rating: Math.round(teams.reduce((sum, t) => sum + t.def_rating, 0) / teams.length * 10) / 10,
+    pace: Math.round(teams.reduce((sum, t) => sum + t.pace, 0) / teams.length * 10) / 10
+  };
+}
+
+export function getTeamMetrics(table: TeamMetricsTable | null, abbrev: string): TeamMetrics {
+  return table?.teams[normalizeTeamAbbrev(abbrev)] || leagueAverageMetrics(table);
+}
+
+export function getDefensiveRating(table: TeamMetricsTable | null, abbrev: string): number {
+  return getTeamMetrics(table, abbrev).def_rating;
+}
+
+export function getTeamPace(table: TeamMetricsTable | null, abbrev: string): number {
+  return getTeamMetrics(table, abbrev).pace;
+}
+
+// Share of a game's possession projection taken from the betting total
+const TOTAL_WEIGHT = 0.5;
+
+// Projected possessions per team for a game, from both teams' pace and, when
+// there is one, the over/under. Pace combines multiplicatively around the
+// league average (two fast teams play faster than either alone). The total
+// implies possessions once divided by the points per possession each offense
+// should score against the other defense.
+export function projectGamePossessions(
+  table: TeamMetricsTable | null,
+  homeAbbrev: string,
+  awayAbbrev: string,
+  overUnder?: number | null
+): number {
+  const league = leagueAverageMetrics(table);
+  const home = getTeamMetrics(table, homeAbbrev);
+  const away = getTeamMetrics(table, awayAbbrev);
+  const round = (v: number) => Math.round(v * 10) / 10;
+
+  const fromPace = home.pace * away.pace / league.pace;
+  if (!overUnder || overUnder <= 0) return round(fromPace);
+
+  // Off/def ratings are per 100 possessions; offense vs defense relative to league
+  const homeRating = (home.off_rating ?? league.def_rating) + away.def_rating - league.def_rating;
+  const awayRating = (away.off_rating ?? league.def_rating) + home.def_rating - league.def_rating;
+  const fromTotal = overUnder * 100 / (homeRating + awayRating);
+
+  return round(TOTAL_WEIGHT * fromTotal + (1 - TOTAL_WEIGHT) * fromPace);
+}
+
+// Every { name, value } stat anywhere in an ESPN stats payload (first wins)
+function collectStats(node: any, out: Record<string, number> = {}): Record<string, number> {
+  if (Array.isArray(node)) {
+    node.forEach(child => collectStats(child, out));
+  } else if (node && typeof node === 'object') {
+    if (typeof node.name === 'string' && typeof node.value === 'number' && !(node.name in out)) {
+      out[node.name] = node.value;
+    }
+    Object.values(node).forEach(child => collectStats(child, out));
+  }
+  return out;
+}
+
+async function fetchJson(url: string): Promise<any | null> {
+  try {
+    const response = await fetch(url, { headers: { 'Accept': 'application/json' } });
+    return response.ok ? await response.json() : null;
+  } catch {
+    return null;
+  }
+}
+
+// Rebuild a season's table from ESPN team stats
+// Possessions per game = FGA - OREB + TOV + 0.44 * FTA; ratings are points per
+// 100 of those (opponent possessions are assumed equal to the team's own)
+export async function refreshTeamMetrics(season: number): Promise<TeamMetricsTable | null> {
+  console.log(`[KOTC] Refreshing team metrics for the ${season} season from ESPN...`);
+
+  const [teamsData, standingsData] = await Promise.all([
+    fetchJson('https://site.api.espn.com/apis/site/v2/sports/basketball/nba/teams'),
+    fetchJson(`https://site.api.espn.com/apis/v2/sports/basketball/nba/standings?season=${season}`)
+  ]);
+
+  const teamList: Array<{ id: string; abbreviation: string }> =
+    (teamsData?.sports?.[0]?.leagues?.[0]?.teams || []).map((t: any) => t.team).filter((t: any) => t?.id);
+
+  // Points allowed per game from the standings
+  const pointsAgainst = new Map<string, number>();
+  for (const group of standingsData?.children || []) {
+    for (const entry of group?.standings?.entries || []) {
+      const abbrev = entry?.team?.abbreviation && normalizeTeamAbbrev(entry.team.abbreviation);
+      const stats = collectStats(entry?.stats);
+      if (abbrev && stats.avgPointsAgainst) pointsAgainst.set(abbrev, stats.avgPointsAgainst);
+    }
+  }
+
+  const teams: Record<string, TeamMetrics> = {};
+  for (const team of teamList) {
+    const data = await fetchJson(
+      `https://site.api.espn.com/apis/site/v2/sports/basketball/nba/teams/${team.id}/statistics?season=${season}`
+    );
+    const stats = collectStats(data);
+    const possessions = (stats.avgFieldGoalsAttempted ?? 0) - (stats.avgOffensiveRebounds ?? 0)
+      + (stats.avgTurnovers ?? 0) + 0.44 * (stats.avgFreeThrowsAttempted ?? 0);
+    const abbrev = normalizeTeamAbbrev(team.abbreviation);
+    const allowed = pointsAgainst.get(abbrev);
+
+    if (!(possessions > 50) || !allowed) {
+      console.log(`[KOTC] Incomplete team stats for ${abbrev}, skipping`);
+      continue;
+    }
+
+    teams[abbrev] = {
+      def_rating: Math.round(allowed / possessions * 1000) / 10,
+      off_rating: stats.avgPoints ? Math.round(stats.avgPoints / possessions * 1000) / 10 : undefined,
+      pace: Math.round(possessions * 10) / 10
+    };
+  }
+
+  const count = Object.keys(teams).length;
+  if (count < MIN_TEAMS) {
+    console.log(`[KOTC] Team metrics refresh got only ${count} teams`);
+    return null;
+  }
+
+  return { season, updated_at: new Date().toISOString(), source: 'espn', teams };
+}
@@ -0,0 +1,134 @@
+// Teammate Splits
+// How a player produces with and without a given teammate on the floor, from
+// the two players' game logs. fetchPlayersForGames() returns every roster
+// player's log for the slate's teams (not just the rotation), so a long-term
+// injured star still has a log to split against. Used by the vacated-usage
+// engine and /api/splits.
+
+import { GameLogEntry } from './game-logs';
+import { normalizeTeamAbbrev } from './team-metrics';
+
+export interface RosterLog {
+  player_id: string;
+  name: string;
+  log: GameLogEntry[];
+}
+
+// Per-game averages over a set of games
+export interface SplitLine {
+  games: number;
+  minutes: number;
+  shots: number;     // FGA + 0.44 * FTA
+  points: number;
+  rebounds: number;
+  assists: number;
+  pra: number;
+}
+
+export interface TeammateSplit {
+  player_id: string;
+  teammate_id: string;
+  with: SplitLine;
+  without: SplitLine;
+}
+
+export interface NamedTeammateSplit extends TeammateSplit {
+  teammate_name: string;
+  teammate_minutes: number;  // Teammate's season MPG (games played)
+  pra_diff: number | null;   // Without - with PRA per game (null if either side is empty)
+}
+
+export interface PlayerSplits {
+  player_id: string;
+  name: string;
+  team_abbrev: string;
+  splits: NamedTeammateSplit[];  // Key teammates, most minutes first
+}
+
+// Teammates averaging at least this many minutes get a split
+export const KEY_TEAMMATE_MINUTES = 20;
+
+// Every roster player's log for a slate's teams, keyed by 3-letter team code
+// (returned by fetchPlayersForGames())
+export type TeamRosterLogs = Map<string, RosterLog[]>;
+
+export function teamRoster(logs: TeamRosterLogs, team: string): RosterLog[] {
+  return logs.get(normalizeTeamAbbrev(team)) || [];
+}
+
+export const shotAttempts = (e: GameLogEntry) => e.fga + 0.44 * e.fta;
+
+export function splitLine(entries: GameLogEntry[]): SplitLine {
+  const n = entries.length;
+  const avg = (fn: (e: GameLogEntry) => number) =>
+    n > 0 ? Math.round(entries.reduce((sum, e) => sum + fn(e), 0) / n * 10) / 10 : 0;
+  return {
+    games: n,
+    minutes: avg(e => e.minutes),
+    shots: avg(shotAttempts),
+    points: avg(e => e.points),
+    rebounds: avg(e => e.rebounds),
+    assists: avg(e => e.assists),
+    pra: avg(e => e.pra)
+  };
+}
+
+// Whether a log entry was played for `team` (entries without a team, e.g. mock
+// logs, are taken to be)
+function playedFor(entry: GameLogEntry, team: string): boolean {
+  return !entry.team_abbrev || normalizeTeamAbbrev(entry.team_abbrev) === normalizeTeamAbbrev(team);
+}
+
+// Split a player's games by whether the teammate played. ESPN season logs run
+// across trades, so only games both played for `team` count: a traded player's
+// games for their old team are neither "with" nor "without". Games before the
+// teammate's first game for the team are left out (they weren't on it yet).
+export function computeTeammateSplit(player: RosterLog, teammate: RosterLog, team: string): TeammateSplit {
+  const teammateGames = teammate.log.filter(e => playedFor(e, team));
+  const teammatePlayed = new Set(teammateGames.filter(e => e.minutes > 0).map(e => e.event_id));
+  const firstDate = teammateGames[0]?.date || '';
+
+  const games = player.log.filter(e => e.minutes > 0 && playedFor(e, team) && e.date >= firstDate);
+  return {
+    player_id: player.player_id,
+    teammate_id: teammate.player_id,
+    with: splitLine(games.filter(e => teammatePlayed.has(e.event_id))),
+    without: splitLine(games.filter(e => !teammatePlayed.has(e.event_id)))
+  };
+}
+
+export function namedSplit(player: RosterLog, teammate: RosterLog, team: string): NamedTeammateSplit {
+  const split = computeTeammateSplit(player, teammate, team);
+  return {
+    ...split,
+    teammate_name: teammate.name,
+    teammate_minutes: splitLine(teammate.log.filter(e => e.minutes > 0)).minutes,
+    pra_diff: split.with.games > 0 && split.without.games > 0
+      ? Math.round((split.without.pra - split.with.pra) * 10) / 10
+      : null
+  };
+}
+
+// Team of a player among the slate's rosters
+export function findPlayerTeam(logs: TeamRosterLogs, playerId: string): string | null {
+  for (const [team, roster] of Array.from(logs.entries())) {
+    if (roster.some(r => r.player_id === playerId)) return team;
+  }
+  return null;
+}
+
+// A player's splits against every key teammate on their slate roster
+export function computePlayerSplits(logs: TeamRosterLogs, playerId: string): PlayerSplits | null {
+  const team = findPlayerTeam(logs, playerId);
+  const roster = team ? teamRoster(logs, team) : [];
+  const player = roster.find(r => r.player_id === playerId);
+  if (!team || !player) return null;
+
+  const splits = roster
+    .filter(r => r.player_id !== playerId)
+    .map(r => namedSplit(player, r, team))
+    .filter(s => s.teammate_minutes >= KEY_TEAMMATE_MINUTES)
+    .sort((a, b) => b.teammate_minutes - a.teammate_minutes);
+
+  return { player_id: playerId, name: player.name, team_abbrev: team, splits };
+}
@@ -0,0 +1,149 @@
+// Vacated Usage
+// When a teammate is ruled OUT, their minutes, shots and assists go somewhere.
+// For each available player this estimates how much of it they absorb:
+// - With 3+ games already played without that teammate, the observed
+//   with/without difference (teammate-splits.ts), shrunk toward zero so a
+//   handful of games can't dominate
+// - Otherwise a share of the OUT player's recent per-game volume, in
+//   proportion to the player's own minutes, shots and assists among the
+//   teammates who are available
+// Either way the gain is scaled by how many of the player's recent games the
+// teammate played in: if they've been out for weeks, the player's recent
+// numbers already include it. The minutes go into the minutes projection
+// (minutes.ts); the PRA the player gains beyond those minutes at their usual
+// rate is added on top.
+
+import { EnhancedPlayerData } from './espn-data';
+import { InjuryInfo, getPlayerInjuryStatus } from './injuries';
+import { attachMinutesProjections, ROTATION_SHARE } from './minutes';
+import {
+  RosterLog,
+  SplitLine,
+  TeamRosterLogs,
+  teamRoster,
+  computeTeammateSplit,
+  splitLine
+} from './teammate-splits';
+
+export interface VacatedUsage {
+  out_teammates: string[];   // Names of the OUT teammates
+  minutes: number;           // Per-game gains this player is expected to absorb
+  shots: number;
+  assists: number;
+  pra: number;
+  source: 'splits' | 'share' | 'mixed';
+}
+
+// Games without the teammate needed before their split is trusted at all
+const MIN_WITHOUT_GAMES = 3;
+
+// Splits are scaled by n / (n + SHRINKAGE_GAMES)
+const SHRINKAGE_GAMES = 5;
+
+// Share of an OUT player's shots and assists that stays with the rotation
+const VOLUME_SHARE = 0.8;
+
+const MAX_EXTRA_MINUTES = 10;
+
+// Games behind "recent" per-game volume
+const RECENT_GAMES = 10;
+
+const round = (v: number) => Math.round(v * 10) / 10;
+
+function recentLine(roster: RosterLog): SplitLine {
+  return splitLine(roster.log.filter(e => e.minutes > 0).slice(-RECENT_GAMES));
+}
+
+type Gain = Omit<VacatedUsage, 'out_teammates' | 'source'>;
+
+// Share of the player's recent games the teammate also played in
+function recentWithShare(player: RosterLog, teammate: RosterLog): number {
+  const recent = player.log.filter(e => e.minutes > 0).slice(-RECENT_GAMES);
+  if (recent.length === 0) return 0;
+  const teammatePlayed = new Set(teammate.log.filter(e => e.minutes > 0).map(e => e.event_id));
+  return recent.filter(e => teammatePlayed.has(e.event_id)).length / recent.length;
+}
+
+// Observed with/without difference, shrunk by sample size
+function splitGain(player: RosterLog, teammate: RosterLog, team: string): Gain | null {
+  const split = computeTeammateSplit(player, teammate, team);
+  const n = split.without.games;
+  if (n < MIN_WITHOUT_GAMES || split.with.games === 0) return null;
+
+  const weight = n / (n + SHRINKAGE_GAMES);
+  return {
+    minutes: (split.without.minutes - split.with.minutes) * weight,
+    shots: (split.without.shots - split.with.shots) * weight,
+    assists: (split.without.assists - split.with.assists) * weight,
+    pra: (split.without.pra - split.with.pra) * weight
+  };
+}
+
+// The player's share of the OUT teammate's volume among available teammates
+function shareGain(player: SplitLine, outPlayer: SplitLine, available: SplitLine[]): Gain {
+  const total = (fn: (l: SplitLine) => number) => available.reduce((sum, l) => sum + fn(l), 0);
+  const share = (fn: (l: SplitLine) => number) => total(fn) > 0 ? fn(player) / total(fn) : 0;
+
+  const minutes = outPlayer.minutes * ROTATION_SHARE * share(l => l.minutes);
+  const shots = outPlayer.shots * VOLUME_SHARE * share(l => l.shots);
+  const assists = outPlayer.assists * VOLUME_SHARE * share(l => l.assists);
+
+  // Extra shots score at the player's own efficiency; extra minutes bring rebounds
+  const pointsPerShot = player.shots > 0 ? player.points / player.shots : 0;
+  const reboundsPerMinute = player.minutes > 0 ? player.rebounds / player.minutes : 0;
+  const pra = shots * pointsPerShot + assists + minutes * reboundsPerMinute;
+
+  return { minutes, shots, assists, pra };
+}
+
+// Attach vacated usage for OUT teammates, then project minutes. Call after
+// injuries are merged and before OUT players are filtered, with the roster
+// logs fetchPlayersForGames() returned for the same slate.
+export function applyVacatedUsage(
+  players: EnhancedPlayerData[],
+  injuries: Map<string, InjuryInfo>,
+  rosterLogs: TeamRosterLogs
+): EnhancedPlayerData[] {
+  const isOut = (r: RosterLog) => getPlayerInjuryStatus(r.name, r.player_id, injuries)?.status === 'OUT';
+
+  const withUsage = players.map(p => {
+    if (p.injury_status === 'OUT') return p;
+
+    const roster = teamRoster(rosterLogs, p.team_abbrev);
+    const self = roster.find(r => r.player_id === p.player_id);
+    const outTeammates = roster.filter(r => r.player_id !== p.player_id && isOut(r));
+    if (!self || outTeammates.length === 0) return p;
+
+    // Teammates who'll play and were in the slate's rotation pool
+    const poolIds = new Set(players
+      .filter(q => q.team_abbrev === p.team_abbrev && q.injury_status !== 'OUT')
+      .map(q => q.player_id));
+    const available = roster.filter(r => poolIds.has(r.player_id)).map(recentLine);
+    const selfLine = recentLine(self);
+
+    const gain: Gain = { minutes: 0, shots: 0, assists: 0, pra: 0 };
+    const sources = new Set<VacatedUsage['source']>();
+    for (const teammate of outTeammates) {
+      const fromSplit = splitGain(self, teammate, p.team_abbrev);
+      const g = fromSplit ?? shareGain(selfLine, recentLine(teammate), available);
+      const scale = recentWithShare(self, teammate);
+      sources.add(fromSplit ? 'splits' : 'share');
+      gain.minutes += g.minutes * scale;
+      gain.shots += g.shots * scale;
+      gain.assists += g.assists * scale;
+      gain.pra += g.pra * scale;
+    }
+
+    const vacated: VacatedUsage = {
+      out_teammates: outTeammates.map(r => r.name),
+      minutes: round(Math.max(-MAX_EXTRA_MINUTES, Math.min(MAX_EXTRA_MINUTES, gain.minutes))),
+      shots: round(gain.shots),
+      assists: round(gain.assists),
+      pra: round(gain.pra),
+      source: sources.size > 1 ? 'mixed' : Array.from(sources)[0]
+    };
+    return { ...p, vacated_usage: vacated };
+  });
+
+  return attachMinutesProjections(withUsage);
+}